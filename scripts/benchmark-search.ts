@@ -0,0 +1,145 @@
+#!/usr/bin/env bun
+/**
+ * Search Ranking Benchmark Script
+ * Compares BM25F ranking in searchStandards against plain keyword-overlap scoring
+ * on labelled teacher queries (MRR, precision@5, nDCG@10)
+ */
+
+import { initializeDatabase, getDatabase } from '../src/server/database.js';
+import { tokenize } from '../src/server/search-index.js';
+import type { Standard } from '../src/types/ngss.js';
+
+interface LabelledQuery {
+  query: string;
+  relevant: string[];   // Standards a teacher would expect at the top
+}
+
+interface RankingMetrics {
+  mrr: number;
+  precisionAt5: number;
+  ndcgAt10: number;
+}
+
+/**
+ * Middle school queries labelled with the standards that answer them
+ */
+const LABELLED_QUERIES: LabelledQuery[] = [
+  { query: 'photosynthesis', relevant: ['MS-LS1-6'] },
+  { query: 'chemical reactions', relevant: ['MS-PS1-2', 'MS-PS1-5', 'MS-PS1-6'] },
+  { query: 'natural selection', relevant: ['MS-LS4-4', 'MS-LS4-6'] },
+  { query: 'plate tectonics', relevant: ['MS-ESS2-3'] },
+  { query: 'weather and climate', relevant: ['MS-ESS2-5', 'MS-ESS2-6'] },
+  { query: 'global warming temperature', relevant: ['MS-ESS3-5'] },
+  { query: 'gravitational interactions', relevant: ['MS-PS2-4', 'MS-ESS1-2'] },
+  { query: 'wave amplitude energy', relevant: ['MS-PS4-1'] },
+  { query: 'kinetic energy mass speed', relevant: ['MS-PS3-1'] },
+  { query: 'thermal energy transfer', relevant: ['MS-PS3-3', 'MS-PS3-4'] },
+  { query: 'cells living things', relevant: ['MS-LS1-1', 'MS-LS1-2'] },
+  { query: 'genetic mutations proteins', relevant: ['MS-LS3-1'] },
+  { query: 'asexual sexual reproduction', relevant: ['MS-LS3-2'] },
+  { query: 'fossil record', relevant: ['MS-LS4-1'] },
+  { query: 'resource availability populations', relevant: ['MS-LS2-1'] },
+  { query: 'water cycle', relevant: ['MS-ESS2-4'] },
+  { query: 'natural hazards', relevant: ['MS-ESS3-2'] },
+  { query: 'design criteria constraints', relevant: ['MS-ETS1-1'] },
+  { query: 'electric magnetic forces', relevant: ['MS-PS2-3', 'MS-PS2-5'] },
+  { query: 'atomic composition molecules', relevant: ['MS-PS1-1'] },
+  { query: 'human population consumption', relevant: ['MS-ESS3-4'] },
+  { query: 'digitized signals', relevant: ['MS-PS4-3'] },
+  { query: 'sensory receptors brain', relevant: ['MS-LS1-8'] },
+  { query: 'synthetic materials natural resources', relevant: ['MS-PS1-3'] },
+  // Teacher wording that differs from the standards' wording (answered through the search vocabulary)
+  { query: 'heat', relevant: ['MS-PS1-4', 'MS-PS3-3', 'MS-PS3-4'] },
+  { query: 'food web', relevant: ['MS-LS2-3', 'MS-LS2-2'] },
+  { query: 'earthquakes and volcanoes', relevant: ['MS-ESS3-2', 'MS-ESS2-3'] },
+  { query: 'dna', relevant: ['MS-LS3-1', 'MS-LS3-2'] },
+  { query: 'evolution', relevant: ['MS-LS4-1', 'MS-LS4-2', 'MS-LS4-3', 'MS-LS4-4', 'MS-LS4-6'] }
+];
+
+/**
+ * The previous scorer: fraction of query keywords found anywhere in the standard
+ */
+function rankByKeywordOverlap(standards: Standard[], query: string): string[] {
+  const keywords = tokenize(query);
+  return standards
+    .map(standard => {
+      const terms = new Set(tokenize([
+        standard.performance_expectation,
+        standard.clarification_statement ?? '',
+        standard.assessment_boundary ?? '',
+        standard.topic,
+        ...standard.keywords
+      ].join(' ')));
+      return { code: standard.code, score: keywords.filter(k => terms.has(k)).length / keywords.length };
+    })
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(r => r.code);
+}
+
+function evaluate(ranked: string[], relevant: string[]): RankingMetrics {
+  const relevantSet = new Set(relevant);
+  const firstHit = ranked.findIndex(code => relevantSet.has(code));
+
+  const dcg = ranked.slice(0, 10).reduce((sum, code, i) => sum + (relevantSet.has(code) ? 1 / Math.log2(i + 2) : 0), 0);
+  const idealDcg = relevant.slice(0, 10).reduce((sum, _, i) => sum + 1 / Math.log2(i + 2), 0);
+
+  return {
+    mrr: firstHit === -1 ? 0 : 1 / (firstHit + 1),
+    precisionAt5: ranked.slice(0, 5).filter(code => relevantSet.has(code)).length / Math.min(5, relevant.length),
+    ndcgAt10: idealDcg > 0 ? dcg / idealDcg : 0
+  };
+}
+
+function average(metrics: RankingMetrics[]): RankingMetrics {
+  const mean = (pick: (m: RankingMetrics) => number) => metrics.reduce((sum, m) => sum + pick(m), 0) / metrics.length;
+  return { mrr: mean(m => m.mrr), precisionAt5: mean(m => m.precisionAt5), ndcgAt10: mean(m => m.ndcgAt10) };
+}
+
+function runBenchmark(): { bm25: RankingMetrics; baseline: RankingMetrics } {
+  console.log('🚀 Starting Search Ranking Benchmark\n');
+  initializeDatabase();
+  const db = getDatabase();
+  const standards = db.getAllStandards();
+
+  const bm25Results: RankingMetrics[] = [];
+  const baselineResults: RankingMetrics[] = [];
+
+  console.log('Query                                   BM25 MRR  Overlap MRR');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  for (const { query, relevant } of LABELLED_QUERIES) {
+    const bm25 = evaluate(db.searchStandards(query, { limit: 100 }).map(r => r.standard.code), relevant);
+    const baseline = evaluate(rankByKeywordOverlap(standards, query), relevant);
+    bm25Results.push(bm25);
+    baselineResults.push(baseline);
+    console.log(`${query.padEnd(40)}${bm25.mrr.toFixed(2).padStart(8)}${baseline.mrr.toFixed(2).padStart(13)}`);
+  }
+
+  const bm25 = average(bm25Results);
+  const baseline = average(baselineResults);
+  const row = (name: string, m: RankingMetrics) =>
+    `${name.padEnd(16)}${m.mrr.toFixed(3).padStart(8)}${m.precisionAt5.toFixed(3).padStart(8)}${m.ndcgAt10.toFixed(3).padStart(10)}`;
+
+  console.log(`\n${'Ranking'.padEnd(16)}${'MRR'.padStart(8)}${'P@5'.padStart(8)}${'nDCG@10'.padStart(10)}`);
+  console.log(row('BM25F', bm25));
+  console.log(row('Keyword overlap', baseline));
+  console.log(`\n${LABELLED_QUERIES.length} labelled queries over ${standards.length} standards\n`);
+
+  return { bm25, baseline };
+}
+
+// Run benchmark if executed directly
+if (import.meta.main) {
+  const { bm25, baseline } = runBenchmark();
+
+  // Exit with error code if BM25 ranks worse than the scorer it replaced
+  if (bm25.ndcgAt10 < baseline.ndcgAt10) {
+    console.error('❌ Benchmark failed: BM25F ranking is worse than keyword overlap');
+    process.exit(1);
+  }
+
+  console.log('✅ Benchmark passed: BM25F ranking is at least as good as keyword overlap');
+  process.exit(0);
+}
+
+export { runBenchmark, LABELLED_QUERIES };
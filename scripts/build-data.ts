@@ -2,20 +2,38 @@
 /**
  * Build Data Script - Epic 1 Story 1 Implementation
  * Extracts NGSS standards from PDFs into structured JSON database
+ *
+ * Usage: bun scripts/build-data.ts [ES|MS|HS]   (defaults to MS)
  */
 
 import { BatchProcessor } from '../src/extraction/batch-processor.js';
 import { TopicExtractor } from '../src/extraction/topic-extractor.js';
 import { PDFReader } from '../src/extraction/pdf-reader.js';
+import { buildVectorFiles } from './build-vectors.js';
+import { GRADE_LEVEL_DATASETS, type GradeLevel } from '../src/types/ngss.js';
 import { writeFileSync, mkdirSync, existsSync } from 'fs';
 import { resolve, dirname } from 'path';
 
+// Source PDF for each grade band ("By Topic" arrangements from nextgenscience.org)
+const GRADE_LEVEL_SOURCES: Record<GradeLevel, string> = {
+  ES: 'Elementary By Topic NGSS.pdf',
+  MS: 'Middle School By Topic NGSS.pdf',
+  HS: 'High School By Topic NGSS.pdf'
+};
+
 async function main() {
   console.log('NGSS Data Extraction Pipeline');
   console.log('==============================\n');
 
-  const pdfPath = resolve(process.cwd(), 'docs/Middle School By Topic NGSS.pdf');
+  const gradeLevel = (process.argv[2] || 'MS').toUpperCase() as GradeLevel;
+  if (!(gradeLevel in GRADE_LEVEL_SOURCES)) {
+    throw new Error(`Unknown grade level "${process.argv[2]}". Expected one of: ES, MS, HS`);
+  }
+
+  const sourceFile = GRADE_LEVEL_SOURCES[gradeLevel];
+  const pdfPath = resolve(process.cwd(), 'docs', sourceFile);
 
+  console.log('Grade level:', gradeLevel);
   console.log('PDF:', pdfPath);
   console.log('\nPhase 1: Topic Discovery');
   console.log('------------------------');
@@ -36,15 +54,18 @@ async function main() {
     console.log('-------------------------');
 
     console.log('\nExtracting Physical Science standards...');
-    const psStandards = await batchProcessor.batchExtractStandards(pdfPath, 'MS-PS');
+    const psStandards = await batchProcessor.batchExtractStandards(pdfPath, 'PS');
 
     console.log('\nExtracting Life Science standards...');
-    const lsStandards = await batchProcessor.batchExtractStandards(pdfPath, 'MS-LS');
+    const lsStandards = await batchProcessor.batchExtractStandards(pdfPath, 'LS');
 
     console.log('\nExtracting Earth and Space Science standards...');
-    const essStandards = await batchProcessor.batchExtractStandards(pdfPath, 'MS-ESS');
+    const essStandards = await batchProcessor.batchExtractStandards(pdfPath, 'ESS');
 
-    const allStandards = [...psStandards, ...lsStandards, ...essStandards];
+    console.log('\nExtracting Engineering, Technology, and Applications of Science standards...');
+    const etsStandards = await batchProcessor.batchExtractStandards(pdfPath, 'ETS');
+
+    const allStandards = [...psStandards, ...lsStandards, ...essStandards, ...etsStandards];
 
     console.log('\nPhase 3: Database Generation');
     console.log('----------------------------');
@@ -52,16 +73,17 @@ async function main() {
     console.log('Physical Science:', psStandards.length);
     console.log('Life Science:', lsStandards.length);
     console.log('Earth and Space Science:', essStandards.length);
+    console.log('Engineering, Technology, and Applications of Science:', etsStandards.length);
 
     const database = {
       generated_at: new Date().toISOString(),
-      source: 'Middle School By Topic NGSS.pdf',
+      source: sourceFile,
       standards: allStandards,
       topics: topics.length,
       extraction_method: 'Epic 1 Story 1 - Pattern-based PDF extraction'
     };
 
-    const outputPath = resolve(process.cwd(), 'data/ngss-ms-standards.json');
+    const outputPath = resolve(process.cwd(), GRADE_LEVEL_DATASETS[gradeLevel]);
 
     // Ensure data directory exists
     const dataDir = dirname(outputPath);
@@ -74,6 +96,10 @@ async function main() {
 
     console.log('\nDatabase saved to:', outputPath);
     console.log('Size:', Math.round(JSON.stringify(database).length / 1024), 'KB');
+
+    console.log('\nPhase 4: Semantic Vectors');
+    console.log('-------------------------');
+    buildVectorFiles();
     console.log('\n✅ Data extraction complete!');
 
   } catch (error) {
@@ -0,0 +1,32 @@
+#!/usr/bin/env bun
+/**
+ * Build Vectors Script
+ * Writes the latent semantic vectors used by find_similar_standards next to each dataset
+ * (data/ngss-ms-standards.json -> data/ngss-ms-vectors.json). Run after the datasets or the
+ * curated lesson scopes change; build-data runs it automatically.
+ *
+ * Usage: bun scripts/build-vectors.ts
+ */
+
+import { writeFileSync } from 'fs';
+import { basename } from 'path';
+import { NGSSDatabase } from '../src/server/database.js';
+
+export function buildVectorFiles(): void {
+  const db = new NGSSDatabase(undefined, false);
+
+  for (const { path, vectors } of db.buildSemanticVectors()) {
+    const content = JSON.stringify(vectors);
+    writeFileSync(path, content);
+    console.log(
+      `${basename(path)}: ${Object.keys(vectors.standards).length} standards, ` +
+      `${Object.keys(vectors.terms).length} terms, ${vectors.dimensions} dimensions ` +
+      `(${Math.round(content.length / 1024)} KB)`
+    );
+  }
+}
+
+// Run if executed directly
+if (import.meta.main) {
+  buildVectorFiles();
+}
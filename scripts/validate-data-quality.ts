@@ -24,7 +24,7 @@ import { join } from 'path';
 interface Standard {
   code: string;
   sep: { name: string };
-  ccc: { name: string };
+  ccc?: { name: string };
   [key: string]: any;
 }
 
@@ -96,7 +96,9 @@ function main() {
 
   standards.forEach(s => {
     sepValues.add(s.sep.name);
-    cccValues.add(s.ccc.name);
+    if (s.ccc) {
+      cccValues.add(s.ccc.name);
+    }
   });
 
   // Validation 1: SEP count
@@ -78,7 +78,7 @@ function main() {
   // Check standard codes
   console.log('\n🏷️  Standard Code Validation');
   console.log('---------------------------');
-  const codePattern = /^MS-(PS|LS|ESS)\d+-\d+$/;
+  const codePattern = /^MS-(PS|LS|ESS|ETS)\d+-\d+$/;
   let validCodes = 0;
   let invalidCodes = 0;
 
@@ -110,7 +110,7 @@ function main() {
     console.log(`  PE: ${std.performance_expectation.substring(0, 80)}...`);
     console.log(`  SEP: ${std.sep.code} - ${std.sep.name.substring(0, 50)}...`);
     console.log(`  DCI: ${std.dci.code} - ${std.dci.name.substring(0, 50)}...`);
-    console.log(`  CCC: ${std.ccc.code} - ${std.ccc.name.substring(0, 50)}...`);
+    console.log(`  CCC: ${std.ccc ? `${std.ccc.code} - ${std.ccc.name.substring(0, 50)}...` : 'none'}`);
     console.log(`  Keywords: ${std.keywords.slice(0, 5).join(', ')}`);
   }
 
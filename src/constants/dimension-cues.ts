@@ -0,0 +1,41 @@
+/**
+ * NGSS MCP Server - Practice and Crosscutting Concept Cues
+ *
+ * Phrases that show a lesson engages a Science and Engineering Practice or a Crosscutting
+ * Concept, keyed by category code (SEP-1..SEP-8, CCC-1..CCC-7; see taxonomy.ts). align_lesson
+ * looks for them in the lesson text and quotes the sentence each was found in as evidence.
+ *
+ * Phrases are tokenized and stemmed like the search index ("develop a model" also matches
+ * "developed models"; stop words such as "how" are dropped), and up to two extra words may sit
+ * between their words ("develop a physical model").
+ */
+
+export const SEP_CUES: Record<string, readonly string[]> = {
+  'SEP-1': ['ask questions', 'generate questions', 'testable question', 'driving question', 'hypothesis', 'define the problem', 'criteria and constraints'],
+  'SEP-2': ['develop a model', 'use a model', 'build a model', 'create a model', 'draw a model', 'revise the model', 'diagram', 'simulation'],
+  'SEP-3': ['plan an investigation', 'conduct an investigation', 'carry out an investigation', 'experiment', 'collect data', 'measure', 'control variables', 'independent variable', 'dependent variable', 'trials'],
+  'SEP-4': ['analyze data', 'interpret data', 'analyze results', 'graph the data', 'data table', 'interpret graphs', 'analyze graphs'],
+  'SEP-5': ['calculate', 'mathematical representation', 'equation', 'compute', 'computational', 'spreadsheet'],
+  'SEP-6': ['construct an explanation', 'write an explanation', 'explain', 'claim evidence reasoning', 'design a solution', 'prototype', 'optimize the design'],
+  'SEP-7': ['argue from evidence', 'argument', 'argue', 'debate', 'support a claim', 'evaluate competing', 'critique'],
+  'SEP-8': ['research', 'read an article', 'gather information', 'obtain information', 'evaluate sources', 'communicate', 'presentation', 'poster']
+};
+
+export const CCC_CUES: Record<string, readonly string[]> = {
+  'CCC-1': ['pattern', 'trend', 'similarities and differences', 'classify'],
+  'CCC-2': ['cause', 'effect', 'affect', 'predict'],
+  'CCC-3': ['scale', 'proportion', 'proportional', 'ratio', 'microscopic', 'magnitude'],
+  'CCC-4': ['system', 'subsystem', 'components', 'inputs and outputs'],
+  'CCC-5': ['flow of energy', 'energy flow', 'energy transfer', 'transfer of energy', 'cycling of matter', 'matter cycles', 'conservation', 'conserved'],
+  'CCC-6': ['structure and function', 'structure', 'function', 'shape'],
+  'CCC-7': ['stability', 'stable', 'change over time', 'equilibrium', 'balance', 'feedback']
+};
+
+/**
+ * Classroom wording that says nothing about a lesson's science content
+ */
+export const LESSON_STOP_WORDS: readonly string[] = [
+  'student', 'students', 'teacher', 'class', 'classroom', 'group', 'groups', 'partner', 'partners',
+  'lesson', 'activity', 'activities', 'worksheet', 'handout', 'unit', 'day', 'minutes', 'period',
+  'use', 'using', 'work', 'then', 'each', 'will', 'can', 'they', 'their', 'them', 'this', 'that'
+];
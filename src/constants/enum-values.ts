@@ -12,7 +12,7 @@
 
 /**
  * Science and Engineering Practice (SEP) values
- * Total: 10 unique values
+ * Total: 13 unique values
  */
 export const SEP_VALUES = [
   'Analyze and interpret data to determine similarities and differences in findings.',
@@ -21,9 +21,12 @@ export const SEP_VALUES = [
   'Ask questions that can be investigated within the scope of the classroom, outdoor environment, and museums and other public facilities with available resources and, when appropriate, frame a hypothesis based on observations and scientific principles.',
   'Ask questions to identify and clarify evidence of an argument.',
   'Construct an explanation that includes qualitative or quantitative relationships between variables that predict phenomena.',
+  'Define a design problem that can be solved through the development of an object, tool, process or system and includes multiple criteria and constraints, including scientific knowledge that may limit possible solutions.',
   'Develop a model to describe unobservable mechanisms.',
+  'Develop a model to generate data to test ideas about designed systems, including those representing inputs and outputs.',
   'Develop a model to predict and/or describe phenomena.',
   'Develop and use a model to describe phenomena.',
+  'Evaluate competing design solutions based on jointly developed and agreed-upon design criteria.',
   'Unknown'  // Note: 5 standards have "Unknown" SEP
 ] as const;
 
@@ -44,13 +47,14 @@ export const CCC_VALUES = [
 
 /**
  * Disciplinary Core Idea (DCI) values
- * Total: 35 unique values across all NGSS middle school domains
+ * Total: 38 unique values across all NGSS middle school domains
  *
  * Physical Science (10 DCIs): PS1.A, PS1.B, PS2.A, PS2.B, PS3.A, PS3.B, PS3.C, PS4.A, PS4.B, PS4.C
  * Life Science (14 DCIs): LS1.A, LS1.B, LS1.C, LS1.D, LS2.A, LS2.B, LS2.C, LS3.A, LS3.B, LS4.A, LS4.B, LS4.C, LS4.D
  * Earth & Space Science (11 DCIs): ESS1.A, ESS1.B, ESS1.C, ESS2.A, ESS2.B, ESS2.C, ESS2.D, ESS2.E, ESS3.A, ESS3.B, ESS3.C, ESS3.D
+ * Engineering Design (3 DCIs): ETS1.A, ETS1.B, ETS1.C
  *
- * Note: Some DCIs may not have dedicated standards in the current dataset (32 of 35 are mapped).
+ * Note: Some DCIs may not have dedicated standards in the current dataset (35 of 38 are mapped).
  */
 export const DCI_VALUES = [
   'Adaptation',
@@ -59,8 +63,10 @@ export const DCI_VALUES = [
   'Chemical Reactions',
   'Conservation of Energy and Energy Transfer',
   'Cycles of Matter and Energy Transfer in Ecosystems',
+  'Defining and Delimiting an Engineering Problem',
   'Definitions of Energy',
   'Earth and the Solar System',
+  'Developing Possible Solutions',
   'Earth Materials and Systems',
   'Ecosystem Dynamics, Functioning, and Resilience',
   'Electromagnetic Radiation',
@@ -76,6 +82,7 @@ export const DCI_VALUES = [
   'Natural Hazards',
   'Natural Resources',
   'Natural Selection',
+  'Optimizing the Design Solution',
   'Organization for Matter and Energy Flow in Organisms',
   'Plate Tectonics and Large-Scale System Interactions',
   'Relationship Between Energy and Forces',
@@ -0,0 +1,99 @@
+/**
+ * NGSS MCP Server - Phenomenon Vocabulary
+ *
+ * Maps everyday words from lab descriptions and phenomena ("ice", "rust", "roller coaster") to the
+ * wording the standards use for the science behind them. find_similar_standards adds the related
+ * terms (at reduced weight) before folding free text into the semantic vector space, so words the
+ * standards never use still land near the right standards.
+ *
+ * Same format as SEARCH_VOCABULARY: plain phrases, tokenized and stemmed like the index.
+ */
+
+export const PHENOMENON_VOCABULARY: Record<string, readonly string[]> = {
+  // Matter and its changes
+  'ice': ['water', 'solid', 'state', 'temperature'],
+  'melt': ['state', 'thermal energy', 'particle motion', 'temperature'],
+  'freeze': ['state', 'thermal energy', 'particle motion', 'temperature'],
+  'boil': ['state', 'thermal energy', 'particle motion', 'temperature'],
+  'evaporate': ['state', 'particle motion', 'water', 'gas'],
+  'condensation': ['state', 'particle motion', 'water', 'gas'],
+  'steam': ['water', 'gas', 'state'],
+  'salt': ['substance', 'pure substance', 'properties'],
+  'sugar': ['substance', 'molecules', 'properties'],
+  'dissolve': ['substance', 'properties', 'mixture'],
+  'rust': ['chemical reaction', 'substances', 'properties'],
+  'baking soda': ['chemical reaction', 'substances', 'gas'],
+  'vinegar': ['chemical reaction', 'substances'],
+  'fizz': ['chemical reaction', 'gas'],
+  'burn': ['chemical reaction', 'release energy', 'thermal energy'],
+  'fire': ['chemical reaction', 'release energy', 'thermal energy'],
+  'cooking': ['chemical reaction', 'thermal energy'],
+  'hand warmer': ['thermal energy', 'chemical process', 'device'],
+  'cooler': ['thermal energy', 'transfer', 'device'],
+  'insulation': ['thermal energy', 'transfer'],
+  'plastic': ['synthetic materials', 'natural resources'],
+
+  // Motion, forces and energy
+  'car crash': ['collision', 'forces', 'motion', 'mass'],
+  'seatbelt': ['collision', 'forces', 'motion'],
+  'bumper car': ['collision', 'forces', 'motion'],
+  'roller coaster': ['kinetic energy', 'potential energy', 'motion'],
+  'skateboard': ['motion', 'forces', 'kinetic energy'],
+  'rocket': ['forces', 'motion', 'newton'],
+  'ramp': ['motion', 'forces', 'potential energy'],
+  'spring': ['potential energy', 'forces'],
+  'rubber band': ['potential energy', 'forces'],
+  'compass': ['magnetic', 'fields'],
+  'static': ['electric', 'forces', 'charges'],
+  'battery': ['electric', 'energy'],
+  'echo': ['sound', 'waves', 'reflected'],
+  'music': ['sound', 'waves', 'amplitude'],
+  'rainbow': ['light', 'waves'],
+  'mirror': ['light', 'reflected'],
+  'phone': ['digitized signals', 'waves', 'information'],
+  'wifi': ['digitized signals', 'waves', 'information'],
+
+  // Living things
+  'germ': ['cells', 'organisms', 'living things'],
+  'bacteria': ['cells', 'organisms', 'living things'],
+  'microscope': ['cells', 'living things'],
+  'exercise': ['body', 'subsystems', 'cells'],
+  'heart': ['body', 'subsystems', 'cells'],
+  'plant growth': ['photosynthesis', 'environmental factors', 'growth of organisms'],
+  'sunlight': ['light energy', 'photosynthesis'],
+  'fertilizer': ['growth of organisms', 'environmental factors'],
+  'flower': ['plant reproduction', 'plant structures'],
+  'bee': ['pollination', 'plant reproduction', 'animal behavior'],
+  'seed': ['plant reproduction', 'growth'],
+  'twins': ['genetic', 'traits', 'inheritance'],
+  'offspring': ['reproduction', 'traits', 'genetic variation'],
+  'dog breeds': ['artificial selection', 'traits', 'genetic'],
+  'camouflage': ['adaptation', 'traits', 'natural selection'],
+  'antibiotic resistance': ['natural selection', 'traits', 'populations'],
+  'dinosaur': ['fossil record', 'extinction'],
+  'compost': ['decomposers', 'cycling of matter'],
+  'invasive species': ['ecosystem', 'populations', 'biodiversity'],
+  'coral reef': ['ecosystem', 'biodiversity'],
+  'deforestation': ['biodiversity', 'human impacts', 'ecosystem'],
+
+  // Earth and space
+  'rain': ['water cycle', 'weather', 'precipitation'],
+  'cloud': ['water cycle', 'weather', 'condensation'],
+  'wind': ['air masses', 'weather'],
+  'storm': ['weather', 'natural hazards', 'air masses'],
+  'flood': ['natural hazards', 'weather'],
+  'ocean current': ['ocean circulation', 'climate'],
+  'mountain': ['plate tectonics', 'geoscience processes', 'earth surface'],
+  'canyon': ['erosion', 'earth surface processes', 'water'],
+  'eclipse': ['earth sun moon', 'patterns'],
+  'tide': ['moon', 'gravity'],
+  'day and night': ['earth sun', 'patterns'],
+  'gasoline': ['natural resources', 'human impacts', 'fossil fuels'],
+  'recycling': ['natural resources', 'human impacts'],
+  'smog': ['human impacts', 'pollution', 'atmosphere'],
+
+  // Engineering
+  'bridge': ['design', 'criteria', 'constraints'],
+  'invent': ['design', 'solution', 'criteria'],
+  'egg drop': ['design', 'testing', 'forces', 'collision']
+};
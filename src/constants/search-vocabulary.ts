@@ -0,0 +1,77 @@
+/**
+ * NGSS MCP Server - Search Vocabulary
+ *
+ * Maps the words teachers search with to the wording the standards use for the same idea,
+ * e.g. "heat" -> "thermal energy", "food web" -> "feeding relationships". search_standards adds
+ * the related terms to a query (at reduced weight) whenever the phrase appears in it.
+ *
+ * Keys and values are plain phrases; they are tokenized and stemmed like the index, so
+ * plurals and verb forms need no separate entries. Extend at runtime with
+ * NGSSDatabase.addVocabulary().
+ */
+
+export const SEARCH_VOCABULARY: Record<string, readonly string[]> = {
+  // Physical science
+  'heat': ['thermal energy', 'temperature'],
+  'temperature': ['thermal energy'],
+  'states of matter': ['state', 'particle motion', 'pure substance'],
+  'phase change': ['state', 'thermal energy', 'particle motion'],
+  'chemical change': ['chemical reaction', 'substances interact'],
+  'atom': ['atomic', 'molecules'],
+  'conservation of mass': ['mass is conserved', 'number of atoms'],
+  'speed': ['motion', 'velocity'],
+  'velocity': ['speed', 'motion'],
+  'movement': ['motion'],
+  'push': ['forces', 'motion'],
+  'pull': ['forces', 'motion'],
+  'friction': ['forces', 'motion'],
+  'newton laws': ['newton', 'forces', 'motion'],
+  'gravity': ['gravitational'],
+  'magnet': ['magnetic', 'fields'],
+  'magnetism': ['magnetic', 'fields'],
+  'electricity': ['electric'],
+  'sound': ['waves', 'amplitude'],
+  'light': ['waves', 'reflected', 'absorbed', 'transmitted'],
+  'stored energy': ['potential energy'],
+  'energy of motion': ['kinetic energy'],
+
+  // Life science
+  'food web': ['feeding relationships', 'cycling of matter', 'flow of energy', 'interactions among organisms'],
+  'food chain': ['food web', 'feeding relationships', 'flow of energy'],
+  'feeding relationships': ['food web', 'predator'],
+  'predator prey': ['interactions among organisms', 'feeding relationships', 'competitive'],
+  'habitat': ['ecosystem', 'environmental'],
+  'respiration': ['chemical reactions', 'release energy', 'food'],
+  'digestion': ['food', 'molecules', 'body'],
+  'body systems': ['subsystems', 'body', 'cells'],
+  'senses': ['sensory receptors', 'stimuli'],
+  'dna': ['genes', 'genetic', 'chromosomes'],
+  'heredity': ['inheritance', 'traits', 'genes'],
+  'genetics': ['genes', 'genetic', 'inheritance', 'traits'],
+  'mutation': ['genes', 'proteins'],
+  'evolution': ['natural selection', 'common ancestry', 'adaptation'],
+  'survival of the fittest': ['natural selection', 'adaptation'],
+  'extinct': ['extinction', 'fossil record'],
+
+  // Earth and space science
+  'global warming': ['climate change', 'global temperatures', 'greenhouse'],
+  'climate change': ['global warming', 'global temperatures'],
+  'earthquake': ['natural hazards', 'plate tectonics'],
+  'volcano': ['natural hazards', 'plate tectonics'],
+  'hurricane': ['natural hazards', 'weather'],
+  'tornado': ['natural hazards', 'weather'],
+  'continental drift': ['plate tectonics'],
+  'rock cycle': ['earth materials', 'earth surface processes'],
+  'erosion': ['earth surface processes', 'water'],
+  'weathering': ['earth surface processes', 'water'],
+  'water cycle': ['roles of water', 'earth surface processes'],
+  'moon phases': ['earth sun moon', 'solar system'],
+  'seasons': ['earth sun', 'solar system'],
+  'planet': ['solar system'],
+  'galaxy': ['universe', 'stars'],
+  'pollution': ['human impacts'],
+
+  // Engineering design
+  'engineering': ['design', 'criteria', 'constraints'],
+  'prototype': ['design', 'testing', 'modification']
+};
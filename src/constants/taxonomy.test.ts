@@ -0,0 +1,72 @@
+/**
+ * Unit Tests for SEP and CCC Taxonomy
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  SEP_CATEGORIES,
+  CCC_CATEGORIES,
+  findCategory,
+  categoryForElement,
+  categoryInText
+} from './taxonomy.js';
+import { SEP_VALUES, CCC_VALUES } from './enum-values.js';
+
+describe('SEP and CCC categories', () => {
+  test('should list the 8 practices and 7 crosscutting concepts in framework order', () => {
+    expect(SEP_CATEGORIES.map(c => c.code)).toEqual(['SEP-1', 'SEP-2', 'SEP-3', 'SEP-4', 'SEP-5', 'SEP-6', 'SEP-7', 'SEP-8']);
+    expect(SEP_CATEGORIES[1]!.name).toBe('Developing and Using Models');
+    expect(CCC_CATEGORIES.map(c => c.name)).toEqual([
+      'Patterns',
+      'Cause and Effect',
+      'Scale, Proportion, and Quantity',
+      'Systems and System Models',
+      'Energy and Matter',
+      'Structure and Function',
+      'Stability and Change'
+    ]);
+  });
+
+  test('should place every known element under exactly one category', () => {
+    SEP_VALUES.filter(value => value !== 'Unknown').forEach(value => {
+      expect(SEP_CATEGORIES.filter(c => c.elements.some(e => e.name === value)).length, value).toBe(1);
+    });
+    CCC_VALUES.forEach(value => {
+      expect(CCC_CATEGORIES.filter(c => c.elements.some(e => e.name === value)).length, value).toBe(1);
+    });
+  });
+
+  test('should derive element codes from the category code', () => {
+    const models = findCategory(SEP_CATEGORIES, 'Developing and Using Models')!;
+
+    expect(models.elements.map(e => e.code)).toEqual(['SEP-2.1', 'SEP-2.2', 'SEP-2.3', 'SEP-2.4']);
+  });
+});
+
+describe('findCategory', () => {
+  test('should find categories by name or code, ignoring case', () => {
+    expect(findCategory(SEP_CATEGORIES, 'developing and using models')?.code).toBe('SEP-2');
+    expect(findCategory(CCC_CATEGORIES, 'ccc-2')?.name).toBe('Cause and Effect');
+  });
+
+  test('should not treat element statements as categories', () => {
+    expect(findCategory(SEP_CATEGORIES, 'Develop a model to describe unobservable mechanisms.')).toBeUndefined();
+  });
+});
+
+describe('categoryForElement', () => {
+  test('should return the parent category of an element statement', () => {
+    expect(categoryForElement(CCC_CATEGORIES, 'Patterns can be used to identify cause and effect relationships.')?.code).toBe('CCC-1');
+    expect(categoryForElement(SEP_CATEGORIES, 'Unknown')).toBeUndefined();
+  });
+});
+
+describe('categoryInText', () => {
+  test('should pick the heading closest to the end of the text', () => {
+    const text = 'Science and Engineering Practices\nDeveloping and Using\nModels\n▪ Develop a model. (MS-PS1-1)\nAnalyzing and Interpreting Data\n';
+
+    expect(categoryInText(SEP_CATEGORIES, text)?.code).toBe('SEP-4');
+    expect(categoryInText(SEP_CATEGORIES, text.slice(0, 70))?.code).toBe('SEP-2');
+    expect(categoryInText(CCC_CATEGORIES, 'no headings here')).toBeUndefined();
+  });
+});
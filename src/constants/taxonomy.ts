@@ -0,0 +1,155 @@
+/**
+ * NGSS MCP Server - SEP and CCC Taxonomy
+ *
+ * The 8 Science and Engineering Practices and 7 Crosscutting Concepts of the NGSS framework,
+ * in framework order, with the element-level statements found in the standards data as children.
+ *
+ * Category codes (SEP-1..SEP-8, CCC-1..CCC-7) are stable and are what each standard's
+ * `sep.code` / `ccc.code` carries. Element codes append the element's position
+ * (e.g. SEP-2.3); new elements are only ever appended so existing codes never change.
+ * SEP-0 / CCC-0 mark elements the extractor could not place in a category.
+ */
+
+import { SEP_VALUES, CCC_VALUES } from './enum-values.js';
+
+export interface TaxonomyElement {
+  code: string;
+  name: string;
+}
+
+export interface TaxonomyCategory {
+  code: string;
+  name: string;
+  elements: TaxonomyElement[];
+}
+
+export const UNKNOWN_SEP_CODE = 'SEP-0';
+export const UNKNOWN_CCC_CODE = 'CCC-0';
+
+/**
+ * Science and Engineering Practice categories, in framework order (SEP-1..SEP-8)
+ */
+export const SEP_CATEGORY_NAMES = [
+  'Asking Questions and Defining Problems',
+  'Developing and Using Models',
+  'Planning and Carrying Out Investigations',
+  'Analyzing and Interpreting Data',
+  'Using Mathematics and Computational Thinking',
+  'Constructing Explanations and Designing Solutions',
+  'Engaging in Argument from Evidence',
+  'Obtaining, Evaluating, and Communicating Information'
+] as const;
+
+/**
+ * Crosscutting Concept categories, in framework order (CCC-1..CCC-7)
+ */
+export const CCC_CATEGORY_NAMES = [
+  'Patterns',
+  'Cause and Effect',
+  'Scale, Proportion, and Quantity',
+  'Systems and System Models',
+  'Energy and Matter',
+  'Structure and Function',
+  'Stability and Change'
+] as const;
+
+type SepElementValue = Exclude<typeof SEP_VALUES[number], 'Unknown'>;
+type CccElementValue = typeof CCC_VALUES[number];
+
+const SEP_ELEMENTS: Record<typeof SEP_CATEGORY_NAMES[number], SepElementValue[]> = {
+  'Asking Questions and Defining Problems': [
+    'Ask questions that can be investigated within the scope of the classroom, outdoor environment, and museums and other public facilities with available resources and, when appropriate, frame a hypothesis based on observations and scientific principles.',
+    'Ask questions to identify and clarify evidence of an argument.',
+    'Define a design problem that can be solved through the development of an object, tool, process or system and includes multiple criteria and constraints, including scientific knowledge that may limit possible solutions.'
+  ],
+  'Developing and Using Models': [
+    'Develop a model to predict and/or describe phenomena.',
+    'Develop a model to describe unobservable mechanisms.',
+    'Develop and use a model to describe phenomena.',
+    'Develop a model to generate data to test ideas about designed systems, including those representing inputs and outputs.'
+  ],
+  'Planning and Carrying Out Investigations': [],
+  'Analyzing and Interpreting Data': [
+    'Analyze and interpret data to determine similarities and differences in findings.',
+    'Analyze and interpret data to provide evidence for phenomena.',
+    'Analyze displays of data to identify linear and nonlinear relationships.'
+  ],
+  'Using Mathematics and Computational Thinking': [],
+  'Constructing Explanations and Designing Solutions': [
+    'Construct an explanation that includes qualitative or quantitative relationships between variables that predict phenomena.'
+  ],
+  'Engaging in Argument from Evidence': [
+    'Evaluate competing design solutions based on jointly developed and agreed-upon design criteria.'
+  ],
+  'Obtaining, Evaluating, and Communicating Information': []
+};
+
+const CCC_ELEMENTS: Record<typeof CCC_CATEGORY_NAMES[number], CccElementValue[]> = {
+  'Patterns': [
+    'Graphs and charts can be used to identify patterns in data.',
+    'Graphs, charts, and images can be used to identify patterns in data.',
+    'Macroscopic patterns are related to the nature of microscopic and atomic-level structure.',
+    'Patterns can be used to identify cause and effect relationships.',
+    'Patterns in rates of change and other numerical relationships can provide information about natural systems.'
+  ],
+  'Cause and Effect': [
+    'Cause and effect relationships may be used to predict phenomena in natural or designed systems.',
+    'Cause and effect relationships may be used to predict phenomena in natural systems.'
+  ],
+  'Scale, Proportion, and Quantity': [
+    'Proportional relationships (e.g., speed as the ratio of distance traveled to time taken) among different types of quantities provide information about the magnitude of properties and processes.'
+  ],
+  'Systems and System Models': [],
+  'Energy and Matter': [],
+  'Structure and Function': [],
+  'Stability and Change': []
+};
+
+function buildCategories(prefix: string, names: readonly string[], elements: Record<string, readonly string[]>): TaxonomyCategory[] {
+  return names.map((name, i) => {
+    const code = `${prefix}-${i + 1}`;
+    return {
+      code,
+      name,
+      elements: (elements[name] || []).map((element, j) => ({ code: `${code}.${j + 1}`, name: element }))
+    };
+  });
+}
+
+export const SEP_CATEGORIES: readonly TaxonomyCategory[] = buildCategories('SEP', SEP_CATEGORY_NAMES, SEP_ELEMENTS);
+export const CCC_CATEGORIES: readonly TaxonomyCategory[] = buildCategories('CCC', CCC_CATEGORY_NAMES, CCC_ELEMENTS);
+
+/**
+ * Find a category by name or code (case-insensitive)
+ */
+export function findCategory(categories: readonly TaxonomyCategory[], nameOrCode: string): TaxonomyCategory | undefined {
+  const key = nameOrCode.trim().toLowerCase();
+  return categories.find(c => c.name.toLowerCase() === key || c.code.toLowerCase() === key);
+}
+
+/**
+ * Category that lists an element statement as one of its children
+ */
+export function categoryForElement(categories: readonly TaxonomyCategory[], elementName: string): TaxonomyCategory | undefined {
+  return categories.find(c => c.elements.some(e => e.name === elementName));
+}
+
+/**
+ * Category whose name appears last in a block of text, i.e. the heading an element sits under
+ * in a foundation box ("Developing and Using Models ▪ Develop a model to ...")
+ */
+export function categoryInText(categories: readonly TaxonomyCategory[], text: string): TaxonomyCategory | undefined {
+  const normalized = text.replace(/\s+/g, ' ');
+  let found: TaxonomyCategory | undefined;
+  let foundAt = -1;
+
+  for (const category of categories) {
+    const at = normalized.lastIndexOf(category.name);
+    if (at > foundAt) {
+      found = category;
+      foundAt = at;
+    }
+  }
+
+  return found;
+}
@@ -1,4 +1,4 @@
-import type { Standard } from '../types/ngss.js';
+import type { Standard, DomainCode } from '../types/ngss.js';
 import { StructuredExtractor } from './structured-extractor.js';
 import { SchemaValidator } from './schema-validator.js';
 import { PatternExtractor } from './pattern-extractor.js';
@@ -16,13 +16,15 @@ export class BatchProcessor {
 
   async batchExtractStandards(
     pdfPath: string,
-    domainFilter?: 'MS-PS' | 'MS-LS' | 'MS-ESS'
+    domainFilter?: DomainCode
   ): Promise<Standard[]> {
     const allCodes = await this.patternExtractor.extractStandardCodes(pdfPath);
     let targetCodes = allCodes;
 
     if (domainFilter) {
-      targetCodes = allCodes.filter(c => c.code.startsWith(domainFilter));
+      // Match the domain segment regardless of grade prefix (MS-PS1-1, 3-PS2-1, HS-PS1-4)
+      const domainPattern = new RegExp(`-${domainFilter}\\d+-\\d+$`);
+      targetCodes = allCodes.filter(c => domainPattern.test(c.code));
     }
 
     const standards: Standard[] = [];
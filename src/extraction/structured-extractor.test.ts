@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for Structured Extractor page parsing
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { StructuredExtractor } from './structured-extractor.js';
+
+// Condensed "By Topic" page layout: PEs with bracketed notes, then the three foundation boxes
+const samplePage = `MS.Structure and Properties of Matter
+Students who demonstrate understanding can:
+MS-PS1-1. Develop models to describe the atomic composition of simple molecules and extended structures.
+[Clarification Statement: Emphasis is on developing models of molecules that vary in complexity.
+Examples of simple molecules could include ammonia and methanol.] [Assessment Boundary: Assessment does
+not include valence electrons and bonding energy.]
+MS-PS1-4. Develop a model that predicts and describes changes in particle motion, temperature, and state of a pure substance when thermal energy is added or removed. [Clarification Statement: Emphasis is on qualitative molecular-level models of solids, liquids, and gases.]
+Science and Engineering Practices
+Developing and Using Models
+▪ Develop a model to predict and/or describe phenomena. (MS-PS1-1),(MS-PS1-4)
+Disciplinary Core Ideas
+PS1.A: Structure and Properties of Matter
+▪ Substances are made from different types of atoms. (MS-PS1-1)
+▪ Gases and liquids are made of molecules or inert atoms that are moving about relative to each other. (MS-PS1-4)
+PS3.A: Definitions of Energy
+▪ The term "heat" as used in everyday language refers both to thermal energy and the transfer of that thermal energy. (MS-PS1-4)
+Crosscutting Concepts
+Patterns
+▪ Macroscopic patterns are related to the nature of microscopic and atomic-level structure. (MS-PS1-4)
+Scale, Proportion, and Quantity
+▪ Time, space, and energy phenomena can be observed at various scales using models. (MS-PS1-1)
+Connections to other DCIs in this grade-band: MS.PS3.C (MS-PS1-4)
+Articulation of DCIs across grade-bands: 5.PS1.A (MS-PS1-1); HS.PS1.A (MS-PS1-1),(MS-PS1-4); HS.PS3.A (MS-PS1-4)
+Common Core State Standards Connections:
+ELA/Literacy –
+RST.6-8.7 Integrate quantitative or technical information expressed in words with a version of that information expressed visually. (MS-PS1-1)
+Mathematics –
+MP.2 Reason abstractly and quantitatively. (MS-PS1-1),(MS-PS1-4)
+6.RP.A.3 Use ratio and rate reasoning to solve real-world and mathematical problems. (MS-PS1-1)
+8.EE.A.3 Use numbers expressed in the form of a single digit times an integer power of 10. (MS-PS1-1)`;
+
+describe('StructuredExtractor.parseStandardFromContent', () => {
+  const extractor = new StructuredExtractor();
+
+  test('should stop the performance expectation at the bracketed notes', () => {
+    const standard = extractor.parseStandardFromContent(samplePage, 'MS-PS1-1');
+
+    expect(standard.performance_expectation).toBe(
+      'Develop models to describe the atomic composition of simple molecules and extended structures.'
+    );
+    expect(standard.grade_level).toBe('MS');
+    expect(standard.domain).toBe('Physical Science');
+  });
+
+  test('should extract clarification statement and assessment boundary', () => {
+    const standard = extractor.parseStandardFromContent(samplePage, 'MS-PS1-1');
+
+    expect(standard.clarification_statement).toBe(
+      'Emphasis is on developing models of molecules that vary in complexity. Examples of simple molecules could include ammonia and methanol.'
+    );
+    expect(standard.assessment_boundary).toBe('Assessment does not include valence electrons and bonding energy.');
+  });
+
+  test('should not borrow notes from the next performance expectation', () => {
+    const standard = extractor.parseStandardFromContent(samplePage, 'MS-PS1-4');
+
+    expect(standard.clarification_statement).toBe(
+      'Emphasis is on qualitative molecular-level models of solids, liquids, and gases.'
+    );
+    expect(standard).not.toHaveProperty('assessment_boundary');
+  });
+
+  test('should collect every 3D element tagged with the standard code', () => {
+    const standard = extractor.parseStandardFromContent(samplePage, 'MS-PS1-4');
+
+    expect(standard.seps.map(s => s.name)).toEqual(['Develop a model to predict and/or describe phenomena.']);
+    expect(standard.dcis.map(d => d.code)).toEqual(['PS1.A', 'PS3.A']);
+    expect(standard.cccs.map(c => c.name)).toEqual([
+      'Macroscopic patterns are related to the nature of microscopic and atomic-level structure.'
+    ]);
+    expect(standard.dci).toEqual(standard.dcis[0]!);
+  });
+
+  test('should parse Connections references tagged with the standard code', () => {
+    expect(extractor.parseStandardFromContent(samplePage, 'MS-PS1-1').connections).toEqual({
+      other_dcis: [],
+      articulation: ['5.PS1.A', 'HS.PS1.A'],
+      ccss_ela: ['RST.6-8.7'],
+      ccss_math: ['MP.2', '6.RP.A.3', '8.EE.A.3']
+    });
+
+    expect(extractor.parseStandardFromContent(samplePage, 'MS-PS1-4').connections).toEqual({
+      other_dcis: ['MS.PS3.C'],
+      articulation: ['HS.PS1.A', 'HS.PS3.A'],
+      ccss_ela: [],
+      ccss_math: ['MP.2']
+    });
+  });
+
+  test('should still stop the CCC section at the Connections boxes', () => {
+    const standard = extractor.parseStandardFromContent(samplePage, 'MS-PS1-1');
+
+    expect(standard.cccs.map(c => c.name)).toEqual([
+      'Time, space, and energy phenomena can be observed at various scales using models.'
+    ]);
+  });
+
+  test('should code 3D elements with their practice and concept categories', () => {
+    const standard = extractor.parseStandardFromContent(samplePage, 'MS-PS1-1');
+
+    expect(standard.seps.map(s => s.code)).toEqual(['SEP-2']);
+    expect(standard.cccs.map(c => c.code)).toEqual(['CCC-3']);
+    expect(extractor.parseStandardFromContent(samplePage, 'MS-PS1-4').cccs.map(c => c.code)).toEqual(['CCC-1']);
+  });
+
+  test('should map elementary and high school codes to their grade band', () => {
+    expect(extractor.parseStandardFromContent('', '3-LS4-2').grade_level).toBe('ES');
+    expect(extractor.parseStandardFromContent('', '3-5-ETS1-1').grade_level).toBe('ES');
+    expect(extractor.parseStandardFromContent('', 'HS-PS1-4').grade_level).toBe('HS');
+    expect(extractor.parseStandardFromContent('', 'HS-PS1-4').domain).toBe('Physical Science');
+  });
+});
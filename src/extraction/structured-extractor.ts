@@ -2,9 +2,17 @@
  * Structured Extractor - Parse full NGSS standards with automatic section detection
  */
 
-import type { Standard, SEP, DCI, CCC, LessonScope } from '../types/ngss.js';
+import { PATTERNS, type Standard, type SEP, type DCI, type CCC, type StandardConnections, type LessonScope, type GradeLevel } from '../types/ngss.js';
 import { PDFReader, parsePageContent } from './pdf-reader.js';
 import { PatternExtractor } from './pattern-extractor.js';
+import {
+  SEP_CATEGORIES,
+  CCC_CATEGORIES,
+  UNKNOWN_SEP_CODE,
+  UNKNOWN_CCC_CODE,
+  categoryInText,
+  type TaxonomyCategory
+} from '../constants/taxonomy.js';
 
 export class StructuredExtractor {
   private pdfReader: PDFReader;
@@ -39,20 +47,23 @@ export class StructuredExtractor {
     return this.parseStandardFromContent(content, standardCode);
   }
 
-  private parseStandardFromContent(
+  parseStandardFromContent(
     content: string,
     standardCode: string
   ): Standard {
-    // Extract grade level and domain from code
-    const [gradeLevel, domainCode] = standardCode.split('-');
+    // Extract grade level and domain from code (e.g. MS-PS1-1, 3-LS4-2, 3-5-ETS1-1)
+    const codeMatch = standardCode.match(/^(K-2|3-5|K|[1-5]|MS|HS)-([A-Z]+)\d+-\d+$/);
+    const gradeLevel = this.gradeLevelFromPrefix(codeMatch?.[1]);
+    const domainCode = codeMatch?.[2];
 
     // Determine domain name
     const domainMap: Record<string, string> = {
       'LS': 'Life Science',
       'PS': 'Physical Science',
-      'ESS': 'Earth and Space Science'
+      'ESS': 'Earth and Space Science',
+      'ETS': 'Engineering, Technology, and Applications of Science'
     };
-    const domain = domainCode ? (domainMap[domainCode.replace(/\d+$/, '')] || 'Unknown') : 'Unknown';
+    const domain = domainCode ? (domainMap[domainCode] || 'Unknown') : 'Unknown';
 
     // Extract performance expectation (text after standard code)
     const pePattern = new RegExp(`${standardCode}\\.?\\s+([^\\[]+)`);
@@ -61,14 +72,20 @@ export class StructuredExtractor {
       ? peMatch[1].trim().replace(/\s+/g, ' ')
       : '';
 
-    // Parse 3D components
-    const sep = this.parseSEP(content);
-    const dci = this.parseDCI(content);
-    const ccc = this.parseCCC(content);
+    // Bracketed notes follow the PE: [Clarification Statement: ...] [Assessment Boundary: ...]
+    const peSection = this.sliceStandardSection(content, standardCode);
+    const clarification_statement = this.parseBracketedNote(peSection, 'Clarification Statement');
+    const assessment_boundary = this.parseBracketedNote(peSection, 'Assessment Boundary');
+
+    // Parse 3D components (every element tagged with this code; primary first)
+    const seps = this.parseSEPs(content, standardCode);
+    const dcis = this.parseDCIs(content, standardCode);
+    const cccs = this.parseCCCs(content, standardCode);
+    const connections = this.parseConnections(content, standardCode);
 
     // Extract topic (from page header)
     // Fixed regex to capture full topic name including capital letters
-    const topicMatch = content.match(/^MS\.([A-Z][A-Za-z\s&-]+)/m);
+    const topicMatch = content.match(/^(?:K|[1-5]|MS|HS)\.([A-Z][A-Za-z\s&-]+)/m);
     const topic = (topicMatch && topicMatch[1]) ? topicMatch[1].trim() : '';
 
     // Extract keywords
@@ -79,85 +96,198 @@ export class StructuredExtractor {
 
     return {
       code: standardCode,
-      grade_level: gradeLevel || 'MS',
+      grade_level: gradeLevel,
       domain,
       topic,
       performance_expectation,
-      sep,
-      dci,
-      ccc,
+      ...(clarification_statement && { clarification_statement }),
+      ...(assessment_boundary && { assessment_boundary }),
+      sep: seps[0]!,
+      dci: dcis[0]!,
+      ccc: cccs[0]!,
+      seps,
+      dcis,
+      cccs,
+      connections,
       keywords,
       lesson_scope
     };
   }
 
-  private parseSEP(content: string): SEP {
+  /**
+   * Text belonging to one PE: from its code up to the next PE code or the 3D sections
+   */
+  private sliceStandardSection(content: string, standardCode: string): string {
+    const start = content.indexOf(standardCode);
+    if (start === -1) {
+      return '';
+    }
+
+    const rest = content.slice(start + standardCode.length);
+    const end = rest.search(/(?:K-2|3-5|K|[1-5]|MS|HS)-[A-Z]{2,3}\d+-\d+\.\s|Science and Engineering Practices/);
+    return end === -1 ? rest : rest.slice(0, end);
+  }
+
+  private parseBracketedNote(section: string, label: string): string | undefined {
+    const noteMatch = section.match(new RegExp(`\\[\\s*${label}:\\s*([^\\]]+)\\]`, 'i'));
+    if (!noteMatch || !noteMatch[1]) {
+      return undefined;
+    }
+
+    return noteMatch[1].trim().replace(/\s+/g, ' ');
+  }
+
+  private gradeLevelFromPrefix(prefix: string | undefined): GradeLevel {
+    // Kindergarten through grade 5 (including K-2 and 3-5 engineering bands) is elementary
+    if (prefix === 'HS') return 'HS';
+    if (prefix === undefined || prefix === 'MS') return 'MS';
+    return 'ES';
+  }
+
+  private parseSEPs(content: string, standardCode: string): SEP[] {
     const sepSection = content.match(
       /Science and Engineering Practices[\s\S]*?(?=Disciplinary Core Ideas|$)/i
     );
     if (!sepSection) {
-      return { code: 'SEP-1', name: 'Unknown', description: '' };
+      return [{ code: UNKNOWN_SEP_CODE, name: 'Unknown', description: '' }];
     }
 
     const text = sepSection[0];
-    const practiceMatch = text.match(/▪\s+([^(]+)\(/);
-    // Clean newlines and extra whitespace from name
-    const name = (practiceMatch && practiceMatch[1]) 
-      ? practiceMatch[1].trim().replace(/\s+/g, ' ') 
-      : 'Unknown Practice';
+    const description = text.slice(0, 200).trim().replace(/\s+/g, ' ');
+    const bullets = this.parseBulletNames(text, /▪\s+([^(]+)\(/, standardCode, SEP_CATEGORIES);
 
-    return {
-      code: 'SEP-1',
-      name,
-      description: text.slice(0, 200).trim().replace(/\s+/g, ' ')
-    };
+    if (bullets.length === 0) {
+      return [{ code: UNKNOWN_SEP_CODE, name: 'Unknown Practice', description }];
+    }
+
+    return bullets.map(({ name, category }) => ({ code: category?.code ?? UNKNOWN_SEP_CODE, name, description }));
   }
 
-  private parseDCI(content: string): DCI {
+  private parseDCIs(content: string, standardCode: string): DCI[] {
     const dciSection = content.match(
       /Disciplinary Core Ideas[\s\S]*?(?=Crosscutting Concepts|$)/i
     );
     if (!dciSection) {
-      return { code: 'PS1.A', name: 'Unknown', description: '' };
+      return [{ code: 'PS1.A', name: 'Unknown', description: '' }];
     }
 
     const text = dciSection[0];
-    const codeMatch = text.match(/([A-Z]{2,3}\d+\.[A-Z]):\s+([^\n]+)/);
+    const headers = [...text.matchAll(/([A-Z]{2,3}\d+\.[A-Z]):\s+([^\n]+)/g)];
 
-    if (codeMatch && codeMatch[1] && codeMatch[2]) {
+    if (headers.length === 0) {
+      return [{ code: 'PS1.A', name: 'Unknown', description: text.slice(0, 200).trim().replace(/\s+/g, ' ') }];
+    }
+
+    // Each DCI header is followed by bullets tagged with the PEs they support
+    const dcis = headers.map((header, i) => {
+      const body = text.slice(header.index!, headers[i + 1]?.index ?? text.length);
       return {
-        code: codeMatch[1],
-        name: codeMatch[2].trim(),
-        description: text.slice(0, 200).trim().replace(/\s+/g, ' ')
+        dci: {
+          code: header[1]!,
+          name: header[2]!.trim(),
+          description: body.slice(0, 200).trim().replace(/\s+/g, ' ')
+        },
+        tagged: body.includes(standardCode)
       };
-    }
+    });
 
-    return { code: 'PS1.A', name: 'Unknown', description: text.slice(0, 200).trim().replace(/\s+/g, ' ') };
+    const tagged = dcis.filter(d => d.tagged).map(d => d.dci);
+    return tagged.length > 0 ? tagged : [dcis[0]!.dci];
   }
 
-  private parseCCC(content: string): CCC {
+  private parseCCCs(content: string, standardCode: string): CCC[] {
     const cccSection = content.match(
       /Crosscutting Concepts[\s\S]*?(?=Connections|$)/i
     );
     if (!cccSection) {
-      return { code: 'CCC-1', name: 'Unknown', description: '' };
+      return [{ code: UNKNOWN_CCC_CODE, name: 'Unknown', description: '' }];
     }
 
     const text = cccSection[0];
+    const description = text.slice(0, 200).trim().replace(/\s+/g, ' ');
     // Capture across multiple lines until period or end of sentence
-    const conceptMatch = text.match(/▪\s+([\s\S]+?\.)/);
-    // Clean newlines and extra whitespace from name
-    const name = (conceptMatch && conceptMatch[1]) 
-      ? conceptMatch[1].trim().replace(/\s+/g, ' ') 
-      : 'Unknown Concept';
+    const bullets = this.parseBulletNames(text, /▪\s+([\s\S]+?\.)/, standardCode, CCC_CATEGORIES);
+
+    if (bullets.length === 0) {
+      return [{ code: UNKNOWN_CCC_CODE, name: 'Unknown Concept', description }];
+    }
+
+    return bullets.map(({ name, category }) => ({ code: category?.code ?? UNKNOWN_CCC_CODE, name, description }));
+  }
+
+  /**
+   * Parse the Connections boxes that follow the CCC section. Each reference is
+   * followed by the PE codes it applies to, e.g. "HS.PS1.A (MS-PS1-1),(MS-PS1-3)".
+   */
+  private parseConnections(content: string, standardCode: string): StandardConnections {
+    const otherDcis = content.match(
+      /Connections to other DCIs in this grade[- ]band[\s\S]*?(?=Articulation|Common Core|$)/i
+    );
+    const articulation = content.match(
+      /Articulation of DCIs across grade[- ]bands[\s\S]*?(?=Common Core|$)/i
+    );
+    const ccss = content.match(/Common Core State Standards Connections[\s\S]*$/i);
+    const [ela = '', math = ''] = ccss ? ccss[0].split(/Mathematics\s*[–-]/) : [];
 
     return {
-      code: 'CCC-1',
-      name,
-      description: text.slice(0, 200).trim().replace(/\s+/g, ' ')
+      other_dcis: this.parseTaggedReferences(otherDcis?.[0] ?? '', PATTERNS.DCI_REFERENCE, standardCode),
+      articulation: this.parseTaggedReferences(articulation?.[0] ?? '', PATTERNS.DCI_REFERENCE, standardCode),
+      ccss_ela: this.parseTaggedReferences(ela, PATTERNS.CCSS_ELA, standardCode),
+      ccss_math: this.parseTaggedReferences(math, PATTERNS.CCSS_MATH, standardCode)
     };
   }
 
+  /**
+   * Collect references whose trailing text (up to the next reference) carries the standard code
+   */
+  private parseTaggedReferences(text: string, pattern: RegExp, standardCode: string): string[] {
+    const matches = [...text.matchAll(pattern)];
+    const references: string[] = [];
+
+    matches.forEach((match, i) => {
+      const tags = text.slice(match.index! + match[0].length, matches[i + 1]?.index ?? text.length);
+      if (tags.includes(standardCode) && !references.includes(match[0])) {
+        references.push(match[0]);
+      }
+    });
+
+    return references;
+  }
+
+  /**
+   * Collect bullet names from a section, keeping those tagged with the standard code.
+   * Each bullet is placed in the category whose heading precedes it.
+   * Falls back to the first bullet when no bullet carries the code.
+   */
+  private parseBulletNames(
+    text: string,
+    pattern: RegExp,
+    standardCode: string,
+    categories: readonly TaxonomyCategory[]
+  ): Array<{ name: string; category: TaxonomyCategory | undefined }> {
+    const all: Array<{ name: string; category: TaxonomyCategory | undefined }> = [];
+    const tagged: typeof all = [];
+
+    const parts = text.split('▪');
+    let preceding = parts[0] ?? '';
+    for (const bullet of parts.slice(1)) {
+      const match = ('▪' + bullet).match(pattern);
+      const category = categoryInText(categories, preceding);
+      preceding += '▪' + bullet;
+      if (!match || !match[1]) {
+        continue;
+      }
+      // Clean newlines and extra whitespace from name
+      const name = match[1].trim().replace(/\s+/g, ' ');
+      all.push({ name, category });
+      if (bullet.includes(standardCode) && !tagged.some(t => t.name === name)) {
+        tagged.push({ name, category });
+      }
+    }
+
+    return tagged.length > 0 ? tagged : all.slice(0, 1);
+  }
+
   private extractKeywords(pe: string, topic: string): string[] {
     const stopWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by']);
     const words = (pe + ' ' + topic)
@@ -64,8 +64,8 @@ export class TopicExtractor {
       return true;
     }
 
-    // Header pattern: "MS.Topic"
-    const headerRegex = new RegExp(`MS\\.${pattern}`, 'i');
+    // Header pattern: "MS.Topic", "HS.Topic", "K.Topic", "3.Topic"
+    const headerRegex = new RegExp(`(?:K|[1-5]|MS|HS)\\.${pattern}`, 'i');
     if (headerRegex.test(content)) {
       return true;
     }
@@ -87,9 +87,9 @@ export class TopicExtractor {
     const topics = new Map<string, number[]>();
 
     for (const page of pages) {
-      // Look for topic headers like "MS.Chemical Reactions"
+      // Look for topic headers like "MS.Chemical Reactions" or "HS.Chemical Reactions"
       // Fixed regex to capture full topic name including capital letters
-      const headerMatch = page.content.match(/MS\.([A-Z][A-Za-z\s&-]+)/);
+      const headerMatch = page.content.match(/(?:K|[1-5]|MS|HS)\.([A-Z][A-Za-z\s&-]+)/);
 
       if (headerMatch && headerMatch[1]) {
         const topic = headerMatch[1].trim();
@@ -0,0 +1,150 @@
+/**
+ * Tool Input Validation Tests (through an MCP client)
+ */
+
+import { describe, test, expect, beforeAll } from 'bun:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import createServer from './index.js';
+
+let client: Client;
+
+beforeAll(async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(clientTransport);
+});
+
+async function callJson(name: string, args: Record<string, unknown>) {
+  const result = await client.callTool({ name, arguments: args });
+  const [content] = result.content as Array<{ type: string; text: string }>;
+  return JSON.parse(content!.text);
+}
+
+describe('Standard code validation', () => {
+  // Tool name -> arguments for one code
+  const tools: Record<string, (code: string) => Record<string, unknown>> = {
+    get_standard: code => ({ code }),
+    get_3d_components: code => ({ code }),
+    get_connections: code => ({ code }),
+    crosswalk: code => ({ code }),
+    get_lesson_scope: code => ({ codes: [code] }),
+    get_unit_suggestions: code => ({ anchor_code: code }),
+    build_unit: code => ({ anchor_codes: [code] }),
+    generate_scope_and_sequence: code => ({ unit_count: 1, codes: [code] }),
+    get_prerequisites: code => ({ code }),
+    order_standards: code => ({ codes: [code] }),
+    check_sequence: code => ({ sequence: [code] }),
+    analyze_coverage: code => ({ codes: [code] })
+  };
+
+  for (const [name, args] of Object.entries(tools)) {
+    test(`${name} should reject malformed codes as invalid params`, async () => {
+      for (const code of ['ms-ps1-1', 'foo.bar', 'MS-PS1']) {
+        const call = client.callTool({ name, arguments: args(code) });
+        await expect(call).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+        await expect(call).rejects.toThrow('Invalid standard code format');
+      }
+    });
+
+    test(`${name} should report a well-formed unknown code as not found`, async () => {
+      const result = await client.callTool({ name, arguments: args('MS-PS1-99') });
+      const [content] = result.content as Array<{ type: string; text: string }>;
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(content!.text).code).toBe('STANDARD_NOT_FOUND');
+    });
+  }
+});
+
+describe('build_unit code validation', () => {
+  test('should reject malformed required and excluded codes as invalid params', async () => {
+    for (const args of [{ include: ['MS-PS3'] }, { exclude: ['ms-ps3-5'] }]) {
+      const call = client.callTool({ name: 'build_unit', arguments: { anchor_codes: ['MS-PS3-1'], ...args } });
+      await expect(call).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+      await expect(call).rejects.toThrow('Invalid standard code format');
+    }
+  });
+});
+
+describe('generate_scope_and_sequence code validation', () => {
+  test('should reject a malformed placement code as invalid params', async () => {
+    const call = client.callTool({
+      name: 'generate_scope_and_sequence',
+      arguments: { unit_count: 2, codes: ['MS-PS3-1', 'MS-PS3-5'], placements: { 'ms-ps3-5': 2 } }
+    });
+    await expect(call).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(call).rejects.toThrow('Invalid standard code format');
+  });
+
+  test('should accept well-formed placement codes', async () => {
+    const result = await callJson('generate_scope_and_sequence', {
+      unit_count: 2, codes: ['MS-PS3-1', 'MS-PS3-5'], placements: { 'MS-PS3-5': 2 }
+    });
+
+    expect(result.units).toHaveLength(2);
+  });
+});
+
+describe('check_sequence code validation', () => {
+  test('should reject a malformed code inside a unit as invalid params', async () => {
+    const call = client.callTool({ name: 'check_sequence', arguments: { sequence: [['MS-PS1-1', 'ms-ps1-2'], 'MS-LS1-6'] } });
+    await expect(call).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(call).rejects.toThrow('Invalid standard code format');
+  });
+});
+
+describe('get_learning_progression code validation', () => {
+  test('should reject codes that are neither DCI nor standard codes as invalid params', async () => {
+    for (const code of ['foo.bar', 'MS-PS1', 'PS3']) {
+      const call = client.callTool({ name: 'get_learning_progression', arguments: { code } });
+      await expect(call).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+      await expect(call).rejects.toThrow('Invalid code format');
+    }
+  });
+
+  test('should accept DCI and standard codes in any case', async () => {
+    expect((await callJson('get_learning_progression', { code: 'ps3.b' })).progressions).toHaveLength(1);
+    expect((await callJson('get_learning_progression', { code: 'ms-ps3-5' })).current_grade_band).toBe('6-8');
+  });
+});
+
+describe('search_standards offset', () => {
+  const query = { query: 'energy', limit: 3 };
+
+  test('should return the same page as the cursor for that position', async () => {
+    const first = await callJson('search_standards', query);
+    const byCursor = await callJson('search_standards', { ...query, cursor: first.pagination.nextCursor });
+    const byOffset = await callJson('search_standards', { ...query, offset: 3 });
+
+    expect(byOffset.pagination.offset).toBe(3);
+    expect(byOffset.results.map((r: { code: string }) => r.code)).toEqual(byCursor.results.map((r: { code: string }) => r.code));
+    expect(byOffset.pagination.nextCursor).toBe(byCursor.pagination.nextCursor);
+  });
+
+  test('should be ignored when a cursor is given', async () => {
+    const first = await callJson('search_standards', query);
+    const page = await callJson('search_standards', { ...query, offset: 30, cursor: first.pagination.nextCursor });
+
+    expect(page.pagination.offset).toBe(3);
+  });
+
+  test('should be the only paginated tool still taking an offset', async () => {
+    const { tools } = await client.listTools();
+    const withOffset = tools.filter(tool => 'offset' in (tool.inputSchema.properties ?? {})).map(tool => tool.name);
+
+    expect(withOffset).toEqual(['search_standards']);
+  });
+});
+
+describe('get_connections', () => {
+  test('should say when the dataset has no Connections data for a standard', async () => {
+    const result = await callJson('get_connections', { code: 'MS-PS1-1' });
+
+    expect(result.connections_extracted).toBe(false);
+    expect(result.total_references).toBe(0);
+    expect(result.message).toContain('regenerate its dataset');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Unit Tests for Coverage Analysis
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { analyzeCoverage, smallestCover } from './coverage-analysis.js';
+import type { Standard } from '../types/ngss.js';
+
+function makeStandard(code: string, domain: string, sep: string, ccc: string, dci: string): Standard {
+  const element = (elementCode: string, name: string) => ({ code: elementCode, name, description: '' });
+  return {
+    code,
+    grade_level: 'MS',
+    domain,
+    topic: '',
+    performance_expectation: '',
+    sep: element(sep, ''),
+    dci: element('', dci),
+    ccc: element(ccc, ''),
+    seps: [element(sep, '')],
+    dcis: [element('', dci)],
+    cccs: [element(ccc, '')],
+    keywords: [],
+    lesson_scope: {
+      key_concepts: [],
+      prerequisite_knowledge: [],
+      common_misconceptions: [],
+      depth_boundaries: { include: [], exclude: [] }
+    }
+  };
+}
+
+// SEP-2 Developing and Using Models, SEP-4 Analyzing and Interpreting Data, SEP-6 Constructing Explanations
+// CCC-1 Patterns, CCC-2 Cause and Effect, CCC-3 Scale, Proportion, and Quantity
+const atoms = makeStandard('MS-PS1-1', 'Physical Science', 'SEP-2', 'CCC-3', 'Structure and Properties of Matter');
+const reactions = makeStandard('MS-PS1-2', 'Physical Science', 'SEP-4', 'CCC-1', 'Chemical Reactions');
+const energy = makeStandard('MS-PS3-1', 'Physical Science', 'SEP-4', 'CCC-3', 'Definitions of Energy');
+const cells = makeStandard('MS-LS1-1', 'Life Science', 'SEP-6', 'CCC-2', 'Structure and Function');
+const unplaced = makeStandard('MS-LS1-2', 'Life Science', 'SEP-0', 'CCC-0', 'Structure and Function');
+
+const scope = new Map([
+  ['Physical Science', [atoms, reactions, energy]],
+  ['Life Science', [cells, unplaced]]
+]);
+
+describe('analyzeCoverage', () => {
+  test('should report the percentage of each domain planned', () => {
+    const report = analyzeCoverage([atoms, cells], scope);
+
+    expect(report.standards).toEqual({ total: 5, planned: 2, percent_covered: 40 });
+    expect(report.domains).toEqual([
+      { domain: 'Physical Science', total: 3, planned: 1, percent_covered: 33.3, uncovered: ['MS-PS1-2', 'MS-PS3-1'] },
+      { domain: 'Life Science', total: 2, planned: 1, percent_covered: 50, uncovered: ['MS-LS1-2'] }
+    ]);
+  });
+
+  test('should list categories no standard in scope addresses as unavailable', () => {
+    const report = analyzeCoverage([atoms], scope);
+
+    expect(report.practices.covered).toEqual(['Developing and Using Models']);
+    expect(report.practices.uncovered).toEqual(['Analyzing and Interpreting Data', 'Constructing Explanations and Designing Solutions']);
+    expect(report.practices.unavailable).toContain('Planning and Carrying Out Investigations');
+    expect(report.practices.percent_covered).toBe(33.3);
+    expect(report.crosscutting_concepts.uncovered).toEqual(['Patterns', 'Cause and Effect']);
+    expect(report.core_ideas.unavailable).toContain('Adaptation');
+  });
+
+  test('should suggest the fewest standards closing every gap', () => {
+    const report = analyzeCoverage([atoms, energy], scope);
+
+    // MS-LS1-2 only repeats the core idea MS-LS1-1 closes
+    expect(report.suggestions.map(s => s.standard.code)).toEqual(['MS-LS1-1', 'MS-PS1-2']);
+    expect(report.suggestions[1]!.closes).toEqual({
+      practices: [],
+      crosscutting_concepts: ['Patterns'],
+      core_ideas: ['Chemical Reactions']
+    });
+    expect(report.minimal).toBe(true);
+  });
+
+  test('should report full coverage when everything in scope is planned', () => {
+    const report = analyzeCoverage([...scope.values()].flat(), scope);
+
+    expect(report.standards.percent_covered).toBe(100);
+    expect(report.domains.every(d => d.uncovered.length === 0)).toBe(true);
+    expect(report.core_ideas.uncovered).toEqual([]);
+    expect(report.suggestions).toEqual([]);
+  });
+});
+
+describe('smallestCover', () => {
+  test('should find a smaller cover than picking the largest candidate first', () => {
+    // Greedy takes the middle candidate first and then needs both others
+    const { picks, minimal } = smallestCover(['a', 'b', 'c', 'd', 'e', 'f'], [
+      new Set(['a', 'b', 'c']),
+      new Set(['b', 'c', 'd', 'e']),
+      new Set(['d', 'e', 'f'])
+    ]);
+
+    expect(picks.sort()).toEqual([0, 2]);
+    expect(minimal).toBe(true);
+  });
+
+  test('should pick nothing when there are no gaps', () => {
+    expect(smallestCover([], [new Set(['a'])])).toEqual({ picks: [], minimal: true });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Coverage Analysis
+ * What a planned set of standards leaves uncovered: the standards of each domain, the SEP and CCC
+ * categories and the DCI components. Categories and components that no standard in scope
+ * addresses are listed apart, since no plan can cover them.
+ *
+ * The suggestions are the fewest extra standards that cover every remaining SEP, CCC and DCI gap:
+ * a branch-and-bound search that starts from the greedy cover and branches on the gap with the
+ * fewest standards covering it.
+ */
+
+import type { Standard } from '../types/ngss.js';
+import { SEP_CATEGORIES, CCC_CATEGORIES, SEP_CATEGORY_NAMES, CCC_CATEGORY_NAMES, UNKNOWN_SEP_CODE, UNKNOWN_CCC_CODE, findCategory } from '../constants/taxonomy.js';
+import { DCI_VALUES } from '../constants/enum-values.js';
+import { unitKey } from './unit-planning.js';
+
+/**
+ * Search nodes after which the best cover found so far is returned
+ */
+const MAX_SEARCH_NODES = 100_000;
+
+export interface DimensionCoverage {
+  covered: string[];
+  uncovered: string[];            // Addressed by a standard in scope, but not by the plan
+  unavailable: string[];          // Not addressed by any standard in scope
+  percent_covered: number;        // Of covered and uncovered
+}
+
+export interface DomainCoverage {
+  domain: string;
+  total: number;
+  planned: number;
+  percent_covered: number;
+  uncovered: string[];            // Codes of the domain's standards not in the plan
+}
+
+export interface GapsClosed {
+  practices: string[];
+  crosscutting_concepts: string[];
+  core_ideas: string[];
+}
+
+export interface ClosingStandard {
+  standard: Standard;
+  closes: GapsClosed;             // Every gap the standard covers (a gap may be covered by more than one)
+}
+
+export interface CoverageReport {
+  standards: { total: number; planned: number; percent_covered: number };
+  domains: DomainCoverage[];
+  practices: DimensionCoverage;
+  crosscutting_concepts: DimensionCoverage;
+  core_ideas: DimensionCoverage;
+  suggestions: ClosingStandard[];
+  minimal: boolean;               // False when the search stopped early and a smaller set may exist
+}
+
+// SEP and CCC category names and DCI component names a standard addresses
+const practicesOf = (standard: Standard): string[] => standard.seps
+  .filter(sep => sep.code !== UNKNOWN_SEP_CODE)
+  .flatMap(sep => findCategory(SEP_CATEGORIES, sep.code)?.name ?? []);
+const conceptsOf = (standard: Standard): string[] => standard.cccs
+  .filter(ccc => ccc.code !== UNKNOWN_CCC_CODE)
+  .flatMap(ccc => findCategory(CCC_CATEGORIES, ccc.code)?.name ?? []);
+const coreIdeasOf = (standard: Standard): string[] => standard.dcis.map(dci => dci.name);
+
+const DIMENSIONS: Array<{ names: readonly string[]; of: (standard: Standard) => string[] }> = [
+  { names: SEP_CATEGORY_NAMES, of: practicesOf },
+  { names: CCC_CATEGORY_NAMES, of: conceptsOf },
+  { names: DCI_VALUES, of: coreIdeasOf }
+];
+
+// One key per gap, e.g. "core_ideas:Chemical Reactions"
+const gapKeys = (gaps: GapsClosed): Set<string> =>
+  new Set(Object.entries(gaps).flatMap(([dimension, names]: [string, string[]]) => names.map(name => `${dimension}:${name}`)));
+
+const percent = (part: number, whole: number): number => whole === 0 ? 100 : Math.round(part / whole * 1000) / 10;
+
+/**
+ * Coverage of the standards in scope (domain -> its standards) by the planned standards. Planned
+ * standards outside the scope still count for the SEP, CCC and DCI coverage.
+ */
+export function analyzeCoverage(planned: Standard[], scope: Map<string, Standard[]>): CoverageReport {
+  const plannedKeys = new Set(planned.map(unitKey));
+  const inScope = [...scope.values()].flat();
+
+  const domains = [...scope].map(([domain, standards]): DomainCoverage => {
+    const count = standards.filter(standard => plannedKeys.has(unitKey(standard))).length;
+    return {
+      domain,
+      total: standards.length,
+      planned: count,
+      percent_covered: percent(count, standards.length),
+      uncovered: standards.filter(standard => !plannedKeys.has(unitKey(standard))).map(standard => standard.code)
+    };
+  });
+  const plannedInScope = domains.reduce((sum, domain) => sum + domain.planned, 0);
+
+  // Each dimension: what the plan covers, what the scope could cover, what nothing covers
+  const [practices, crosscutting_concepts, core_ideas] = DIMENSIONS.map(({ names, of }): DimensionCoverage => {
+    const addressed = new Set(planned.flatMap(of));
+    const available = new Set(inScope.flatMap(of));
+    const covered = names.filter(name => addressed.has(name));
+    const uncovered = names.filter(name => !addressed.has(name) && available.has(name));
+    return {
+      covered,
+      uncovered,
+      unavailable: names.filter(name => !addressed.has(name) && !available.has(name)),
+      percent_covered: percent(covered.length, covered.length + uncovered.length)
+    };
+  }) as [DimensionCoverage, DimensionCoverage, DimensionCoverage];
+
+  // Unplanned standards in scope that would close at least one gap
+  const candidates = inScope
+    .filter(standard => !plannedKeys.has(unitKey(standard)))
+    .sort((a, b) => a.code.localeCompare(b.code))
+    .map(standard => {
+      const closes: GapsClosed = {
+        practices: practices.uncovered.filter(name => practicesOf(standard).includes(name)),
+        crosscutting_concepts: crosscutting_concepts.uncovered.filter(name => conceptsOf(standard).includes(name)),
+        core_ideas: core_ideas.uncovered.filter(name => coreIdeasOf(standard).includes(name))
+      };
+      return { standard, closes, gaps: gapKeys(closes) };
+    })
+    .filter(candidate => candidate.gaps.size > 0);
+
+  const open = gapKeys({
+    practices: practices.uncovered,
+    crosscutting_concepts: crosscutting_concepts.uncovered,
+    core_ideas: core_ideas.uncovered
+  });
+  const { picks, minimal } = smallestCover([...open], candidates.map(candidate => candidate.gaps));
+  // Standards closing the most gaps first
+  const suggestions = [...picks]
+    .sort((a, b) => candidates[b]!.gaps.size - candidates[a]!.gaps.size || a - b)
+    .map(i => ({ standard: candidates[i]!.standard, closes: candidates[i]!.closes }));
+
+  return {
+    standards: { total: inScope.length, planned: plannedInScope, percent_covered: percent(plannedInScope, inScope.length) },
+    domains,
+    practices,
+    crosscutting_concepts,
+    core_ideas,
+    suggestions,
+    minimal
+  };
+}
+
+/**
+ * Fewest candidates (each a set of gaps) that together cover every gap. Every gap must be in at
+ * least one candidate. minimal is false when the search stopped at MAX_SEARCH_NODES.
+ */
+export function smallestCover(gaps: string[], candidates: Array<ReadonlySet<string>>): { picks: number[]; minimal: boolean } {
+  const coveredBy = new Map(gaps.map(gap => [gap, candidates.flatMap((c, i) => c.has(gap) ? [i] : [])]));
+  const gain = (i: number, open: ReadonlySet<string>) => [...candidates[i]!].filter(gap => open.has(gap)).length;
+
+  // Greedy cover: each pick closes the most open gaps (first candidate on ties)
+  let best: number[] = [];
+  const open = new Set(gaps);
+  while (open.size > 0) {
+    const pick = candidates.reduce((top, _, i) => gain(i, open) > gain(top, open) ? i : top, 0);
+    best.push(pick);
+    candidates[pick]!.forEach(gap => open.delete(gap));
+  }
+
+  // Lower bound: gaps that share no candidate each need a pick of their own
+  const lowerBound = (remaining: ReadonlySet<string>): number => {
+    const used = new Set<number>();
+    let count = 0;
+    for (const gap of [...remaining].sort((a, b) => coveredBy.get(a)!.length - coveredBy.get(b)!.length)) {
+      const options = coveredBy.get(gap)!;
+      if (options.every(i => !used.has(i))) {
+        options.forEach(i => used.add(i));
+        count++;
+      }
+    }
+    return count;
+  };
+
+  // Branch and bound below the greedy size
+  let nodes = 0;
+  const search = (picks: number[], remaining: ReadonlySet<string>): void => {
+    if (remaining.size === 0) {
+      if (picks.length < best.length) {
+        best = picks;
+      }
+      return;
+    }
+    if (++nodes > MAX_SEARCH_NODES || picks.length + lowerBound(remaining) >= best.length) {
+      return;
+    }
+    const gap = [...remaining].reduce((a, b) => coveredBy.get(b)!.length < coveredBy.get(a)!.length ? b : a);
+    const options = [...coveredBy.get(gap)!].sort((a, b) => gain(b, remaining) - gain(a, remaining) || a - b);
+    for (const i of options) {
+      search([...picks, i], new Set([...remaining].filter(g => !candidates[i]!.has(g))));
+    }
+  };
+  search([], new Set(gaps));
+
+  return { picks: best, minimal: nodes <= MAX_SEARCH_NODES };
+}
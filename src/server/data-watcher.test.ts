@@ -0,0 +1,77 @@
+/**
+ * Unit Tests for Data File Watcher
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { watchDataFiles } from './data-watcher.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('watchDataFiles', () => {
+  let dir: string;
+  let first: string;
+  let second: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ngss-watch-'));
+    first = join(dir, 'first.json');
+    second = join(dir, 'second.json');
+    writeFileSync(first, '{"standards":[]}');
+    writeFileSync(second, '{"standards":[]}');
+  });
+
+  test('should report a changed file', async () => {
+    const calls: string[][] = [];
+    const stop = watchDataFiles([first, second], changed => calls.push(changed), { intervalMs: 20, debounceMs: 20 });
+
+    await sleep(50);
+    writeFileSync(second, '{"standards":[{"code":"MS-PS1-1"}]}');
+    await sleep(200);
+    stop();
+
+    expect(calls).toEqual([[second]]);
+  });
+
+  test('should collapse a burst of writes into one change', async () => {
+    const calls: string[][] = [];
+    const stop = watchDataFiles([first, second], changed => calls.push(changed), { intervalMs: 20, debounceMs: 100 });
+
+    await sleep(50);
+    writeFileSync(first, '{"standards":[1]}');
+    writeFileSync(second, '{"standards":[2]}');
+    await sleep(40);
+    writeFileSync(first, '{"standards":[1,2]}');
+    await sleep(300);
+    stop();
+
+    expect(calls.length).toBe(1);
+    expect([...calls[0]!].sort()).toEqual([first, second].sort());
+  });
+
+  test('should report a file created after watching started', async () => {
+    const added = join(dir, 'added.json');
+    const calls: string[][] = [];
+    const stop = watchDataFiles([first, added], changed => calls.push(changed), { intervalMs: 20, debounceMs: 20 });
+
+    await sleep(50);
+    writeFileSync(added, '{"standards":[]}');
+    await sleep(200);
+    stop();
+
+    expect(calls).toEqual([[added]]);
+  });
+
+  test('should stop reporting once stopped', async () => {
+    const calls: string[][] = [];
+    const stop = watchDataFiles([first], changed => calls.push(changed), { intervalMs: 20, debounceMs: 20 });
+
+    stop();
+    writeFileSync(first, '{"standards":[3]}');
+    await sleep(150);
+
+    expect(calls).toEqual([]);
+  });
+});
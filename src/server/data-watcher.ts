@@ -0,0 +1,58 @@
+/**
+ * Data File Watcher
+ * Polls the loaded data files and reports when any of them changes on disk
+ */
+
+import { unwatchFile, watchFile, type Stats } from 'fs';
+
+export interface WatchOptions {
+  intervalMs?: number;   // How often each file is stat'ed
+  debounceMs?: number;   // Quiet period so a burst of writes triggers one change
+}
+
+/**
+ * Watch files for modification and call onChange once per burst of changes.
+ * Stat polling survives editors that save by replacing the file, and reports a file that did not
+ * exist yet once it is created. Returns a function that stops watching.
+ */
+export function watchDataFiles(
+  paths: string[],
+  onChange: (changed: string[]) => void,
+  options: WatchOptions = {}
+): () => void {
+  const { intervalMs = 1000, debounceMs = 250 } = options;
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    timer = null;
+    const files = [...changed];
+    changed.clear();
+    onChange(files);
+  };
+
+  const listeners = paths.map(path => {
+    const listener = (current: Stats, previous: Stats) => {
+      if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) {
+        return;
+      }
+      changed.add(path);
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(flush, debounceMs);
+      timer.unref();
+    };
+    // Non-persistent: watching alone never keeps the process alive
+    watchFile(path, { persistent: false, interval: intervalMs }, listener);
+    return { path, listener };
+  });
+
+  return () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    listeners.forEach(({ path, listener }) => unwatchFile(path, listener));
+  };
+}
@@ -1,18 +1,76 @@
 /**
  * NGSS Standards Database with Multi-Index Support
- * Loads JSON database and builds indexes for fast lookups
+ * Loads one JSON database per grade band and builds indexes for fast lookups
  */
 
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { basename, delimiter, join } from 'path';
 import { performance } from 'perf_hooks';
-import type { Standard } from '../types/ngss.js';
+import {
+  GRADE_LEVEL_DATASETS,
+  LESSON_SCOPE_FILE,
+  LessonScopeFileSchema,
+  PATTERNS,
+  PREREQUISITE_FILE,
+  PrerequisiteFileSchema,
+  SemanticVectorFileSchema,
+  StateOverlaySchema,
+  type LessonScope,
+  type SemanticVectorFile,
+  type Standard,
+  type SEP,
+  type DCI,
+  type CCC,
+  type StateOverlay
+} from '../types/ngss.js';
 import { QueryCache, generateCacheKey, type CacheMetrics } from './query-cache.js';
 import { QueryValidator } from './query-validation.js';
+import { watchDataFiles } from './data-watcher.js';
+import {
+  SearchIndex, Vocabulary, splitWords, stem, tokenize, lessonScopeText, EXPANSION_WEIGHT, SEARCH_FIELDS, DEFAULT_FIELD_WEIGHTS,
+  type FieldWeights, type SearchField, type VocabularyEntries
+} from './search-index.js';
+import { SemanticIndex, buildSemanticVectors, semanticChecksum, semanticVectorPath } from './semantic-index.js';
+import { alignStandard, profileLesson, type DimensionMatch, type LessonAlignment } from './lesson-alignment.js';
+import { PrerequisiteGraph } from './prerequisite-graph.js';
+import { matchesCodePattern, isHyphenated, type QueryNode, type TermNode } from './query-parser.js';
+import { SEARCH_VOCABULARY } from '../constants/search-vocabulary.js';
+import { PHENOMENON_VOCABULARY } from '../constants/phenomenon-vocabulary.js';
+import { SEP_CATEGORIES, CCC_CATEGORIES, findCategory } from '../constants/taxonomy.js';
+
+interface DatasetInfo {
+  file: string;
+  source: string;
+  generated_at: string;
+  standards: number;
+}
+
+interface OverlayInfo {
+  file: string;
+  jurisdiction: string;
+  framework: string;
+  standards: number;
+}
+
+interface LessonScopeInfo {
+  file: string;
+  source: string;
+  standards: number;
+}
+
+interface PrerequisiteInfo {
+  file: string;
+  source: string;
+  edges: number;
+}
 
 interface DatabaseMetadata {
   generated_at: string;
   source: string;
+  datasets: DatasetInfo[];
+  overlays: OverlayInfo[];
+  lesson_scopes: LessonScopeInfo | null;
+  prerequisites: PrerequisiteInfo | null;
 }
 
 interface DatabaseContent {
@@ -21,6 +79,84 @@ interface DatabaseContent {
   standards: Standard[];
 }
 
+interface LinkedReference {
+  reference: string;
+  standards: Standard[];
+}
+
+interface ResolvedConnections {
+  extracted: boolean;             // False when the record has no Connections data (dataset not regenerated)
+  other_dcis: LinkedReference[];
+  articulation: LinkedReference[];
+  ccss_ela: LinkedReference[];
+  ccss_math: LinkedReference[];
+}
+
+interface FieldDifference {
+  field: 'performance_expectation' | 'clarification_statement' | 'assessment_boundary';
+  ngss: string | null;
+  state: string | null;
+}
+
+interface CrosswalkEntry {
+  code: string;
+  jurisdiction: string;
+  framework: string;
+  grade: string | null;
+  notes: string | null;
+  differences: FieldDifference[];
+}
+
+interface StandardFilters {
+  domain?: string | undefined;
+  topic?: string | undefined;
+  practice?: string | undefined;     // SEP practice name or code (SEP-2), or element statement
+  concept?: string | undefined;      // CCC concept name or code (CCC-4), or element statement
+  dci?: string | undefined;          // DCI name or code (LS2.A)
+  gradeLevel?: string | undefined;
+  text?: string | undefined;         // search_standards query syntax
+}
+
+interface FacetValue {
+  value: string;
+  code?: string | undefined;         // SEP/CCC category code or DCI code
+  count: number;
+}
+
+interface StandardFacets {
+  domain: FacetValue[];
+  grade_level: FacetValue[];
+  topic: FacetValue[];
+  sep: FacetValue[];
+  ccc: FacetValue[];
+  dci: FacetValue[];
+}
+
+/**
+ * searchStandards options: filters, pagination and field scope
+ */
+interface SearchOptions {
+  domain?: string;
+  gradeLevel?: string;
+  offset?: number;
+  limit?: number;
+  fields?: SearchField[];
+  weights?: Partial<FieldWeights>;
+}
+
+/**
+ * Fields a query searches and their weights (search_standards `fields` and `weights` options)
+ */
+interface SearchScope {
+  fields: readonly SearchField[];
+  weights: FieldWeights;
+}
+
+const DEFAULT_SEARCH_SCOPE: SearchScope = { fields: SEARCH_FIELDS, weights: DEFAULT_FIELD_WEIGHTS };
+
+// Fields that carry a standard's content (align_lesson matches practices and concepts separately)
+const CONTENT_FIELDS: readonly SearchField[] = ['performance_expectation', 'notes', 'topic', 'keywords', 'dci'];
+
 interface QueryMetrics {
   totalQueries: number;
   averageTime: number;
@@ -31,36 +167,94 @@ interface QueryMetrics {
 export class NGSSDatabase {
   private metadata: DatabaseMetadata;
   private standards: Standard[];
+  private sourceFiles: string[];                 // Every file read: datasets, vectors, overlays, lesson scopes, prerequisites
+  private datasetStandards: Map<string, Standard[]>;   // Dataset path -> its standards
 
   // Indexes for O(1) or O(log n) lookups
   private codeIndex: Map<string, Standard>;
   private domainIndex: Map<string, Standard[]>;
-  private fullTextIndex: Map<string, Set<string>>;
+  private gradeIndex: Map<string, Standard[]>;
+  private fullTextIndex: SearchIndex;
+  private vocabulary: Vocabulary;                // Query phrase -> related NGSS wording
+  private phenomena: Vocabulary;                 // Everyday wording -> related NGSS wording (similarity only)
+  private semanticIndexes: SemanticIndex[] | null;   // One per dataset, loaded on first use
+  private ccssIndex: Map<string, Standard[]>;
+  private stateIndex: Map<string, Standard[]>;   // NGSS code -> state views
+  private topicIndex: Map<string, Standard[]>;   // Lowercased topic -> standards
+  private practiceIndex: Map<string, Standard[]>;   // Lowercased SEP category code/name and element statement -> standards
+  private conceptIndex: Map<string, Standard[]>;    // Same for CCC
+  private dciIndex: Map<string, Standard[]>;     // Lowercased DCI name and code -> standards
+  private curatedScopes: Set<string>;            // NGSS codes with curated lesson scopes
+  private prerequisiteGraph: PrerequisiteGraph;  // Empty until a prerequisite file is loaded
 
   // Query caching and performance tracking
-  private searchCache: QueryCache<Array<{ standard: Standard; score: number }>>;
+  private searchCache: QueryCache<{ results: Array<{ standard: Standard; score: number }>; total: number }>;
   private queryMetrics: {
     count: number;
     totalTime: number;
     byMethod: Map<string, { count: number; totalTime: number; maxTime: number }>;
   };
 
-  constructor(dbPath?: string, enableCache: boolean = true) {
-    // Use process.cwd() for bundle compatibility (works in both dev and Smithery deployments)
-    const resolvedPath = dbPath || join(process.cwd(), 'data/ngss-ms-standards.json');
-    const content = readFileSync(resolvedPath, 'utf-8');
-    const data: DatabaseContent = JSON.parse(content);
+  constructor(dbPath?: string | string[], enableCache: boolean = true) {
+    const paths = dbPath === undefined
+      ? NGSSDatabase.resolveDefaultDatasets()
+      : Array.isArray(dbPath) ? dbPath : [dbPath];
+
+    const datasets: DatasetInfo[] = [];
+    this.standards = [];
+    this.sourceFiles = [...paths];
+    this.datasetStandards = new Map();
+
+    const seenCodes = new Map<string, string>();
+    for (const path of paths) {
+      const content = readFileSync(path, 'utf-8');
+      const data: DatabaseContent = JSON.parse(content);
+      const file = basename(path);
+
+      for (const standard of data.standards) {
+        const previous = seenCodes.get(standard.code);
+        if (previous) {
+          throw new Error(`Duplicate standard code ${standard.code} in ${file} (already loaded from ${previous})`);
+        }
+        seenCodes.set(standard.code, file);
+        this.standards.push(standard);
+      }
+      this.datasetStandards.set(path, data.standards);
+
+      datasets.push({
+        file,
+        source: data.source,
+        generated_at: data.generated_at,
+        standards: data.standards.length
+      });
+    }
+    this.sourceFiles.push(...paths.map(semanticVectorPath).filter(path => existsSync(path)));
 
     this.metadata = {
-      generated_at: data.generated_at,
-      source: data.source
+      generated_at: datasets.map(d => d.generated_at).sort().at(-1) ?? '',
+      source: datasets.map(d => d.source).join('; '),
+      datasets,
+      overlays: [],
+      lesson_scopes: null,
+      prerequisites: null
     };
-    this.standards = data.standards;
 
     // Initialize indexes
     this.codeIndex = new Map();
     this.domainIndex = new Map();
-    this.fullTextIndex = new Map();
+    this.gradeIndex = new Map();
+    this.fullTextIndex = new SearchIndex();
+    this.vocabulary = new Vocabulary(SEARCH_VOCABULARY);
+    this.phenomena = new Vocabulary(PHENOMENON_VOCABULARY);
+    this.semanticIndexes = null;
+    this.ccssIndex = new Map();
+    this.stateIndex = new Map();
+    this.topicIndex = new Map();
+    this.practiceIndex = new Map();
+    this.conceptIndex = new Map();
+    this.dciIndex = new Map();
+    this.curatedScopes = new Set();
+    this.prerequisiteGraph = new PrerequisiteGraph();
 
     // Initialize cache and metrics
     this.searchCache = new QueryCache(100, 5 * 60 * 1000); // 100 entries, 5 min TTL
@@ -71,6 +265,31 @@ export class NGSSDatabase {
     };
 
     this.buildIndexes();
+
+    // Curated lesson scopes ship alongside the default datasets
+    const lessonScopePath = join(process.cwd(), LESSON_SCOPE_FILE);
+    if (dbPath === undefined && existsSync(lessonScopePath)) {
+      this.loadLessonScopes(lessonScopePath);
+    }
+    const prerequisitePath = join(process.cwd(), PREREQUISITE_FILE);
+    if (dbPath === undefined && existsSync(prerequisitePath)) {
+      this.loadPrerequisites(prerequisitePath);
+    }
+  }
+
+  /**
+   * Find the grade-band datasets present in the data directory
+   */
+  private static resolveDefaultDatasets(): string[] {
+    // Use process.cwd() for bundle compatibility (works in both dev and Smithery deployments)
+    const candidates = Object.values(GRADE_LEVEL_DATASETS).map(file => join(process.cwd(), file));
+    const present = candidates.filter(path => existsSync(path));
+
+    if (present.length === 0) {
+      throw new Error(`No NGSS datasets found. Expected at least one of: ${Object.values(GRADE_LEVEL_DATASETS).join(', ')}`);
+    }
+
+    return present;
   }
 
   /**
@@ -104,36 +323,84 @@ export class NGSSDatabase {
       }
       this.domainIndex.get(domainKey)!.push(standard);
 
-      // 3. Full-text index (PE + keywords + topic)
-      const fullText = [
-        standard.performance_expectation,
-        standard.topic,
-        ...(standard.keywords || [])
-      ].join(' ');
-
-      const textKeywords = this.extractKeywords(fullText);
-      textKeywords.forEach(keyword => {
-        if (!this.fullTextIndex.has(keyword)) {
-          this.fullTextIndex.set(keyword, new Set());
+      // 3. Grade index - group by grade band (ES, MS, HS)
+      if (!this.gradeIndex.has(standard.grade_level)) {
+        this.gradeIndex.set(standard.grade_level, []);
+      }
+      this.gradeIndex.get(standard.grade_level)!.push(standard);
+
+      // 4. Full-text index (BM25F fields: PE, clarification/boundary notes, topic, keywords,
+      //    3D names and descriptions, lesson scope)
+      this.indexFullText(standard.code, 'performance_expectation', standard.performance_expectation);
+      this.indexFullText(standard.code, 'notes', [
+        standard.clarification_statement ?? '',
+        standard.assessment_boundary ?? ''
+      ].join(' '));
+      this.indexFullText(standard.code, 'topic', standard.topic);
+      this.indexFullText(standard.code, 'keywords', (standard.keywords || []).join(' '));
+      this.indexFullText(standard.code, 'sep', standard.seps.map(e => e.name).join(' '));
+      this.indexFullText(standard.code, 'dci', standard.dcis.map(e => e.name).join(' '));
+      this.indexFullText(standard.code, 'ccc', standard.cccs.map(e => e.name).join(' '));
+      this.indexFullText(standard.code, 'sep_description', standard.seps.map(e => e.description).join(' '));
+      this.indexFullText(standard.code, 'dci_description', standard.dcis.map(e => e.description).join(' '));
+      this.indexFullText(standard.code, 'ccc_description', standard.cccs.map(e => e.description).join(' '));
+      this.indexFullText(standard.code, 'lesson_scope', lessonScopeText(standard.lesson_scope));
+
+      // 5. CCSS index - standards citing each Common Core ELA/Math code
+      const ccssCodes = [...(standard.connections?.ccss_ela || []), ...(standard.connections?.ccss_math || [])];
+      new Set(ccssCodes).forEach(ccssCode => {
+        if (!this.ccssIndex.has(ccssCode)) {
+          this.ccssIndex.set(ccssCode, []);
         }
-        this.fullTextIndex.get(keyword)!.add(standard.code);
+        this.ccssIndex.get(ccssCode)!.push(standard);
       });
+
+      // 6-9. Facet indexes for filterStandards (keys lowercased; a standard is listed once per key)
+      this.addToIndex(this.topicIndex, [standard.topic], standard);
+      this.addToIndex(this.practiceIndex, standard.seps.flatMap(sep => [
+        sep.code,
+        sep.name,
+        findCategory(SEP_CATEGORIES, sep.code)?.name ?? sep.code
+      ]), standard);
+      this.addToIndex(this.conceptIndex, standard.cccs.flatMap(ccc => [
+        ccc.code,
+        ccc.name,
+        findCategory(CCC_CATEGORIES, ccc.code)?.name ?? ccc.code
+      ]), standard);
+      this.addToIndex(this.dciIndex, standard.dcis.flatMap(dci => [dci.code, dci.name]), standard);
     }
 
-    console.error(`Indexes built: ${this.codeIndex.size} codes, ${this.domainIndex.size} domains`);
+    console.error(`Indexes built: ${this.codeIndex.size} codes, ${this.domainIndex.size} domains, ${this.gradeIndex.size} grade levels`);
+  }
+
+  private addToIndex(index: Map<string, Standard[]>, keys: string[], standard: Standard): void {
+    new Set(keys.map(key => key.toLowerCase())).forEach(key => {
+      if (!index.has(key)) {
+        index.set(key, []);
+      }
+      index.get(key)!.push(standard);
+    });
   }
 
-  private extractKeywords(text: string): string[] {
-    const stopWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'what', 'how', 'why', 'when', 'where', 'who']);
+  private indexFullText(code: string, field: SearchField, text: string): void {
+    this.fullTextIndex.addText(code, field, text);
+  }
 
-    return text
-      .toLowerCase()
-      .split(/\W+/)
-      .filter(word => word.length > 2 && !stopWords.has(word));
+  /**
+   * Replace query terms the index has never seen with their closest indexed term
+   * ("photosinthesis" -> "photosynthesis"). Vocabulary phrases are left alone; they expand instead.
+   */
+  private correctTerms(terms: string[]): string[] {
+    return terms.map(term =>
+      this.fullTextIndex.has(term) || this.vocabulary.knows(term)
+        ? term
+        : this.fullTextIndex.similarTerms(term)[0] ?? term
+    );
   }
 
   private normalizeDomain(domain: string): string {
     const normalized = domain.toLowerCase();
+    if (normalized.includes('engineering')) return 'engineering-technology';
     if (normalized.includes('physical')) return 'physical-science';
     if (normalized.includes('life')) return 'life-science';
     if (normalized.includes('earth') || normalized.includes('space')) return 'earth-space-science';
@@ -143,24 +410,254 @@ export class NGSSDatabase {
   // Public API methods
 
   getMetadata() {
-    return { ...this.metadata };
+    return { ...this.metadata, datasets: [...this.metadata.datasets], overlays: [...this.metadata.overlays] };
+  }
+
+  /**
+   * Paths of every data file this database was built from
+   */
+  getSourceFiles(): string[] {
+    return [...this.sourceFiles];
+  }
+
+  /**
+   * Add search vocabulary entries (query phrase -> related NGSS wording) on top of the
+   * curated SEARCH_VOCABULARY
+   */
+  addVocabulary(entries: VocabularyEntries): void {
+    this.vocabulary.add(entries);
+    this.searchCache.clear();
+  }
+
+  /**
+   * Load curated lesson scopes, replacing the generated lesson_scope of each listed standard
+   * (and of any state views of it)
+   */
+  loadLessonScopes(path: string): void {
+    const file = basename(path);
+    const parsed = LessonScopeFileSchema.safeParse(JSON.parse(readFileSync(path, 'utf-8')));
+    if (!parsed.success) {
+      throw new Error(`Invalid lesson scope file ${file}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+    }
+
+    const seen = new Set<string>();
+    for (const { code, ...scope } of parsed.data.lesson_scopes) {
+      const standard = this.codeIndex.get(code);
+      if (!standard || standard.state_alignment) {
+        throw new Error(`Unknown NGSS code ${code} in ${file}`);
+      }
+      if (seen.has(code)) {
+        throw new Error(`Duplicate lesson scope for ${code} in ${file}`);
+      }
+      seen.add(code);
+
+      const lessonScope: LessonScope = scope;
+      standard.lesson_scope = lessonScope;
+      for (const view of this.stateIndex.get(code) ?? []) {
+        view.lesson_scope = lessonScope;
+      }
+      this.curatedScopes.add(code);
+
+      this.fullTextIndex.removeField(code, 'lesson_scope');
+      this.indexFullText(code, 'lesson_scope', lessonScopeText(lessonScope));
+    }
+    this.semanticIndexes = null;   // Lesson scopes are part of the embedded text
+
+    this.sourceFiles.push(path);
+    this.metadata.lesson_scopes = {
+      file,
+      source: parsed.data.source,
+      standards: seen.size
+    };
+    this.searchCache.clear();
+  }
+
+  /**
+   * Load the curated prerequisite graph, replacing any loaded before. Every code must be a
+   * loaded NGSS standard and the edges must not form a cycle.
+   */
+  loadPrerequisites(path: string): void {
+    const file = basename(path);
+    const parsed = PrerequisiteFileSchema.safeParse(JSON.parse(readFileSync(path, 'utf-8')));
+    if (!parsed.success) {
+      throw new Error(`Invalid prerequisite file ${file}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+    }
+
+    for (const edge of parsed.data.prerequisites) {
+      for (const code of [edge.prerequisite, edge.standard]) {
+        const standard = this.codeIndex.get(code);
+        if (!standard || standard.state_alignment) {
+          throw new Error(`Unknown NGSS code ${code} in ${file}`);
+        }
+      }
+    }
+
+    try {
+      this.prerequisiteGraph = new PrerequisiteGraph(parsed.data.prerequisites);
+    } catch (error) {
+      throw new Error(`${error instanceof Error ? error.message : error} in ${file}`);
+    }
+
+    this.sourceFiles.push(path);
+    this.metadata.prerequisites = {
+      file,
+      source: parsed.data.source,
+      edges: this.prerequisiteGraph.size
+    };
+  }
+
+  getPrerequisiteGraph(): PrerequisiteGraph {
+    return this.prerequisiteGraph;
+  }
+
+  /**
+   * Lesson scope of a standard (NGSS or state code); curated is false when only the generated scope exists
+   */
+  getLessonScope(code: string): { standard: Standard; lesson_scope: LessonScope; curated: boolean } | null {
+    const standard = this.getStandardByCode(code);
+    if (!standard) {
+      return null;
+    }
+
+    return {
+      standard,
+      lesson_scope: standard.lesson_scope,
+      curated: this.curatedScopes.has(standard.state_alignment?.ngss_code ?? standard.code)
+    };
+  }
+
+  /**
+   * Load a state overlay: each entry becomes a state view of its NGSS standard, registered in the
+   * code index under the state code and in the full-text index under the NGSS code.
+   */
+  loadOverlay(path: string): void {
+    const file = basename(path);
+    const parsed = StateOverlaySchema.safeParse(JSON.parse(readFileSync(path, 'utf-8')));
+    if (!parsed.success) {
+      throw new Error(`Invalid state overlay ${file}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+    }
+    const overlay: StateOverlay = parsed.data;
+
+    for (const entry of overlay.standards) {
+      const base = this.codeIndex.get(entry.ngss_code);
+      if (!base || base.state_alignment) {
+        throw new Error(`Unknown NGSS code ${entry.ngss_code} in ${file}`);
+      }
+      if (entry.code !== entry.ngss_code && this.codeIndex.has(entry.code)) {
+        throw new Error(`Duplicate state code ${entry.code} in ${file}`);
+      }
+
+      const view: Standard = {
+        ...base,
+        code: entry.code,
+        performance_expectation: entry.performance_expectation ?? base.performance_expectation,
+        clarification_statement: entry.clarification_statement ?? base.clarification_statement,
+        assessment_boundary: entry.assessment_boundary ?? base.assessment_boundary,
+        state_alignment: {
+          jurisdiction: overlay.jurisdiction,
+          framework: overlay.framework,
+          ngss_code: base.code,
+          ...(entry.grade && { grade: entry.grade }),
+          ...(entry.notes && { notes: entry.notes })
+        }
+      };
+
+      // State codes equal to the NGSS code stay reachable through crosswalks only
+      if (entry.code !== entry.ngss_code) {
+        this.codeIndex.set(entry.code, view);
+      }
+      if (!this.stateIndex.has(base.code)) {
+        this.stateIndex.set(base.code, []);
+      }
+      this.stateIndex.get(base.code)!.push(view);
+
+      // Modified wording makes the base standard findable by the state's terms
+      this.indexFullText(base.code, 'notes', [
+        entry.performance_expectation ?? '',
+        entry.clarification_statement ?? '',
+        entry.assessment_boundary ?? ''
+      ].join(' '));
+    }
+
+    this.sourceFiles.push(path);
+    this.metadata.overlays.push({
+      file,
+      jurisdiction: overlay.jurisdiction,
+      framework: overlay.framework,
+      standards: overlay.standards.length
+    });
+    this.searchCache.clear();
+    console.error(`Loaded ${overlay.framework} overlay: ${overlay.standards.length} state codes`);
+  }
+
+  /**
+   * Compare an NGSS standard with every state version of it (either code system may be given)
+   */
+  getCrosswalk(code: string, jurisdiction?: string): { standard: Standard; states: CrosswalkEntry[] } | null {
+    const found = this.getStandardByCode(code);
+    if (!found) {
+      return null;
+    }
+
+    const standard = this.codeIndex.get(found.state_alignment?.ngss_code ?? found.code)!;
+    const views = (this.stateIndex.get(standard.code) || []).filter(view =>
+      !jurisdiction || view.state_alignment!.jurisdiction.toUpperCase() === jurisdiction.trim().toUpperCase()
+    );
+
+    const fields: FieldDifference['field'][] = ['performance_expectation', 'clarification_statement', 'assessment_boundary'];
+    const states = views.map(view => ({
+      code: view.code,
+      jurisdiction: view.state_alignment!.jurisdiction,
+      framework: view.state_alignment!.framework,
+      grade: view.state_alignment!.grade ?? null,
+      notes: view.state_alignment!.notes ?? null,
+      differences: fields
+        .filter(field => (view[field] ?? null) !== (standard[field] ?? null))
+        .map(field => ({ field, ngss: standard[field] ?? null, state: view[field] ?? null }))
+    }));
+
+    return { standard, states };
   }
 
   getAllStandards(): Standard[] {
     return [...this.standards];
   }
 
+  getStandardsByGradeLevel(gradeLevel: string): Standard[] {
+    // Validate grade level parameter
+    const validation = QueryValidator.validateGradeLevel(gradeLevel);
+    if (!validation.isValid) {
+      throw new Error(validation.error);
+    }
+
+    return [...(this.gradeIndex.get(validation.sanitized!) || [])];
+  }
+
   getStandardByCode(code: string): Standard | null {
     // Validate standard code format
     const validation = QueryValidator.validateStandardCode(code);
     if (!validation.isValid) {
+      // State codes from a loaded overlay resolve through the same code index
+      const stateValidation = QueryValidator.validateStateCode(code);
+      const stateView = stateValidation.isValid ? this.codeIndex.get(stateValidation.sanitized!) : undefined;
+      if (stateView?.state_alignment) {
+        return stateView;
+      }
       throw new Error(validation.error);
     }
 
     return this.codeIndex.get(validation.sanitized!) || null;
   }
 
+  /**
+   * True when the code belongs to a loaded state overlay
+   */
+  isStateCode(code: string): boolean {
+    return !!this.codeIndex.get(String(code).trim())?.state_alignment;
+  }
+
   searchByDomain(domain: string, options: {
+    gradeLevel?: string;
     offset?: number;
     limit?: number;
   } = {}): Standard[] {
@@ -170,24 +667,34 @@ export class NGSSDatabase {
       throw new Error(validation.error);
     }
 
+    const gradeValidation = QueryValidator.validateGradeLevel(options.gradeLevel);
+    if (!gradeValidation.isValid) {
+      throw new Error(gradeValidation.error);
+    }
+
     const offset = options.offset ?? 0;
-    const limit = options.limit ?? 10;
 
     const domainKey = this.normalizeDomain(validation.sanitized!);
-    const allResults = this.domainIndex.get(domainKey) || [];
-
-    // Apply pagination: slice from offset to offset + limit
-    return allResults.slice(offset, offset + limit);
-  }
+    let allResults = this.domainIndex.get(domainKey) || [];
 
-  get3DComponents(code: string): { sep: any; dci: any; ccc: any } | null {
-    // Validate standard code format
-    const validation = QueryValidator.validateStandardCode(code);
-    if (!validation.isValid) {
-      throw new Error(validation.error);
+    if (gradeValidation.sanitized) {
+      allResults = allResults.filter(s => s.grade_level === gradeValidation.sanitized);
     }
 
-    const standard = this.getStandardByCode(validation.sanitized!);
+    // Apply pagination: slice from offset to offset + limit (without a limit, every standard from offset on)
+    return allResults.slice(offset, options.limit === undefined ? undefined : offset + options.limit);
+  }
+
+  get3DComponents(code: string): {
+    sep: SEP;
+    dci: DCI;
+    ccc?: CCC | undefined;
+    seps: SEP[];
+    dcis: DCI[];
+    cccs: CCC[];
+  } | null {
+    // Validates the code (NGSS or loaded state code)
+    const standard = this.getStandardByCode(code);
     if (!standard) {
       return null;
     }
@@ -195,19 +702,77 @@ export class NGSSDatabase {
     return {
       sep: standard.sep,
       dci: standard.dci,
-      ccc: standard.ccc
+      ccc: standard.ccc,
+      seps: standard.seps,
+      dcis: standard.dcis,
+      cccs: standard.cccs
     };
   }
 
-  searchStandards(query: string, options: {
-    domain?: string;
-    offset?: number;
-    limit?: number;
-  } = {}): Array<{ standard: Standard; score: number }> {
+  /**
+   * Resolve a standard's Connections references into the loaded standards they link to.
+   * DCI references (e.g. HS.PS1.A) resolve to standards of that grade that draw on the DCI;
+   * CCSS codes resolve to the other standards citing the same Common Core code.
+   */
+  getConnections(code: string): ResolvedConnections | null {
+    const standard = this.getStandardByCode(code);
+    if (!standard) {
+      return null;
+    }
+
+    const connections = standard.connections;
+    const ngssCode = standard.state_alignment?.ngss_code ?? standard.code;
+    const resolveDci = (reference: string): LinkedReference => ({
+      reference,
+      standards: this.standardsForDciReference(reference).filter(s => s.code !== ngssCode)
+    });
+    const resolveCcss = (reference: string): LinkedReference => ({
+      reference,
+      standards: (this.ccssIndex.get(reference) || []).filter(s => s.code !== ngssCode)
+    });
+
+    return {
+      extracted: connections !== undefined,
+      other_dcis: (connections?.other_dcis || []).map(resolveDci),
+      articulation: (connections?.articulation || []).map(resolveDci),
+      ccss_ela: (connections?.ccss_ela || []).map(resolveCcss),
+      ccss_math: (connections?.ccss_math || []).map(resolveCcss)
+    };
+  }
+
+  private standardsForDciReference(reference: string): Standard[] {
+    const match = new RegExp(PATTERNS.DCI_REFERENCE.source).exec(reference);
+    if (!match) {
+      return [];
+    }
+
+    // Grade prefix of the reference (K, 1-5, MS, HS) is the prefix of the linked standard codes
+    const [, gradePrefix, dciCode] = match;
+    const codePrefix = new RegExp(`^${gradePrefix}-[A-Z]`);
+    return this.standards.filter(s =>
+      codePrefix.test(s.code) && s.dcis.some(d => d.code === dciCode)
+    );
+  }
+
+  /**
+   * Ranked full-text search. `fields` limits plain words and phrases to those fields (field
+   * prefixes in the query keep their own field); `weights` overrides the default field weights.
+   */
+  searchStandards(query: string, options: SearchOptions = {}): Array<{ standard: Standard; score: number }> {
+    return this.searchStandardsPage(query, options).results;
+  }
+
+  /**
+   * searchStandards with the number of matches before pagination
+   */
+  searchStandardsPage(query: string, options: SearchOptions = {}): {
+    results: Array<{ standard: Standard; score: number }>;
+    total: number;
+  } {
     const startTime = performance.now();
 
-    // Validate query
-    const queryValidation = QueryValidator.validateQuery(query);
+    // Validate query (including its syntax)
+    const queryValidation = QueryValidator.validateSearchQuery(query);
     if (!queryValidation.isValid) {
       throw new Error(queryValidation.error);
     }
@@ -220,13 +785,20 @@ export class NGSSDatabase {
 
     const offset = options.offset ?? 0;
     const limit = options.limit ?? 10;
+    const scope: SearchScope = {
+      fields: options.fields ?? SEARCH_FIELDS,
+      weights: { ...DEFAULT_FIELD_WEIGHTS, ...options.weights }
+    };
 
-    // Check cache first (cache key includes pagination)
+    // Check cache first (cache key includes pagination and field scope)
     const cacheKey = generateCacheKey('searchStandards', {
       query: queryValidation.sanitized,
       domain: options.domain,
+      gradeLevel: options.gradeLevel,
       offset,
-      limit
+      limit,
+      fields: options.fields,
+      weights: options.weights
     });
     const cached = this.searchCache.get(cacheKey);
     if (cached) {
@@ -234,28 +806,17 @@ export class NGSSDatabase {
       return cached;
     }
 
-    const keywords = this.extractKeywords(queryValidation.sanitized!);
-    if (keywords.length === 0) {
-      return [];
+    // Phrases, operators and field prefixes decide which standards match; BM25F ranks them
+    const matches = this.evaluateQuery(queryValidation.query!, scope);
+    if (!matches) {
+      this.trackQuery('searchStandards', performance.now() - startTime);
+      return { results: [], total: 0 };
     }
 
-    // Calculate relevance scores using full-text index
-    const scoreMap = new Map<string, number>();
-
-    keywords.forEach(keyword => {
-      const matchingCodes = this.fullTextIndex.get(keyword);
-      if (matchingCodes) {
-        matchingCodes.forEach(code => {
-          scoreMap.set(code, (scoreMap.get(code) || 0) + 1);
-        });
-      }
-    });
-
-    // Get standards with scores
-    let results = Array.from(scoreMap.entries())
+    let results = Array.from(matches.entries())
       .map(([code, score]) => ({
         standard: this.codeIndex.get(code)!,
-        score: score / keywords.length // Normalize
+        score
       }));
 
     // Apply domain filter if specified
@@ -266,17 +827,492 @@ export class NGSSDatabase {
       );
     }
 
-    // Sort by score and apply pagination
-    results.sort((a, b) => b.score - a.score);
+    // Apply grade level filter if specified
+    if (options.gradeLevel) {
+      const gradeLevel = options.gradeLevel.toUpperCase();
+      results = results.filter(r => r.standard.grade_level === gradeLevel);
+    }
+
+    // Sort by score (code as tiebreaker for a stable order) and apply pagination
+    results.sort((a, b) => b.score - a.score || a.standard.code.localeCompare(b.standard.code));
 
     // Apply offset and limit
-    results = results.slice(offset, offset + limit);
+    const page = { results: results.slice(offset, offset + limit), total: results.length };
 
     // Cache paginated results
-    this.searchCache.set(cacheKey, results);
+    this.searchCache.set(cacheKey, page);
     this.trackQuery('searchStandards', performance.now() - startTime);
 
-    return results;
+    return page;
+  }
+
+  /**
+   * Standards matching every given filter, with facet counts over the matches for each dimension.
+   * Each filter is an index lookup; the smallest candidate list is checked against the others.
+   * With `text`, matches are ranked by relevance (its query syntax applies); otherwise they keep
+   * dataset order and score 0.
+   */
+  filterStandards(filters: StandardFilters): {
+    matches: Array<{ standard: Standard; score: number }>;
+    facets: StandardFacets;
+  } {
+    const startTime = performance.now();
+
+    const optionsValidation = QueryValidator.validateSearchOptions({
+      ...(filters.domain !== undefined && { domain: filters.domain }),
+      ...(filters.gradeLevel !== undefined && { gradeLevel: filters.gradeLevel })
+    });
+    if (!optionsValidation.isValid) {
+      throw new Error(optionsValidation.errors.join('; '));
+    }
+
+    const lookup = (index: Map<string, Standard[]>, key: string) => index.get(key.trim().toLowerCase()) ?? [];
+    const candidates: Standard[][] = [];
+    if (filters.domain !== undefined) {
+      candidates.push(this.domainIndex.get(this.normalizeDomain(filters.domain)) ?? []);
+    }
+    if (filters.gradeLevel !== undefined) {
+      candidates.push(this.gradeIndex.get(filters.gradeLevel.toUpperCase()) ?? []);
+    }
+    if (filters.topic !== undefined) {
+      candidates.push(lookup(this.topicIndex, filters.topic));
+    }
+    if (filters.practice !== undefined) {
+      candidates.push(lookup(this.practiceIndex, filters.practice));
+    }
+    if (filters.concept !== undefined) {
+      candidates.push(lookup(this.conceptIndex, filters.concept));
+    }
+    if (filters.dci !== undefined) {
+      candidates.push(lookup(this.dciIndex, filters.dci));
+    }
+
+    let scores: Map<string, number> | null = null;
+    if (filters.text !== undefined) {
+      const queryValidation = QueryValidator.validateSearchQuery(filters.text);
+      if (!queryValidation.isValid) {
+        throw new Error(queryValidation.error);
+      }
+      scores = this.evaluateQuery(queryValidation.query!);
+    }
+
+    // Check the smallest candidate list against the others
+    candidates.sort((a, b) => a.length - b.length);
+    const [smallest, ...others] = candidates;
+    const otherSets = others.map(list => new Set(list));
+    let matches = (smallest ?? this.standards)
+      .filter(standard => otherSets.every(set => set.has(standard)))
+      .filter(standard => !scores || scores.has(standard.code))
+      .map(standard => ({ standard, score: scores?.get(standard.code) ?? 0 }));
+
+    if (scores) {
+      matches = matches.sort((a, b) => b.score - a.score || a.standard.code.localeCompare(b.standard.code));
+    }
+
+    const facets = this.countFacets(matches.map(m => m.standard));
+    this.trackQuery('filterStandards', performance.now() - startTime);
+    return { matches, facets };
+  }
+
+  private countFacets(standards: Standard[]): StandardFacets {
+    const counters = {
+      domain: new Map<string, FacetValue>(),
+      grade_level: new Map<string, FacetValue>(),
+      topic: new Map<string, FacetValue>(),
+      sep: new Map<string, FacetValue>(),
+      ccc: new Map<string, FacetValue>(),
+      dci: new Map<string, FacetValue>()
+    };
+    const count = (counter: Map<string, FacetValue>, values: Array<{ value: string; code?: string }>) => {
+      new Map(values.map(v => [v.value, v])).forEach(({ value, code }) => {
+        const facet = counter.get(value) ?? { value, ...(code !== undefined && { code }), count: 0 };
+        facet.count++;
+        counter.set(value, facet);
+      });
+    };
+
+    for (const standard of standards) {
+      count(counters.domain, [{ value: standard.domain }]);
+      count(counters.grade_level, [{ value: standard.grade_level }]);
+      count(counters.topic, [{ value: standard.topic }]);
+      count(counters.sep, standard.seps.map(sep => ({ value: findCategory(SEP_CATEGORIES, sep.code)?.name ?? sep.name, code: sep.code })));
+      count(counters.ccc, standard.cccs.map(ccc => ({ value: findCategory(CCC_CATEGORIES, ccc.code)?.name ?? ccc.name, code: ccc.code })));
+      count(counters.dci, standard.dcis.map(dci => ({ value: dci.name, code: dci.code })));
+    }
+
+    // Most common first
+    const sorted = (counter: Map<string, FacetValue>) =>
+      [...counter.values()].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    return {
+      domain: sorted(counters.domain),
+      grade_level: sorted(counters.grade_level),
+      topic: sorted(counters.topic),
+      sep: sorted(counters.sep),
+      ccc: sorted(counters.ccc),
+      dci: sorted(counters.dci)
+    };
+  }
+
+  /**
+   * Standards closest in meaning to free text (a lab description, a phenomenon), by cosine
+   * similarity in the latent semantic space of each dataset. Words the vectors do not know are
+   * typo-corrected when close to one they do; both vocabularies add related NGSS wording at
+   * reduced weight. Returns the words used so a caller can see how the text was read.
+   */
+  findSimilarStandards(text: string, options: {
+    domain?: string;
+    gradeLevel?: string;
+    offset?: number;
+    limit?: number;
+  } = {}): {
+    recognized: string[];     // Words of the text the vectors know
+    related: string[];        // NGSS wording added from the vocabularies
+    total: number;            // Standards with a positive similarity, before pagination
+    matches: Array<{ standard: Standard; similarity: number }>;
+  } {
+    const startTime = performance.now();
+
+    const optionsValidation = QueryValidator.validateSearchOptions(options);
+    if (!optionsValidation.isValid) {
+      throw new Error(optionsValidation.errors.join('; '));
+    }
+
+    const indexes = this.getSemanticIndexes();
+    const known = (term: string) => indexes.some(index => index.knows(term));
+
+    const words = splitWords(text);
+    const terms = words.map(stem).map(term =>
+      known(term) || this.vocabulary.knows(term) || this.phenomena.knows(term)
+        ? term
+        : this.fullTextIndex.similarTerms(term).find(known) ?? term
+    );
+    const expansions = [...new Set([...this.vocabulary.expand(terms), ...this.phenomena.expand(terms)])]
+      .filter(term => !terms.includes(term));
+
+    const weights = new Map<string, number>(expansions.map(term => [term, EXPANSION_WEIGHT]));
+    terms.forEach(term => weights.set(term, 1));
+
+    const similarities = new Map<string, number>();
+    for (const index of indexes) {
+      const vector = index.embed(weights);
+      if (vector) {
+        index.similarities(vector).forEach((similarity, code) => similarities.set(code, similarity));
+      }
+    }
+
+    let matches = [...similarities]
+      .filter(([, similarity]) => similarity > 0)
+      .map(([code, similarity]) => ({ standard: this.codeIndex.get(code)!, similarity }));
+    if (options.domain) {
+      const domainKey = this.normalizeDomain(options.domain);
+      matches = matches.filter(m => this.normalizeDomain(m.standard.domain) === domainKey);
+    }
+    if (options.gradeLevel) {
+      const gradeLevel = options.gradeLevel.toUpperCase();
+      matches = matches.filter(m => m.standard.grade_level === gradeLevel);
+    }
+    matches.sort((a, b) => b.similarity - a.similarity || a.standard.code.localeCompare(b.standard.code));
+
+    const recognized = words
+      .map((word, i) => (terms[i] === stem(word) ? word : this.fullTextIndex.surfaceForm(terms[i]!)))
+      .filter((_, i) => known(terms[i]!));
+
+    this.trackQuery('findSimilarStandards', performance.now() - startTime);
+    return {
+      recognized: [...new Set(recognized)],
+      related: expansions.filter(known).map(term => this.fullTextIndex.surfaceForm(term)),
+      total: matches.length,
+      matches: matches.slice(options.offset ?? 0, (options.offset ?? 0) + (options.limit ?? 5))
+    };
+  }
+
+  /**
+   * Candidate standards for a lesson description, with separate evidence for each dimension.
+   * Candidates are the standards sharing content words with the lesson (BM25F over the PE, notes,
+   * topic, keywords and DCI names, vocabulary-expanded); practice and crosscutting concept
+   * evidence comes from cue phrases in the lesson. Ranked by the combined alignment score.
+   */
+  alignLesson(text: string, options: {
+    domain?: string;
+    gradeLevel?: string;
+    offset?: number;
+    limit?: number;
+  } = {}): {
+    practices: DimensionMatch[];     // Practices the lesson shows
+    concepts: DimensionMatch[];      // Crosscutting concepts the lesson shows
+    total: number;                   // Candidates before pagination
+    alignments: Array<{ standard: Standard; alignment: LessonAlignment }>;
+  } {
+    const startTime = performance.now();
+
+    const optionsValidation = QueryValidator.validateSearchOptions(options);
+    if (!optionsValidation.isValid) {
+      throw new Error(optionsValidation.errors.join('; '));
+    }
+
+    const lesson = profileLesson(text);
+    const terms = [...lesson.contentTerms.keys()];
+    const scores = this.fullTextIndex.score(terms, this.vocabulary.expand(terms), CONTENT_FIELDS);
+
+    let candidates = [...scores].map(([code, score]) => ({ standard: this.codeIndex.get(code)!, score }));
+    if (options.domain) {
+      const domainKey = this.normalizeDomain(options.domain);
+      candidates = candidates.filter(c => this.normalizeDomain(c.standard.domain) === domainKey);
+    }
+    if (options.gradeLevel) {
+      const gradeLevel = options.gradeLevel.toUpperCase();
+      candidates = candidates.filter(c => c.standard.grade_level === gradeLevel);
+    }
+
+    const best = Math.max(0, ...candidates.map(c => c.score));
+    const alignments = candidates
+      .map(({ standard, score }) => ({ standard, alignment: alignStandard(standard, lesson, score / best) }))
+      .sort((a, b) =>
+        b.alignment.alignment - a.alignment.alignment ||
+        b.alignment.content.score - a.alignment.content.score ||
+        a.standard.code.localeCompare(b.standard.code)
+      );
+
+    this.trackQuery('alignLesson', performance.now() - startTime);
+    return {
+      practices: lesson.practices,
+      concepts: lesson.concepts,
+      total: alignments.length,
+      alignments: alignments.slice(options.offset ?? 0, (options.offset ?? 0) + (options.limit ?? 5))
+    };
+  }
+
+  /**
+   * Fresh semantic vectors for every loaded dataset, with the file each belongs in
+   * (used by `build-vectors`)
+   */
+  buildSemanticVectors(): Array<{ path: string; vectors: SemanticVectorFile }> {
+    return [...this.datasetStandards].map(([path, standards]) => ({
+      path: semanticVectorPath(path),
+      vectors: buildSemanticVectors(standards, basename(path))
+    }));
+  }
+
+  private getSemanticIndexes(): SemanticIndex[] {
+    if (!this.semanticIndexes) {
+      this.semanticIndexes = [...this.datasetStandards].map(([path, standards]) =>
+        new SemanticIndex(this.loadSemanticVectors(path, standards))
+      );
+    }
+    return this.semanticIndexes;
+  }
+
+  /**
+   * The vectors stored next to a dataset, or vectors built in memory when the file is missing
+   * or was built from different text
+   */
+  private loadSemanticVectors(datasetPath: string, standards: Standard[]): SemanticVectorFile {
+    const path = semanticVectorPath(datasetPath);
+    const file = basename(path);
+
+    if (existsSync(path)) {
+      const parsed = SemanticVectorFileSchema.safeParse(JSON.parse(readFileSync(path, 'utf-8')));
+      if (!parsed.success) {
+        throw new Error(`Invalid semantic vector file ${file}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+      }
+      if (parsed.data.checksum === semanticChecksum(standards)) {
+        return parsed.data;
+      }
+      console.error(`${file} is out of date with ${basename(datasetPath)}; building vectors in memory (run build-vectors to update it)`);
+    }
+
+    return buildSemanticVectors(standards, basename(datasetPath));
+  }
+
+  /**
+   * Matching codes with their BM25F scores for a parsed query. Null when the query has no
+   * searchable terms (only stop words), so it neither matches nor excludes anything.
+   */
+  private evaluateQuery(node: QueryNode, scope: SearchScope = DEFAULT_SEARCH_SCOPE): Map<string, number> | null {
+    switch (node.type) {
+      case 'term':
+        return this.evaluateTerm(node, scope);
+
+      case 'not': {
+        const excluded = this.evaluateQuery(node.operand, scope);
+        return excluded && this.allStandardsExcept(excluded);
+      }
+
+      case 'and': {
+        const operands = node.operands
+          .map(operand => this.evaluateQuery(operand, scope))
+          .filter((matches): matches is Map<string, number> => matches !== null);
+        return operands.length > 0 ? this.intersectMatches(operands) : null;
+      }
+
+      case 'or': {
+        const operands = node.operands
+          .map(operand => this.evaluateQuery(operand, scope))
+          .filter((matches): matches is Map<string, number> => matches !== null);
+        if (operands.length === 0) {
+          return null;
+        }
+        const result = new Map<string, number>();
+        operands.forEach(matches => matches.forEach((score, code) => result.set(code, (result.get(code) ?? 0) + score)));
+        return result;
+      }
+
+      case 'group': {
+        // Plain words are scored together, as without any syntax, so vocabulary phrases
+        // ("food web") still match across words
+        const isPlainWord = (operand: QueryNode): operand is TermNode =>
+          operand.type === 'term' && !operand.phrase && !operand.field && !isHyphenated(operand.text);
+        const words = node.operands.filter(isPlainWord).map(operand => operand.text).join(' ');
+        const ranking = words ? this.evaluateWords(words, scope) : null;
+        const required = node.operands
+          .filter(operand => !isPlainWord(operand) && operand.type !== 'not')
+          .map(operand => this.evaluateQuery(operand, scope))
+          .filter((matches): matches is Map<string, number> => matches !== null);
+        const exclusions = node.operands
+          .flatMap(operand => operand.type === 'not' ? [this.evaluateQuery(operand.operand, scope)] : [])
+          .filter((matches): matches is Map<string, number> => matches !== null);
+
+        let result: Map<string, number>;
+        if (required.length > 0) {
+          // Everything required must match; plain words only add to the score
+          result = this.intersectMatches(required);
+          result.forEach((score, code) => result.set(code, score + (ranking?.get(code) ?? 0)));
+        } else if (ranking) {
+          result = ranking;
+        } else if (exclusions.length > 0) {
+          result = this.allStandardsExcept(new Map());
+        } else {
+          return null;
+        }
+        exclusions.forEach(matches => matches.forEach((_, code) => result.delete(code)));
+        return result;
+      }
+    }
+  }
+
+  private evaluateTerm(node: TermNode, scope: SearchScope): Map<string, number> | null {
+    const { text, phrase, field } = node;
+
+    if (field === 'code') {
+      return new Map(this.standards
+        .filter(standard => matchesCodePattern(standard.code, text))
+        .map(standard => [standard.code, 0]));
+    }
+
+    const fields: readonly SearchField[] = field ? [field] : scope.fields;
+    if (phrase || isHyphenated(text)) {
+      const terms = tokenize(text);
+      if (terms.length === 0) {
+        return null;
+      }
+      const scores = this.fullTextIndex.score(terms, [], fields, scope.weights);
+      return new Map(this.fullTextIndex.phraseMatches(terms, fields).map(code => [code, scores.get(code) ?? 0]));
+    }
+
+    if (!field) {
+      return this.evaluateWords(text, scope);
+    }
+    const terms = this.correctTerms(tokenize(text));
+    return terms.length > 0 ? this.fullTextIndex.score(terms, [], fields, scope.weights) : null;
+  }
+
+  /**
+   * Bag-of-words search: typo correction, then vocabulary expansion at reduced weight
+   */
+  private evaluateWords(text: string, scope: SearchScope): Map<string, number> | null {
+    const keywords = this.correctTerms(tokenize(text));
+    if (keywords.length === 0) {
+      return null;
+    }
+    return this.fullTextIndex.score(keywords, this.vocabulary.expand(keywords), scope.fields, scope.weights);
+  }
+
+  /**
+   * Codes found in every match set, with their scores summed
+   */
+  private intersectMatches(operands: Array<Map<string, number>>): Map<string, number> {
+    const [first, ...rest] = operands;
+    const result = new Map<string, number>();
+    first!.forEach((score, code) => {
+      if (rest.every(matches => matches.has(code))) {
+        result.set(code, rest.reduce((sum, matches) => sum + matches.get(code)!, score));
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Every standard not in `excluded`, unscored
+   */
+  private allStandardsExcept(excluded: Map<string, number>): Map<string, number> {
+    return new Map(this.standards
+      .filter(standard => !excluded.has(standard.code))
+      .map(standard => [standard.code, 0]));
+  }
+
+  /**
+   * The index terms a query matches on, for highlighting: typo-corrected words, their vocabulary
+   * expansions and phrase words. Terms under NOT and code: patterns are left out; an invalid
+   * query has none.
+   */
+  searchTerms(query: string): string[] {
+    const validation = QueryValidator.validateSearchQuery(query);
+    if (!validation.isValid) {
+      return [];
+    }
+
+    const terms = new Set<string>();
+    // Plain words side by side expand together, as in evaluateQuery ("food web")
+    const collect = (nodes: QueryNode[]): void => {
+      const plainWords: string[] = [];
+      for (const node of nodes) {
+        if (node.type === 'not' || (node.type === 'term' && node.field === 'code')) {
+          continue;
+        }
+        if (node.type !== 'term') {
+          collect(node.operands);
+          continue;
+        }
+        const words = node.phrase ? tokenize(node.text) : this.correctTerms(tokenize(node.text));
+        words.forEach(term => terms.add(term));
+        if (!node.phrase && !node.field) {
+          plainWords.push(...words);
+        }
+      }
+      this.vocabulary.expand(plainWords).forEach(term => terms.add(term));
+    };
+    collect([validation.query!]);
+    return [...terms];
+  }
+
+  /**
+   * "Did you mean" alternatives for a query: each misspelled word is replaced by the closest
+   * indexed words, and words found in few standards by close words found in more.
+   * Returns up to `limit` distinct queries, best first; empty when nothing is close.
+   */
+  suggestQueries(query: string, limit: number = 3): string[] {
+    const words = query.trim().split(/\s+/).filter(word => word.length > 0);
+    const alternatives = words.map(word => {
+      const terms = tokenize(word);
+      if (terms.length !== 1 || this.vocabulary.knows(terms[0]!)) {
+        return [];
+      }
+      const term = terms[0]!;
+      const documents = this.fullTextIndex.documentsWith(term).length;
+      return this.fullTextIndex.similarTerms(term)
+        .filter(candidate => this.fullTextIndex.documentsWith(candidate).length > documents)
+        .map(candidate => this.fullTextIndex.surfaceForm(candidate));
+    });
+
+    const suggestions = new Set<string>();
+    const rounds = Math.max(0, ...alternatives.map(a => a.length));
+    for (let i = 0; i < rounds && suggestions.size < limit; i++) {
+      const suggestion = words.map((word, j) => alternatives[j]![i] ?? alternatives[j]![0] ?? word).join(' ');
+      if (suggestion.toLowerCase() !== query.trim().toLowerCase()) {
+        suggestions.add(suggestion);
+      }
+    }
+    return [...suggestions];
   }
 
   getStats() {
@@ -286,13 +1322,22 @@ export class NGSSDatabase {
       domainCounts.set(domain, (domainCounts.get(domain) || 0) + 1);
     }
 
+    const gradeCounts = new Map<string, number>();
+    for (const [gradeLevel, standards] of this.gradeIndex.entries()) {
+      gradeCounts.set(gradeLevel, standards.length);
+    }
+
     return {
       totalStandards: this.standards.length,
       byDomain: Object.fromEntries(domainCounts),
+      byGradeLevel: Object.fromEntries(gradeCounts),
       indexSizes: {
         codes: this.codeIndex.size,
         domains: this.domainIndex.size,
-        fullTextKeywords: this.fullTextIndex.size
+        gradeLevels: this.gradeIndex.size,
+        fullTextKeywords: this.fullTextIndex.vocabularySize,
+        ccssCodes: this.ccssIndex.size,
+        stateCodes: this.metadata.overlays.reduce((sum, o) => sum + o.standards, 0)
       }
     };
   }
@@ -339,17 +1384,128 @@ export class NGSSDatabase {
   }
 }
 
+/**
+ * URI of the MCP resource describing the loaded data; clients are notified when it changes
+ */
+export const DATABASE_RESOURCE_URI = 'ngss://database';
+
+/**
+ * search_standards includes "did you mean" suggestions when it finds fewer results than this
+ */
+export const SUGGESTION_RESULT_THRESHOLD = 3;
+
 // Singleton pattern
 let dbInstance: NGSSDatabase | null = null;
+let dbOptions: { dbPath?: string | string[] | undefined; overlayPaths: string[] } | null = null;
+const reloadListeners = new Set<(db: NGSSDatabase) => void>();
+let stopWatching: (() => void) | null = null;
 
-export function initializeDatabase(dbPath?: string): NGSSDatabase {
+/**
+ * State overlay files listed in NGSS_STATE_OVERLAYS (separated by the platform path delimiter)
+ */
+function resolveOverlayPaths(): string[] {
+  return (process.env.NGSS_STATE_OVERLAYS || '')
+    .split(delimiter)
+    .map(path => path.trim())
+    .filter(path => path.length > 0);
+}
+
+export function initializeDatabase(
+  dbPath?: string | string[],
+  overlayPaths: string[] = resolveOverlayPaths()
+): NGSSDatabase {
   if (dbInstance) {
     return dbInstance;
   }
-  dbInstance = new NGSSDatabase(dbPath);
+  dbOptions = { dbPath, overlayPaths };
+  dbInstance = createDatabase(dbPath, overlayPaths);
   return dbInstance;
 }
 
+function createDatabase(dbPath: string | string[] | undefined, overlayPaths: string[]): NGSSDatabase {
+  const db = new NGSSDatabase(dbPath);
+  overlayPaths.forEach(path => db.loadOverlay(path));
+  return db;
+}
+
+/**
+ * Rebuild the database from the files it was initialized with and swap it in.
+ * The new instance is fully built before the swap, so a failed reload (e.g. a JSON syntax error)
+ * throws and leaves the current instance serving requests.
+ */
+export function reloadDatabase(): NGSSDatabase {
+  if (!dbOptions) {
+    throw new Error('Database not initialized. Call initializeDatabase() first.');
+  }
+
+  const next = createDatabase(dbOptions.dbPath, dbOptions.overlayPaths);
+  dbInstance?.clearCache();
+  dbInstance = next;
+
+  // The file set can change on reload (e.g. a dataset was added), so re-arm the watcher
+  if (stopWatching) {
+    stopWatching();
+    stopWatching = startWatching(next);
+  }
+
+  reloadListeners.forEach(listener => listener(next));
+  return next;
+}
+
+/**
+ * Register a callback run after every successful reload. Returns a function that unregisters it.
+ */
+export function onDatabaseReload(listener: (db: NGSSDatabase) => void): () => void {
+  reloadListeners.add(listener);
+  return () => {
+    reloadListeners.delete(listener);
+  };
+}
+
+/**
+ * Every file loaded from the data directory when present: grade-band datasets with their semantic
+ * vectors, lesson scopes and prerequisites
+ */
+function defaultDataFiles(): string[] {
+  const datasets = Object.values(GRADE_LEVEL_DATASETS).map(file => join(process.cwd(), file));
+  return [
+    ...datasets,
+    ...datasets.map(semanticVectorPath),
+    join(process.cwd(), LESSON_SCOPE_FILE),
+    join(process.cwd(), PREREQUISITE_FILE)
+  ];
+}
+
+function startWatching(db: NGSSDatabase): () => void {
+  // Default data files not present yet are polled too, so adding one (e.g. a new grade band) reloads
+  const defaults = dbOptions?.dbPath === undefined ? defaultDataFiles() : [];
+  return watchDataFiles([...new Set([...db.getSourceFiles(), ...defaults])], changed => {
+    try {
+      const reloaded = reloadDatabase();
+      console.error(`Reloaded NGSS data after change to ${changed.map(path => basename(path)).join(', ')}: ${reloaded.getStats().totalStandards} standards`);
+    } catch (error) {
+      console.error('Data reload failed, keeping previous data:', error instanceof Error ? error.message : error);
+    }
+  });
+}
+
+/**
+ * Reload the database whenever one of its data files changes on disk. Safe to call more than once.
+ */
+export function watchDatabaseFiles(): void {
+  if (!stopWatching) {
+    stopWatching = startWatching(getDatabase());
+  }
+}
+
+/**
+ * Stop the data file watcher started by watchDatabaseFiles()
+ */
+export function unwatchDatabaseFiles(): void {
+  stopWatching?.();
+  stopWatching = null;
+}
+
 export function getDatabase(): NGSSDatabase {
   if (!dbInstance) {
     throw new Error('Database not initialized. Call initializeDatabase() first.');
@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for Search Result Highlighting
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { highlightTerms, containsTerms, buildSnippet, buildHighlights, formatSearchResult } from './highlighter.js';
+import { tokenize } from './search-index.js';
+import type { Standard } from '../types/ngss.js';
+
+const terms = (query: string) => new Set(tokenize(query));
+
+const sampleStandard: Standard = {
+  code: 'MS-LS4-4',
+  grade_level: 'MS',
+  domain: 'Life Science',
+  topic: 'Natural Selection and Adaptations',
+  performance_expectation: 'Construct an explanation based on evidence that describes how genetic variations of traits in a population increase some individuals\' probability of surviving and reproducing in a specific environment.',
+  clarification_statement: 'Emphasis is on using simple probability statements and proportional reasoning to construct explanations.',
+  sep: {
+    code: 'SEP-6',
+    name: 'Constructing Explanations and Designing Solutions',
+    description: 'Constructing explanations in 6-8 builds on K-5 experiences.'
+  },
+  dci: {
+    code: 'LS4.B',
+    name: 'Natural Selection',
+    description: 'Natural selection leads to the predominance of certain traits in a population.'
+  },
+  ccc: {
+    code: 'CCC-2',
+    name: 'Cause and Effect',
+    description: 'Phenomena may have more than one cause.'
+  },
+  seps: [],
+  dcis: [],
+  cccs: [],
+  keywords: ['natural selection', 'genetic variation', 'traits', 'probability'],
+  lesson_scope: {
+    key_concepts: ['Variation in traits affects survival'],
+    prerequisite_knowledge: ['Offspring inherit traits from their parents'],
+    common_misconceptions: ['Individuals adapt on purpose to survive'],
+    depth_boundaries: { include: ['Peppered moth populations'], exclude: ['Hardy-Weinberg equations'] }
+  }
+};
+sampleStandard.seps = [sampleStandard.sep];
+sampleStandard.dcis = [sampleStandard.dci];
+sampleStandard.cccs = [sampleStandard.ccc];
+
+describe('highlightTerms', () => {
+  test('should mark words whose stem matches, keeping their original form', () => {
+    expect(highlightTerms('Traits vary in a population', terms('trait'))).toBe('**Traits** vary in a population');
+  });
+
+  test('should mark neighbouring matches as one span', () => {
+    expect(highlightTerms('how natural selection works', terms('selection natural'))).toBe('how **natural selection** works');
+  });
+
+  test('should leave text without matches unchanged', () => {
+    expect(highlightTerms('Cause and Effect', terms('energy'))).toBe('Cause and Effect');
+    expect(containsTerms('Cause and Effect', terms('energy'))).toBe(false);
+    expect(containsTerms('Cause and Effect', terms('effects'))).toBe(true);
+  });
+});
+
+describe('buildSnippet', () => {
+  const text = sampleStandard.performance_expectation;
+
+  test('should return short text whole', () => {
+    expect(buildSnippet('Natural Selection', terms('selection'), 80)).toBe('Natural **Selection**');
+  });
+
+  test('should cut a window around the matches with ellipses', () => {
+    const snippet = buildSnippet(text, terms('surviving reproducing'), 80);
+
+    expect(snippet.startsWith('...')).toBe(true);
+    expect(snippet.endsWith('...')).toBe(true);
+    expect(snippet).toContain('**surviving**');
+    expect(snippet).toContain('**reproducing**');
+    expect(snippet.replace(/\*\*|\.\.\./g, '').length).toBeLessThanOrEqual(80);
+  });
+
+  test('should not open with an ellipsis when the match is near the start', () => {
+    const snippet = buildSnippet(text, terms('explanation'), 80);
+
+    expect(snippet.startsWith('Construct an **explanation**')).toBe(true);
+    expect(snippet.endsWith('...')).toBe(true);
+  });
+
+  test('should fall back to the start of the text without a match', () => {
+    expect(buildSnippet(text, terms('photosynthesis'), 40)).toBe('Construct an explanation based on...');
+  });
+});
+
+describe('buildHighlights', () => {
+  test('should list the matched fields and 3D elements', () => {
+    const highlights = buildHighlights(sampleStandard, tokenize('natural selection probability'), 160);
+
+    expect(highlights.matched_fields).toEqual(['performance_expectation', 'clarification_statement', 'topic', 'keywords', 'dci', 'dci_description']);
+    expect(highlights.elements).toEqual([{
+      dimension: 'dci',
+      code: 'LS4.B',
+      name: '**Natural Selection**',
+      description: '**Natural selection** leads to the predominance of certain traits in a population.'
+    }]);
+    expect(highlights.snippet).toContain('**probability**');
+  });
+
+  test('should take the snippet from the clarification statement when the PE does not match', () => {
+    const highlights = buildHighlights(sampleStandard, tokenize('proportional'), 160);
+
+    expect(highlights.matched_fields).toEqual(['clarification_statement']);
+    expect(highlights.snippet).toContain('**proportional**');
+  });
+
+  test('should match element names of every dimension', () => {
+    const highlights = buildHighlights(sampleStandard, tokenize('cause explanations'), 160);
+
+    expect(highlights.elements.map(e => e.dimension)).toEqual(['sep', 'ccc']);
+    expect(highlights.elements[0]!.name).toBe('Constructing **Explanations** and Designing Solutions');
+  });
+
+  test('should report matches in descriptions and lesson scope, leaving out depth exclusions', () => {
+    expect(buildHighlights(sampleStandard, tokenize('phenomena'), 160).elements).toEqual([{
+      dimension: 'ccc',
+      code: 'CCC-2',
+      name: 'Cause and Effect',
+      description: '**Phenomena** may have more than one cause.'
+    }]);
+    expect(buildHighlights(sampleStandard, tokenize('moth'), 160).matched_fields).toEqual(['lesson_scope']);
+    expect(buildHighlights(sampleStandard, tokenize('equations'), 160).matched_fields).toEqual([]);
+  });
+});
+
+describe('formatSearchResult', () => {
+  test('should replace the minimal PE truncation with the snippet', () => {
+    const result = formatSearchResult(sampleStandard, 'minimal', tokenize('reproducing'), 3.2);
+
+    expect(result.performance_expectation).toContain('**reproducing**');
+    expect(result.relevance).toBe(3.2);
+    expect(result.highlights).not.toHaveProperty('snippet');
+    expect(result.highlights.matched_fields).toEqual(['performance_expectation']);
+  });
+
+  test('should keep the formatted standard and add highlights at other levels', () => {
+    const result = formatSearchResult(sampleStandard, 'full', tokenize('reproducing'), 3.2);
+
+    expect(result.performance_expectation).toBe(sampleStandard.performance_expectation);
+    expect(result.highlights).toHaveProperty('snippet');
+  });
+});
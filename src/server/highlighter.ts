@@ -0,0 +1,126 @@
+/**
+ * Search Result Highlighting
+ * Marks matched words with **bold** and cuts snippets around them, so a search result shows
+ * why it matched. Words match when they stem to one of the query's terms.
+ */
+
+import type { DetailLevel, HighlightedElement, SearchHighlights, Standard } from '../types/ngss.js';
+import { lessonScopeText, stem } from './search-index.js';
+import { formatResponse, truncateAtWordBoundary } from './response-formatter.js';
+
+export const SNIPPET_LENGTH = 160;
+export const MINIMAL_SNIPPET_LENGTH = 80;
+
+const WORD = /\w+/g;
+
+function isMatch(word: string, terms: ReadonlySet<string>): boolean {
+  return word.length > 2 && terms.has(stem(word.toLowerCase()));
+}
+
+/**
+ * Wrap every word matching a term in ** marks; neighbouring matches share one pair ("**natural selection**")
+ */
+export function highlightTerms(text: string, terms: ReadonlySet<string>): string {
+  return text
+    .replace(WORD, word => isMatch(word, terms) ? `**${word}**` : word)
+    .replace(/\*\* \*\*/g, ' ');
+}
+
+/**
+ * Whether any word of the text matches a term
+ */
+export function containsTerms(text: string, terms: ReadonlySet<string>): boolean {
+  return (text.match(WORD) ?? []).some(word => isMatch(word, terms));
+}
+
+/**
+ * Highlighted excerpt of about maxChars characters (before marks) covering as many matched words
+ * as possible, cut at word boundaries with "..." where text was dropped. Without a match this is
+ * the start of the text.
+ */
+export function buildSnippet(text: string, terms: ReadonlySet<string>, maxChars: number): string {
+  const words = [...text.matchAll(WORD)].map(m => ({ start: m.index!, end: m.index! + m[0].length, match: isMatch(m[0], terms) }));
+  const matches = words.filter(w => w.match);
+  if (matches.length === 0 || text.length <= maxChars) {
+    return highlightTerms(truncateAtWordBoundary(text, maxChars), terms);
+  }
+
+  // Window starting at the match that fits the most other matches after it
+  let best = matches[0]!;
+  let bestCount = 0;
+  for (const candidate of matches) {
+    const count = matches.filter(m => m.start >= candidate.start && m.end <= candidate.start + maxChars).length;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  // Lead in with a little context, starting on a word
+  const lead = Math.floor(maxChars / 4);
+  const start = words.find(w => w.start >= best.start - lead)!.start;
+  const end = [...words].reverse().find(w => w.end <= start + maxChars && w.start >= start)?.end ?? best.end;
+
+  const excerpt = highlightTerms(text.slice(start, end), terms);
+  return `${start > 0 ? '...' : ''}${excerpt}${end < text.length ? '...' : ''}`;
+}
+
+/**
+ * Which fields and 3D elements of a standard contain the query terms, and a snippet of the best
+ * matching text (performance expectation, then clarification statement, then assessment boundary)
+ */
+export function buildHighlights(standard: Standard, terms: string[], snippetLength: number): SearchHighlights {
+  const termSet = new Set(terms);
+  const fields: Array<[string, string]> = [
+    ['performance_expectation', standard.performance_expectation],
+    ['clarification_statement', standard.clarification_statement ?? ''],
+    ['assessment_boundary', standard.assessment_boundary ?? ''],
+    ['topic', standard.topic],
+    ['keywords', standard.keywords.join(' ')],
+    ['sep', standard.seps.map(e => e.name).join(' ')],
+    ['dci', standard.dcis.map(e => e.name).join(' ')],
+    ['ccc', standard.cccs.map(e => e.name).join(' ')],
+    ['sep_description', standard.seps.map(e => e.description).join(' ')],
+    ['dci_description', standard.dcis.map(e => e.description).join(' ')],
+    ['ccc_description', standard.cccs.map(e => e.description).join(' ')],
+    ['lesson_scope', lessonScopeText(standard.lesson_scope)]
+  ];
+  const matchedFields = fields.filter(([, text]) => containsTerms(text, termSet)).map(([field]) => field);
+
+  const snippetSource = fields
+    .slice(0, 3)
+    .find(([field]) => matchedFields.includes(field))?.[1]
+    ?? (standard.performance_expectation || standard.topic);
+
+  const elements: HighlightedElement[] = [
+    ...standard.seps.map(e => ({ dimension: 'sep' as const, ...e })),
+    ...standard.dcis.map(e => ({ dimension: 'dci' as const, ...e })),
+    ...standard.cccs.map(e => ({ dimension: 'ccc' as const, ...e }))
+  ]
+    .filter(e => containsTerms(e.name, termSet) || containsTerms(e.description, termSet))
+    .map(e => ({
+      dimension: e.dimension,
+      code: e.code,
+      name: highlightTerms(e.name, termSet),
+      ...(containsTerms(e.description, termSet) && { description: buildSnippet(e.description, termSet, snippetLength) })
+    }));
+
+  return {
+    matched_fields: matchedFields,
+    snippet: buildSnippet(snippetSource, termSet, snippetLength),
+    elements
+  };
+}
+
+/**
+ * A search result at the requested detail level with its relevance and highlights.
+ * Minimal results carry the snippet as their performance_expectation instead of its first 50 characters.
+ */
+export function formatSearchResult(standard: Standard, detailLevel: DetailLevel, terms: string[], relevance: number) {
+  const formatted = formatResponse(standard, detailLevel);
+  if (detailLevel === 'minimal') {
+    const { snippet, ...highlights } = buildHighlights(standard, terms, MINIMAL_SNIPPET_LENGTH);
+    return { ...formatted, performance_expectation: snippet, relevance, highlights };
+  }
+  return { ...formatted, relevance, highlights: buildHighlights(standard, terms, SNIPPET_LENGTH) };
+}
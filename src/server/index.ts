@@ -7,11 +7,27 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import { initializeDatabase, getDatabase } from './database.js';
-import { formatResponse, formatResponseArray } from './response-formatter.js';
+import {
+  initializeDatabase,
+  getDatabase,
+  reloadDatabase,
+  onDatabaseReload,
+  watchDatabaseFiles,
+  DATABASE_RESOURCE_URI,
+  SUGGESTION_RESULT_THRESHOLD
+} from './database.js';
+import { formatResponse, formatResponseArray, buildPaginationMetadata, paginationRequest, decodeCursor } from './response-formatter.js';
+import { QueryValidator } from './query-validation.js';
+import { formatSearchResult } from './highlighter.js';
+import { SEARCH_FIELDS, type SearchField } from './search-index.js';
 import { getTokenMetadata } from './token-counter.js';
-import type { DetailLevel, Standard } from '../types/ngss.js';
+import { getLearningProgressions, gradeBandForCode } from './learning-progressions.js';
+import { scoreCompatibility, resolveCompatibilityWeights, explainCompatibility, buildUnit, unitKey } from './unit-planning.js';
+import { generateScopeAndSequence, balancedUnitSizes } from './scope-sequence.js';
+import { analyzeCoverage } from './coverage-analysis.js';
+import { DOMAIN_MAP, PATTERNS, type DetailLevel, type Standard } from '../types/ngss.js';
 import { SEP_VALUES, CCC_VALUES, DCI_VALUES } from '../constants/enum-values.js';
+import { SEP_CATEGORIES, CCC_CATEGORIES, SEP_CATEGORY_NAMES, CCC_CATEGORY_NAMES, findCategory } from '../constants/taxonomy.js';
 
 //===========================================
 // Server Initialization
@@ -44,72 +60,59 @@ function ensureInitialized() {
   }
 }
 
-//===========================================
-// Helper: scoreCompatibility - Calculate compatibility score between anchor and candidate
-//===========================================
-interface CompatibilityScore {
-  standard: Standard;
-  score: number;
-  breakdown: {
-    domain_match: number;      // 0 or 3
-    shared_seps: number;        // 0 or 2 (binary match)
-    shared_cccs: number;        // 0 or 2 (binary match)
-    shared_dcis: number;        // 0 or 1 (binary match)
-  };
+// NGSS code, or a state code from a loaded overlay (checked per call, since overlays change on reload)
+const STANDARD_CODE_MESSAGE = 'Invalid standard code format. Expected: {K|1-5|K-2|3-5|MS|HS}-{PS|LS|ESS|ETS}{number}-{number} or a state code from a loaded overlay';
+function isStandardCode(code: string): boolean {
+  return PATTERNS.STANDARD_CODE_FORMAT.test(code.trim()) || (isInitialized && getDatabase().isStateCode(code));
 }
 
-function scoreCompatibility(
-  anchor: Standard,
-  candidate: Standard
-): CompatibilityScore {
-  let score = 0;
-  const breakdown = {
-    domain_match: 0,
-    shared_seps: 0,
-    shared_cccs: 0,
-    shared_dcis: 0
-  };
-
-  // Domain match
-  if (anchor.domain === candidate.domain) {
-    breakdown.domain_match = 3;
-    score += 3;
-  }
-
-  // Binary SEP match (0 or 2 points)
-  // Each standard has ONE sep object with a name property
-  if (anchor.sep.name === candidate.sep.name) {
-    breakdown.shared_seps = 2;
-    score += 2;
-  }
-
-  // Binary CCC match (0 or 2 points)
-  // Each standard has ONE ccc object with a name property
-  if (anchor.ccc.name === candidate.ccc.name) {
-    breakdown.shared_cccs = 2;
-    score += 2;
+//===========================================
+// Resource: ngss-database - Loaded data files and index statistics (updated on reload)
+//===========================================
+server.registerResource(
+  'ngss-database',
+  DATABASE_RESOURCE_URI,
+  {
+    title: 'NGSS Database',
+    description: 'Loaded datasets, state overlays and lesson scopes with index statistics. Updated whenever the data is reloaded',
+    mimeType: 'application/json'
+  },
+  async (uri) => {
+    ensureInitialized();
+    const db = getDatabase();
+    return {
+      contents: [{
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: JSON.stringify({ metadata: db.getMetadata(), stats: db.getStats() }, null, 2)
+      }]
+    };
   }
+);
 
-  // Binary DCI match (0 or 1 point)
-  // Each standard has ONE dci object with a name property
-  if (anchor.dci.name === candidate.dci.name) {
-    breakdown.shared_dcis = 1;
-    score += 1;
+// Notify the client after every reload, whether from the file watcher or a reload_data call
+const stopReloadNotifications = onDatabaseReload(() => {
+  isInitialized = true;
+  if (!server.isConnected()) {
+    return;
   }
-
-  return { standard: candidate, score, breakdown };
-}
+  server.sendResourceListChanged();
+  server.server.sendResourceUpdated({ uri: DATABASE_RESOURCE_URI }).catch(error => {
+    console.error('Resource update notification failed:', error);
+  });
+});
+server.server.onclose = stopReloadNotifications;
 
 // Tool 1: get_standard - Lookup standard by code
 server.registerTool(
   'get_standard',
   {
     title: 'Get NGSS Standard by Code',
-    description: 'Retrieve a specific NGSS standard by its code identifier (e.g., MS-PS1-1, MS-LS2-3, MS-ESS3-1)',
+    description: 'Retrieve a specific NGSS standard by its code identifier (e.g., K-PS2-1, 3-LS4-2, MS-PS1-1, HS-PS1-4)',
     inputSchema: {
       code: z.string()
-        .regex(/^MS-(PS|LS|ESS)\d+-\d+$/)
-        .describe('NGSS standard code (format: MS-{PS|LS|ESS}{number}-{number})'),
+        .refine(isStandardCode, STANDARD_CODE_MESSAGE)
+        .describe('NGSS standard code (format: {K|1-5|K-2|3-5|MS|HS}-{PS|LS|ESS|ETS}{number}-{number}) or a state code from a loaded overlay'),
       detail_level: z.enum(['minimal', 'summary', 'full'])
         .optional()
         .default('full')
@@ -170,35 +173,60 @@ server.registerTool(
   'search_by_domain',
   {
     title: 'Search Standards by Domain',
-    description: 'Find all NGSS standards in a specific science domain (Physical Science, Life Science, or Earth and Space Science)',
+    description: 'Find all NGSS standards in a specific domain (Physical Science, Life Science, Earth and Space Science, or Engineering, Technology, and Applications of Science). Paginated: pass pagination.nextCursor as cursor for the next page',
     inputSchema: {
-      domain: z.enum(['Physical Science', 'Life Science', 'Earth and Space Science'])
+      domain: z.enum(['Physical Science', 'Life Science', 'Earth and Space Science', 'Engineering, Technology, and Applications of Science'])
         .describe('Science domain to filter by'),
-      offset: z.number().int().min(0).default(0).describe('Number of results to skip (for pagination)'),
+      grade_level: z.enum(['ES', 'MS', 'HS'])
+        .optional()
+        .describe('Optional: filter by grade band (ES = K-5, MS = 6-8, HS = 9-12)'),
       limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of results to return (1-50)'),
+      cursor: z.string().optional().describe('Optional: pagination.nextCursor from the previous page'),
       detail_level: z.enum(['minimal', 'summary', 'full'])
         .optional()
         .default('full')
         .describe('Response detail level: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
     }
   },
-  async ({ domain, offset, limit, detail_level }) => {
+  async ({ domain, grade_level, limit, cursor, detail_level }) => {
     try {
       ensureInitialized();
       const db = getDatabase();
-      const allStandards = db.searchByDomain(domain);
+      const domainOptions: { gradeLevel?: string } = {};
+      if (grade_level !== undefined) {
+        domainOptions.gradeLevel = grade_level;
+      }
+      const request = paginationRequest('search_by_domain', { domain, grade_level });
+      const start = decodeCursor(cursor, request);
+      if (start === null) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Invalid Cursor',
+              message: 'Cursor is malformed or was issued for a different request; omit it to start from the first page',
+              code: 'INVALID_CURSOR'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      const allStandards = db.searchByDomain(domain, domainOptions);
 
       // Apply pagination
-      const standards = allStandards.slice(offset, offset + limit);
+      const standards = allStandards.slice(start, start + limit);
 
       const formattedStandards = formatResponseArray(standards, detail_level as DetailLevel);
       const tokens = getTokenMetadata(domain, formattedStandards);
 
       const result = {
         domain,
+        grade_level: grade_level || 'all',
         count: standards.length,
         total: allStandards.length,
         standards: formattedStandards,
+        pagination: buildPaginationMetadata(allStandards.length, start, limit, request),
         _metadata: { tokens }
       };
 
@@ -230,11 +258,11 @@ server.registerTool(
   'get_3d_components',
   {
     title: 'Get 3D Framework Components',
-    description: 'Extract the three-dimensional learning components (SEP: Science and Engineering Practices, DCI: Disciplinary Core Ideas, CCC: Crosscutting Concepts) for a specific standard (e.g., MS-PS1-1, MS-LS2-3, MS-ESS3-1)',
+    description: 'Extract the three-dimensional learning components (SEP: Science and Engineering Practices, DCI: Disciplinary Core Ideas, CCC: Crosscutting Concepts) for a specific standard (e.g., K-PS2-1, 3-LS4-2, MS-PS1-1, HS-PS1-4)',
     inputSchema: {
       code: z.string()
-        .regex(/^MS-(PS|LS|ESS)\d+-\d+$/)
-        .describe('NGSS standard code (format: MS-{PS|LS|ESS}{number}-{number})'),
+        .refine(isStandardCode, STANDARD_CODE_MESSAGE)
+        .describe('NGSS standard code (format: {K|1-5|K-2|3-5|MS|HS}-{PS|LS|ESS|ETS}{number}-{number}) or a state code from a loaded overlay'),
       detail_level: z.enum(['minimal', 'summary', 'full'])
         .optional()
         .default('full')
@@ -261,24 +289,26 @@ server.registerTool(
         };
       }
 
+      // Primary element first; any further elements the PE draws on are listed after it
+      const withAdditional = <T extends { code: string; name: string; description: string }>(elements: T[]) => {
+        const [primary, ...additional] = elements;
+        return {
+          code: primary!.code,
+          name: primary!.name,
+          description: primary!.description,
+          ...(additional.length > 0 && {
+            additional_elements: additional.map(({ code, name, description }) => ({ code, name, description }))
+          })
+        };
+      };
+
       const result = {
         code,
         framework_components: {
-          'Science and Engineering Practices (SEP)': {
-            code: components.sep.code,
-            name: components.sep.name,
-            description: components.sep.description
-          },
-          'Disciplinary Core Ideas (DCI)': {
-            code: components.dci.code,
-            name: components.dci.name,
-            description: components.dci.description
-          },
-          'Crosscutting Concepts (CCC)': {
-            code: components.ccc.code,
-            name: components.ccc.name,
-            description: components.ccc.description
-          }
+          'Science and Engineering Practices (SEP)': withAdditional(components.seps),
+          'Disciplinary Core Ideas (DCI)': withAdditional(components.dcis),
+          // Engineering design PEs (MS-ETS1-1..4) draw on no crosscutting concept
+          'Crosscutting Concepts (CCC)': components.cccs.length > 0 ? withAdditional(components.cccs) : null
         }
       };
 
@@ -315,42 +345,109 @@ server.registerTool(
   'search_standards',
   {
     title: 'Search Standards (Full-Text)',
-    description: 'Perform full-text search across all NGSS standard content including performance expectations, topics, and keywords (e.g., "energy transfer", "ecosystems", "chemical reactions", "climate change")',
+    description: 'Perform full-text search across all NGSS standard content including performance expectations, topics, and keywords, ranked by BM25 relevance (e.g., "energy transfer", "ecosystems", "chemical reactions", "climate change"). Also searches SEP/DCI/CCC descriptions and lesson scope; use fields/weights to target them (e.g., fields ["dci_description"] for "regrouped into different molecules"). Supports "quoted phrases", AND/OR/NOT (or -term), parentheses, and field prefixes topic:, dci:, sep:, ccc:, code: (e.g., energy NOT sound, dci:"Natural Selection" model, code:MS-LS*). Each result lists the matched fields and 3D elements with a **highlighted** snippet. Tolerates typos and returns "did you mean" suggestions when few standards match. Paginated: pass pagination.nextCursor as cursor for the next page',
     inputSchema: {
-      query: z.string().min(2).describe('Search query text'),
-      domain: z.enum(['Physical Science', 'Life Science', 'Earth and Space Science']).optional().describe('Optional: filter by domain'),
-      limit: z.number().int().positive().default(10).describe('Maximum number of results to return'),
+      query: z.string().min(2).describe('Search query: words, "phrases", AND/OR/NOT/-term, (groups), topic:/dci:/sep:/ccc:/code: prefixes'),
+      domain: z.enum(['Physical Science', 'Life Science', 'Earth and Space Science', 'Engineering, Technology, and Applications of Science']).optional().describe('Optional: filter by domain'),
+      grade_level: z.enum(['ES', 'MS', 'HS'])
+        .optional()
+        .describe('Optional: filter by grade band (ES = K-5, MS = 6-8, HS = 9-12)'),
+      limit: z.number().int().min(1).max(100).default(10).describe('Maximum number of results to return (1-100)'),
+      offset: z.number().int().min(0).default(0).describe('Number of results to skip (ignored when cursor is given)'),
+      cursor: z.string().optional().describe('Optional: pagination.nextCursor from the previous page'),
+      fields: z.array(z.enum(SEARCH_FIELDS as [SearchField, ...SearchField[]]))
+        .min(1)
+        .optional()
+        .describe('Optional: search only these fields (default: all). Field prefixes in the query keep their own field'),
+      weights: z.record(z.enum(SEARCH_FIELDS as [SearchField, ...SearchField[]]), z.number().min(0).max(10))
+        .optional()
+        .describe('Optional: field weight overrides, 0 ignores a field (defaults: topic 1.5, keywords 1.2, performance_expectation 1, dci 1, sep 0.6, ccc 0.6, notes 0.5, dci_description 0.5, lesson_scope 0.4, sep_description 0.3, ccc_description 0.3)'),
       detail_level: z.enum(['minimal', 'summary', 'full'])
         .optional()
         .default('full')
-        .describe('Response detail level: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
+        .describe('Response detail level: minimal (code, topic, highlighted PE snippet), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
     }
   },
-  async ({ query, domain, limit, detail_level }) => {
+  async ({ query, domain, grade_level, offset, limit, cursor, fields, weights, detail_level }) => {
     try {
       ensureInitialized();
       const db = getDatabase();
-      const options: { domain?: string; limit?: number } = { limit };
-      if (domain !== undefined) {
-        options.domain = domain;
+
+      const validation = QueryValidator.validateSearchQuery(query);
+      if (!validation.isValid) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Invalid Query',
+              message: validation.error,
+              code: 'INVALID_QUERY',
+              ...(validation.position !== undefined && { position: validation.position })
+            }, null, 2)
+          }],
+          isError: true
+        };
       }
-      const results = db.searchStandards(query, options);
 
-      const formattedResults = results.map(({ standard, score }) => {
-        const formatted = formatResponse(standard, detail_level as DetailLevel);
+      const request = paginationRequest('search_standards', { query, domain, grade_level, fields, weights });
+      const start = cursor === undefined ? offset : decodeCursor(cursor, request);
+      if (start === null) {
         return {
-          ...formatted,
-          relevance: Math.round(score * 100) / 100
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Invalid Cursor',
+              message: 'Cursor is malformed or was issued for a different request; omit it to start from the first page',
+              code: 'INVALID_CURSOR'
+            }, null, 2)
+          }],
+          isError: true
         };
-      });
+      }
+
+      const options: {
+        domain?: string;
+        gradeLevel?: string;
+        offset?: number;
+        limit?: number;
+        fields?: SearchField[];
+        weights?: Partial<Record<SearchField, number>>;
+      } = { offset: start, limit };
+      if (domain !== undefined) {
+        options.domain = domain;
+      }
+      if (grade_level !== undefined) {
+        options.gradeLevel = grade_level;
+      }
+      if (fields !== undefined) {
+        options.fields = fields;
+      }
+      if (weights !== undefined) {
+        options.weights = weights;
+      }
+      const { results, total } = db.searchStandardsPage(query, options);
+
+      // Each result shows why it matched: fields, 3D elements and a highlighted snippet
+      const terms = db.searchTerms(query);
+      const formattedResults = results.map(({ standard, score }) =>
+        formatSearchResult(standard, detail_level as DetailLevel, terms, Math.round(score * 100) / 100)
+      );
+
+      // Zero or few results: offer corrected or more common spellings of the query
+      const suggestions = total < SUGGESTION_RESULT_THRESHOLD ? db.suggestQueries(query) : [];
 
       const tokens = getTokenMetadata(query, formattedResults);
 
       const response = {
         query,
         domain: domain || 'all',
-        totalMatches: results.length,
+        grade_level: grade_level || 'all',
+        ...(fields && { fields }),
+        ...(weights && { weights }),
+        totalMatches: total,
         results: formattedResults,
+        pagination: buildPaginationMetadata(total, start, limit, request),
+        ...(suggestions.length > 0 && { suggestions }),
         _metadata: { tokens }
       };
 
@@ -384,32 +481,61 @@ server.registerTool(
   'search_by_practice',
   {
     title: 'Search Standards by Science and Engineering Practice',
-    description: 'Find all NGSS standards using a specific Science and Engineering Practice (SEP). Examples: "Developing and Using Models", "Analyzing and Interpreting Data", "Planning and Carrying Out Investigations"',
+    description: 'Find all NGSS standards using a specific Science and Engineering Practice (SEP). Accepts one of the 8 practices, returning every standard under it (e.g., "Developing and Using Models", "Analyzing and Interpreting Data", "Planning and Carrying Out Investigations"), or an element-level statement for an exact match. Paginated: pass pagination.nextCursor as cursor for the next page',
     inputSchema: {
-      practice: z.enum(SEP_VALUES)
-        .describe('Science and Engineering Practice name'),
+      practice: z.enum([...SEP_CATEGORY_NAMES, ...SEP_VALUES])
+        .describe('Science and Engineering Practice name (one of the 8 practices) or element statement'),
+      grade_level: z.enum(['ES', 'MS', 'HS'])
+        .optional()
+        .describe('Optional: filter by grade band (ES = K-5, MS = 6-8, HS = 9-12)'),
+      limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of results to return (1-50)'),
+      cursor: z.string().optional().describe('Optional: pagination.nextCursor from the previous page'),
       detail_level: z.enum(['minimal', 'summary', 'full'])
         .optional()
         .default('full')
         .describe('Response detail level: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
     }
   },
-  async ({ practice, detail_level }) => {
+  async ({ practice, grade_level, limit, cursor, detail_level }) => {
     try {
       ensureInitialized();
       const db = getDatabase();
-      const allStandards = db.getAllStandards();
+      const request = paginationRequest('search_by_practice', { practice, grade_level });
+      const offset = decodeCursor(cursor, request);
+      if (offset === null) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Invalid Cursor',
+              message: 'Cursor is malformed or was issued for a different request; omit it to start from the first page',
+              code: 'INVALID_CURSOR'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
 
-      // Filter by SEP name (exact match)
-      const filtered = allStandards.filter(s => s.sep.name === practice);
+      const allStandards = grade_level
+        ? db.getStandardsByGradeLevel(grade_level)
+        : db.getAllStandards();
 
-      const formattedStandards = formatResponseArray(filtered, detail_level as DetailLevel);
+      // A practice matches every element under it by category code; an element statement matches exactly
+      const category = findCategory(SEP_CATEGORIES, practice);
+      const filtered = allStandards.filter(s =>
+        s.seps.some(sep => category ? sep.code === category.code : sep.name === practice)
+      );
+
+      const formattedStandards = formatResponseArray(filtered.slice(offset, offset + limit), detail_level as DetailLevel);
       const tokens = getTokenMetadata(practice, formattedStandards);
 
       const result = {
         practice,
+        ...(category && { practice_code: category.code }),
+        grade_level: grade_level || 'all',
         total: filtered.length,
         standards: formattedStandards,
+        pagination: buildPaginationMetadata(filtered.length, offset, limit, request),
         _metadata: { tokens }
       };
 
@@ -443,32 +569,61 @@ server.registerTool(
   'search_by_crosscutting_concept',
   {
     title: 'Search Standards by Crosscutting Concept',
-    description: 'Find all NGSS standards using a specific Crosscutting Concept (CCC). Examples: "Patterns", "Cause and Effect", "Systems and System Models", "Energy and Matter"',
+    description: 'Find all NGSS standards using a specific Crosscutting Concept (CCC). Accepts one of the 7 concepts, returning every standard under it (e.g., "Patterns", "Cause and Effect", "Systems and System Models", "Energy and Matter"), or an element-level statement for an exact match. Paginated: pass pagination.nextCursor as cursor for the next page',
     inputSchema: {
-      concept: z.enum(CCC_VALUES)
-        .describe('Crosscutting Concept name'),
+      concept: z.enum([...CCC_CATEGORY_NAMES, ...CCC_VALUES])
+        .describe('Crosscutting Concept name (one of the 7 concepts) or element statement'),
+      grade_level: z.enum(['ES', 'MS', 'HS'])
+        .optional()
+        .describe('Optional: filter by grade band (ES = K-5, MS = 6-8, HS = 9-12)'),
+      limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of results to return (1-50)'),
+      cursor: z.string().optional().describe('Optional: pagination.nextCursor from the previous page'),
       detail_level: z.enum(['minimal', 'summary', 'full'])
         .optional()
         .default('full')
         .describe('Response detail level: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
     }
   },
-  async ({ concept, detail_level }) => {
+  async ({ concept, grade_level, limit, cursor, detail_level }) => {
     try {
       ensureInitialized();
       const db = getDatabase();
-      const allStandards = db.getAllStandards();
+      const request = paginationRequest('search_by_crosscutting_concept', { concept, grade_level });
+      const offset = decodeCursor(cursor, request);
+      if (offset === null) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Invalid Cursor',
+              message: 'Cursor is malformed or was issued for a different request; omit it to start from the first page',
+              code: 'INVALID_CURSOR'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
 
-      // Filter by CCC name (exact match)
-      const filtered = allStandards.filter(s => s.ccc.name === concept);
+      const allStandards = grade_level
+        ? db.getStandardsByGradeLevel(grade_level)
+        : db.getAllStandards();
+
+      // A concept matches every element under it by category code; an element statement matches exactly
+      const category = findCategory(CCC_CATEGORIES, concept);
+      const filtered = allStandards.filter(s =>
+        s.cccs.some(ccc => category ? ccc.code === category.code : ccc.name === concept)
+      );
 
-      const formattedStandards = formatResponseArray(filtered, detail_level as DetailLevel);
+      const formattedStandards = formatResponseArray(filtered.slice(offset, offset + limit), detail_level as DetailLevel);
       const tokens = getTokenMetadata(concept, formattedStandards);
 
       const result = {
         concept,
+        ...(category && { concept_code: category.code }),
+        grade_level: grade_level || 'all',
         total: filtered.length,
         standards: formattedStandards,
+        pagination: buildPaginationMetadata(filtered.length, offset, limit, request),
         _metadata: { tokens }
       };
 
@@ -502,32 +657,57 @@ server.registerTool(
   'search_by_disciplinary_core_idea',
   {
     title: 'Search Standards by Disciplinary Core Idea',
-    description: 'Find all NGSS standards using a specific Disciplinary Core Idea (DCI). Examples: "Definitions of Energy", "Interdependent Relationships in Ecosystems", "Weather and Climate"',
+    description: 'Find all NGSS standards using a specific Disciplinary Core Idea (DCI). Examples: "Definitions of Energy", "Interdependent Relationships in Ecosystems", "Weather and Climate". Paginated: pass pagination.nextCursor as cursor for the next page',
     inputSchema: {
       dci: z.enum(DCI_VALUES)
         .describe('Disciplinary Core Idea name'),
+      grade_level: z.enum(['ES', 'MS', 'HS'])
+        .optional()
+        .describe('Optional: filter by grade band (ES = K-5, MS = 6-8, HS = 9-12)'),
+      limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of results to return (1-50)'),
+      cursor: z.string().optional().describe('Optional: pagination.nextCursor from the previous page'),
       detail_level: z.enum(['minimal', 'summary', 'full'])
         .optional()
         .default('full')
         .describe('Response detail level: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
     }
   },
-  async ({ dci, detail_level }) => {
+  async ({ dci, grade_level, limit, cursor, detail_level }) => {
     try {
       ensureInitialized();
       const db = getDatabase();
-      const allStandards = db.getAllStandards();
+      const request = paginationRequest('search_by_disciplinary_core_idea', { dci, grade_level });
+      const offset = decodeCursor(cursor, request);
+      if (offset === null) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Invalid Cursor',
+              message: 'Cursor is malformed or was issued for a different request; omit it to start from the first page',
+              code: 'INVALID_CURSOR'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
 
-      // Filter by DCI name (exact match)
-      const filtered = allStandards.filter(s => s.dci.name === dci);
+      const allStandards = grade_level
+        ? db.getStandardsByGradeLevel(grade_level)
+        : db.getAllStandards();
 
-      const formattedStandards = formatResponseArray(filtered, detail_level as DetailLevel);
+      // Filter by DCI name (exact match on any of the standard's core ideas)
+      const filtered = allStandards.filter(s => s.dcis.some(d => d.name === dci));
+
+      const formattedStandards = formatResponseArray(filtered.slice(offset, offset + limit), detail_level as DetailLevel);
       const tokens = getTokenMetadata(dci, formattedStandards);
 
       const result = {
         dci,
+        grade_level: grade_level || 'all',
         total: filtered.length,
         standards: formattedStandards,
+        pagination: buildPaginationMetadata(filtered.length, offset, limit, request),
         _metadata: { tokens }
       };
 
@@ -561,22 +741,33 @@ server.registerTool(
   'get_unit_suggestions',
   {
     title: 'Get Unit Planning Suggestions',
-    description: 'Recommend compatible NGSS standards for curriculum unit planning based on 3D framework overlap (domain, SEP, DCI, CCC). Example: Given anchor "MS-PS3-1" (energy), suggest 2-7 compatible standards that share similar practices, concepts, or disciplinary ideas for a cohesive unit',
+    description: 'Recommend compatible NGSS standards for curriculum unit planning based on 3D framework overlap (domain, SEP, DCI, CCC) and content similarity (shared PE and keyword terms). Candidates come from the grade band of the anchor only (ES, MS or HS); the response echoes it as grade_level. Engineering design (ETS) standards are paired with the science PEs they are meant to be integrated with (e.g., MS-ETS1-1 with MS-PS3-3). Weights are tunable: raise sep/ccc for a practice-focused unit or content for a content-focused one. Example: Given anchor "MS-PS3-1" (energy), suggest 2-7 compatible standards that share similar practices, concepts, or disciplinary ideas for a cohesive unit',
     inputSchema: {
       anchor_code: z.string()
+        .refine(isStandardCode, STANDARD_CODE_MESSAGE)
         .describe('The anchor NGSS standard code (e.g., "MS-PS3-1")'),
       unit_size: z.number()
         .min(2)
         .max(8)
         .default(3)
         .describe('Total number of standards in the unit (2-8), including the anchor'),
+      weights: z.object({
+        domain: z.number().min(0).max(10).optional(),
+        sep: z.number().min(0).max(10).optional(),
+        ccc: z.number().min(0).max(10).optional(),
+        dci: z.number().min(0).max(10).optional(),
+        engineering: z.number().min(0).max(10).optional(),
+        content: z.number().min(0).max(10).optional()
+      })
+        .optional()
+        .describe('Optional: points per signal, 0-10 (defaults: domain 3, sep 2, ccc 2, dci 1, engineering 4, content 4). content is multiplied by the content similarity (0-1)'),
       detail_level: z.enum(['minimal', 'summary', 'full'])
         .optional()
         .default('summary')
         .describe('Response detail level: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
     }
   },
-  async ({ anchor_code, unit_size, detail_level }) => {
+  async ({ anchor_code, unit_size, weights, detail_level }) => {
     try {
       ensureInitialized();
       const db = getDatabase();
@@ -597,12 +788,14 @@ server.registerTool(
         };
       }
 
-      // Step 2: Get all candidates (exclude anchor)
-      const allStandards = db.getAllStandards();
-      const candidates = allStandards.filter(s => s.code !== anchor_code);
+      // Step 2: Get all candidates from the anchor's grade band (exclude anchor)
+      const allStandards = db.getStandardsByGradeLevel(anchor.grade_level);
+      const anchorNgssCode = anchor.state_alignment?.ngss_code ?? anchor.code;
+      const candidates = allStandards.filter(s => s.code !== anchorNgssCode);
 
       // Step 3: Score each candidate
-      const scored = candidates.map(candidate => scoreCompatibility(anchor, candidate));
+      const appliedWeights = resolveCompatibilityWeights(weights);
+      const scored = candidates.map(candidate => scoreCompatibility(anchor, candidate, appliedWeights));
 
       // Step 4: Sort by score descending, then by code ascending (tiebreaker)
       const sorted = scored.sort((a, b) =>
@@ -613,26 +806,12 @@ server.registerTool(
       const topSuggestions = sorted.slice(0, unit_size - 1);
 
       // Step 6: Format each suggestion with score breakdown
-      const suggestions = topSuggestions.map(({ standard, score, breakdown }) => {
-        const match_reasons: string[] = [];
-        if (breakdown.domain_match > 0) {
-          match_reasons.push(`Same domain: ${standard.domain} (+${breakdown.domain_match})`);
-        }
-        if (breakdown.shared_seps > 0) {
-          match_reasons.push(`Shared SEP: "${standard.sep.name}" (+${breakdown.shared_seps})`);
-        }
-        if (breakdown.shared_cccs > 0) {
-          match_reasons.push(`Shared CCC: "${standard.ccc.name}" (+${breakdown.shared_cccs})`);
-        }
-        if (breakdown.shared_dcis > 0) {
-          match_reasons.push(`Shared DCI: "${standard.dci.name}" (+${breakdown.shared_dcis})`);
-        }
-
-        const formatted = formatResponse(standard, detail_level as DetailLevel);
+      const suggestions = topSuggestions.map(scored => {
+        const formatted = formatResponse(scored.standard, detail_level as DetailLevel);
         return {
           ...formatted,
-          compatibility_score: score,
-          match_reasons
+          compatibility_score: scored.score,
+          match_reasons: explainCompatibility(anchor, scored)
         };
       });
 
@@ -643,7 +822,9 @@ server.registerTool(
       const result = {
         anchor: formattedAnchor,
         suggestions,
-        total_candidates: candidates.length
+        grade_level: anchor.grade_level,
+        total_candidates: candidates.length,
+        weights: appliedWeights
       };
 
       const tokens = getTokenMetadata(anchor_code, result);
@@ -674,42 +855,1490 @@ server.registerTool(
   }
 );
 
-// Server lifecycle management
-let isShuttingDown = false;
+//===========================================
+// Tool 10: get_connections - Resolve Connections boxes into linked standards
+//===========================================
+server.registerTool(
+  'get_connections',
+  {
+    title: 'Get Standard Connections',
+    description: 'Resolve the NGSS "Connections" boxes for a standard into linked standards: other DCIs in the same grade band, articulation of DCIs across grade bands, and Common Core ELA/Literacy and Mathematics connections (with the other standards citing the same Common Core code, for co-planning with ELA and math colleagues)',
+    inputSchema: {
+      code: z.string()
+        .refine(isStandardCode, STANDARD_CODE_MESSAGE)
+        .describe('NGSS standard code (format: {K|1-5|K-2|3-5|MS|HS}-{PS|LS|ESS|ETS}{number}-{number}) or a state code from a loaded overlay'),
+      detail_level: z.enum(['minimal', 'summary', 'full'])
+        .optional()
+        .default('minimal')
+        .describe('Detail level for linked standards: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
+    }
+  },
+  async ({ code, detail_level }) => {
+    try {
+      ensureInitialized();
+      const db = getDatabase();
+      const connections = db.getConnections(code);
 
-async function shutdown() {
-  if (isShuttingDown) return;
-  isShuttingDown = true;
+      if (!connections) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Not Found',
+              message: `Standard ${code} does not exist in the database`,
+              code: 'STANDARD_NOT_FOUND'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
 
-  console.error('📴 Shutting down gracefully...');
-  try {
-    await server.close();
-  } catch (error) {
-    console.error('Shutdown error:', error);
-  }
-  process.exit(0);
-}
+      const formatLinks = (links: Array<{ reference: string; standards: Standard[] }>) =>
+        links.map(({ reference, standards }) => ({
+          reference,
+          linked_standards: formatResponseArray(standards, detail_level as DetailLevel)
+        }));
 
-process.on('SIGINT', shutdown);
-process.on('SIGTERM', shutdown);
+      const result = {
+        code,
+        connections: {
+          other_dcis_in_grade_band: formatLinks(connections.other_dcis),
+          articulation_across_grade_bands: formatLinks(connections.articulation),
+          common_core_ela: formatLinks(connections.ccss_ela),
+          common_core_math: formatLinks(connections.ccss_math)
+        },
+        total_references: connections.other_dcis.length + connections.articulation.length +
+          connections.ccss_ela.length + connections.ccss_math.length,
+        connections_extracted: connections.extracted,
+        ...(!connections.extracted && {
+          message: 'No Connections data was extracted for this standard; regenerate its dataset with build-data to populate it'
+        })
+      };
 
-// Start server
-async function main() {
-  if (!isInitialized) {
-    console.error('❌ Cannot start server: database initialization failed');
-    process.exit(1);
+      const tokens = getTokenMetadata(code, result);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            _metadata: { tokens }
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('get_connections error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Internal Error',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'INTERNAL_ERROR'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
   }
+);
 
-  const transport = new StdioServerTransport();
+//===========================================
+// Tool 11: get_learning_progression - Trace a DCI component from K-2 through high school
+//===========================================
+server.registerTool(
+  'get_learning_progression',
+  {
+    title: 'Get DCI Learning Progression',
+    description: 'Trace a Disciplinary Core Idea component across grade bands (K-2, 3-5, 6-8, 9-12). Given a DCI code (e.g., PS3.B) or a standard code (e.g., MS-PS3-5, traced through each of its DCIs), returns the ordered grade-band endpoints, the key terms each step introduces, and the loaded standards at each step. Example: "What did students learn about energy transfer before grade 6?" → PS3.B K-2 and 3-5 steps',
+    inputSchema: {
+      code: z.string()
+        .refine(
+          code => PATTERNS.DCI_CODE.test(code.trim().toUpperCase()) || isStandardCode(code.trim().toUpperCase()) || isStandardCode(code),
+          'Invalid code format. Expected a DCI component code (e.g., PS3.B), an NGSS standard code (e.g., MS-PS3-5) or a state code from a loaded overlay'
+        )
+        .describe('DCI component code (e.g., "PS3.B", "LS1.C"), NGSS standard code (e.g., "MS-PS3-5") or a state code from a loaded overlay'),
+      detail_level: z.enum(['minimal', 'summary', 'full'])
+        .optional()
+        .default('minimal')
+        .describe('Detail level for standards at each step: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
+    }
+  },
+  async ({ code, detail_level }) => {
+    try {
+      ensureInitialized();
+      const db = getDatabase();
+      const progressions = getLearningProgressions();
+      const normalized = code.trim().toUpperCase();
+
+      // A standard code is traced through every DCI it draws on
+      let dciCodes: string[];
+      let standard: Standard | null = null;
+      if (PATTERNS.DCI_CODE.test(normalized)) {
+        dciCodes = [normalized];
+      } else {
+        // NGSS codes are matched case-insensitively; state codes from an overlay as given
+        const standardCode = PATTERNS.STANDARD_CODE_FORMAT.test(normalized) ? normalized : code.trim();
+        standard = db.getStandardByCode(standardCode);
+        if (!standard) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                error: 'Not Found',
+                message: `Standard ${standardCode} does not exist in the database`,
+                code: 'STANDARD_NOT_FOUND'
+              }, null, 2)
+            }],
+            isError: true
+          };
+        }
+        dciCodes = [...new Set(standard.dcis.map(d => d.code))];
+      }
 
-  transport.onerror = (error) => {
-    if (!isShuttingDown) {
-      console.error('❌ Transport error:', error);
+      const allStandards = db.getAllStandards();
+      const traced = dciCodes
+        .map(dciCode => ({ progression: progressions.getProgression(dciCode), steps: progressions.trace(dciCode, allStandards) }))
+        .filter(t => t.progression && t.steps);
+
+      if (traced.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Not Found',
+              message: `No learning progression for ${dciCodes.join(', ')}`,
+              code: 'PROGRESSION_NOT_FOUND'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      const result = {
+        code: normalized,
+        ...(standard && { current_grade_band: gradeBandForCode(standard.state_alignment?.ngss_code ?? standard.code) }),
+        progressions: traced.map(({ progression, steps }) => ({
+          dci: { code: progression!.code, name: progression!.name },
+          steps: steps!.map(step => ({
+            grade_band: step.grade_band,
+            endpoint: step.endpoint,
+            introduces: step.introduces,
+            standards: formatResponseArray(step.standards, detail_level as DetailLevel)
+          }))
+        })),
+        source: progressions.getSource()
+      };
+
+      const tokens = getTokenMetadata(normalized, result);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            _metadata: { tokens }
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('get_learning_progression error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Internal Error',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'INTERNAL_ERROR'
+          }, null, 2)
+        }],
+        isError: true
+      };
     }
-  };
+  }
+);
 
-  await server.connect(transport);
-  console.error('🚀 NGSS MCP Server running on stdio');
+//===========================================
+// Tool 12: crosswalk - Compare an NGSS standard with state versions from loaded overlays
+//===========================================
+server.registerTool(
+  'crosswalk',
+  {
+    title: 'State Standards Crosswalk',
+    description: 'Map a standard between NGSS and state code systems (e.g., NJSLS-S, California integrated model, Michigan MSS) and show where the state version differs: performance expectation wording, clarification statement, assessment boundary, and grade placement. Accepts either an NGSS code or a state code. State overlays are loaded from the files listed in NGSS_STATE_OVERLAYS',
+    inputSchema: {
+      code: z.string()
+        .refine(isStandardCode, STANDARD_CODE_MESSAGE)
+        .describe('NGSS standard code (e.g., "MS-PS1-1") or a state code from a loaded overlay'),
+      jurisdiction: z.string()
+        .optional()
+        .describe('Optional: only show this state (e.g., "NJ", "CA", "MI")')
+    }
+  },
+  async ({ code, jurisdiction }) => {
+    try {
+      ensureInitialized();
+      const db = getDatabase();
+      const crosswalk = db.getCrosswalk(code, jurisdiction);
+
+      if (!crosswalk) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Not Found',
+              message: `Standard ${code} does not exist in the database`,
+              code: 'STANDARD_NOT_FOUND'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      const result = {
+        ngss_code: crosswalk.standard.code,
+        performance_expectation: crosswalk.standard.performance_expectation,
+        jurisdiction: jurisdiction || 'all',
+        states: crosswalk.states,
+        total_states: crosswalk.states.length,
+        loaded_overlays: db.getMetadata().overlays.map(o => `${o.framework} (${o.jurisdiction})`)
+      };
+
+      const tokens = getTokenMetadata(code, result);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            _metadata: { tokens }
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('crosswalk error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Internal Error',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'INTERNAL_ERROR'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+//===========================================
+// Tool 13: get_lesson_scope - Prerequisites, misconceptions and depth boundaries for lesson planning
+//===========================================
+server.registerTool(
+  'get_lesson_scope',
+  {
+    title: 'Get Lesson Scope',
+    description: 'Get lesson-planning scope for one or more standards: key concepts, prerequisite knowledge students need first, documented student misconceptions, and include/exclude depth boundaries drawn from the assessment boundaries. Curated scopes are marked curated: true; standards without curated data return their generated scope',
+    inputSchema: {
+      codes: z.array(
+        z.string()
+          .refine(isStandardCode, STANDARD_CODE_MESSAGE)
+          .describe('NGSS standard code (e.g., "MS-PS1-1") or a state code from a loaded overlay')
+      )
+        .min(1)
+        .max(10)
+        .describe('Standard codes to plan for (1-10)')
+    }
+  },
+  async ({ codes }) => {
+    try {
+      ensureInitialized();
+      const db = getDatabase();
+      const uniqueCodes = [...new Set(codes)];
+      const found = uniqueCodes.map(code => db.getLessonScope(code));
+      const notFound = uniqueCodes.filter((_, i) => !found[i]);
+
+      if (notFound.length === uniqueCodes.length) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Not Found',
+              message: `No standards found for: ${notFound.join(', ')}`,
+              code: 'STANDARD_NOT_FOUND'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      const lessonScopes = found.filter(entry => entry !== null).map(({ standard, lesson_scope, curated }) => ({
+        code: standard.code,
+        topic: standard.topic,
+        performance_expectation: standard.performance_expectation,
+        curated,
+        ...lesson_scope
+      }));
+
+      const result = {
+        lesson_scopes: lessonScopes,
+        total: lessonScopes.length,
+        ...(notFound.length > 0 && { not_found: notFound })
+      };
+
+      const tokens = getTokenMetadata(uniqueCodes.join(','), result);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            _metadata: { tokens }
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('get_lesson_scope error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Internal Error',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'INTERNAL_ERROR'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+//===========================================
+// Tool 14: reload_data - Re-read the data files and rebuild indexes without a restart
+//===========================================
+server.registerTool(
+  'reload_data',
+  {
+    title: 'Reload Standards Data',
+    description: 'Re-read the standards datasets, state overlays, lesson scopes and prerequisite graph from disk, rebuild every index and clear the query cache. The data directory is scanned again, so grade-band datasets and vector files added since startup are loaded too. Use after the data files were edited or added; connected clients receive resource list_changed and updated notifications. If the files are invalid the previous data keeps serving and an error is returned',
+    inputSchema: {}
+  },
+  async () => {
+    try {
+      const previous = isInitialized ? getDatabase().getStats().totalStandards : null;
+      const db = reloadDatabase();
+      const metadata = db.getMetadata();
+
+      const result = {
+        reloaded: true,
+        total_standards: db.getStats().totalStandards,
+        previous_total_standards: previous,
+        datasets: metadata.datasets.map(d => d.file),
+        overlays: metadata.overlays.map(o => o.file),
+        lesson_scopes: metadata.lesson_scopes?.file ?? null,
+        prerequisites: metadata.prerequisites?.file ?? null
+      };
+
+      const tokens = getTokenMetadata('reload_data', result);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            _metadata: { tokens }
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('reload_data error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Reload Failed',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'RELOAD_FAILED'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+//===========================================
+// Tool 15: filter_standards - Combined filters with facet counts
+//===========================================
+server.registerTool(
+  'filter_standards',
+  {
+    title: 'Filter Standards (Faceted)',
+    description: 'Filter NGSS standards by any combination of domain, topic, practice (SEP), crosscutting concept (CCC), disciplinary core idea (DCI), grade band and free text in one call. Returns a page of matches plus facet counts (domain, grade_level, topic, sep, ccc, dci) over all matches, so filters can be added one at a time to narrow the set',
+    inputSchema: {
+      domain: z.enum(['Physical Science', 'Life Science', 'Earth and Space Science', 'Engineering, Technology, and Applications of Science'])
+        .optional()
+        .describe('Optional: science domain'),
+      topic: z.string().min(1).optional().describe('Optional: topic name, e.g. "Ecosystems: Interactions, Energy, and Dynamics" (case-insensitive)'),
+      sep: z.string().min(1).optional().describe('Optional: practice name or code (e.g. "Developing and Using Models", "SEP-2"), or an element statement'),
+      ccc: z.string().min(1).optional().describe('Optional: crosscutting concept name or code (e.g. "Patterns", "CCC-1"), or an element statement'),
+      dci: z.string().min(1).optional().describe('Optional: disciplinary core idea name or code (e.g. "Natural Selection", "LS4.B")'),
+      grade_level: z.enum(['ES', 'MS', 'HS'])
+        .optional()
+        .describe('Optional: filter by grade band (ES = K-5, MS = 6-8, HS = 9-12)'),
+      text: z.string().min(2).optional().describe('Optional: full-text query (search_standards syntax); ranks matches by relevance'),
+      limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of results to return (1-50)'),
+      cursor: z.string().optional().describe('Optional: pagination.nextCursor from the previous page'),
+      detail_level: z.enum(['minimal', 'summary', 'full'])
+        .optional()
+        .default('full')
+        .describe('Response detail level: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
+    }
+  },
+  async ({ domain, topic, sep, ccc, dci, grade_level, text, limit, cursor, detail_level }) => {
+    try {
+      ensureInitialized();
+      const db = getDatabase();
+
+      if (text !== undefined) {
+        const validation = QueryValidator.validateSearchQuery(text);
+        if (!validation.isValid) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                error: 'Invalid Query',
+                message: validation.error,
+                code: 'INVALID_QUERY',
+                ...(validation.position !== undefined && { position: validation.position })
+              }, null, 2)
+            }],
+            isError: true
+          };
+        }
+      }
+
+      const filters = {
+        ...(domain !== undefined && { domain }),
+        ...(topic !== undefined && { topic }),
+        ...(sep !== undefined && { sep }),
+        ...(ccc !== undefined && { ccc }),
+        ...(dci !== undefined && { dci }),
+        ...(grade_level !== undefined && { grade_level }),
+        ...(text !== undefined && { text })
+      };
+      const request = paginationRequest('filter_standards', filters);
+      const start = decodeCursor(cursor, request);
+      if (start === null) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Invalid Cursor',
+              message: 'Cursor is malformed or was issued for a different request; omit it to start from the first page',
+              code: 'INVALID_CURSOR'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      const { matches, facets } = db.filterStandards({
+        domain,
+        topic,
+        practice: sep,
+        concept: ccc,
+        dci,
+        gradeLevel: grade_level,
+        text
+      });
+
+      const page = matches.slice(start, start + limit);
+      const formattedStandards = page.map(({ standard, score }) => ({
+        ...formatResponse(standard, detail_level as DetailLevel),
+        ...(text !== undefined && { relevance: Math.round(score * 100) / 100 })
+      }));
+      const tokens = getTokenMetadata(JSON.stringify(filters), formattedStandards);
+
+      const result = {
+        filters,
+        total: matches.length,
+        standards: formattedStandards,
+        facets,
+        pagination: buildPaginationMetadata(matches.length, start, limit, request),
+        _metadata: { tokens }
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('filter_standards error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Internal Error',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'INTERNAL_ERROR'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+//===========================================
+// Tool 16: find_similar_standards - Semantic similarity for free text
+//===========================================
+server.registerTool(
+  'find_similar_standards',
+  {
+    title: 'Find Similar Standards',
+    description: 'Find the NGSS standards closest in meaning to free text such as a lab description, an activity or a phenomenon (e.g., "why does the ice melt on the sidewalk with salt" -> MS-PS1-4). Ranks by similarity of latent semantic vectors built offline from the standards and their lesson scopes, so it connects everyday wording that keyword search misses. Returns the words it recognized and the related NGSS wording it added',
+    inputSchema: {
+      text: z.string().min(3).describe('Free text: lab description, activity, phenomenon or question'),
+      domain: z.enum(['Physical Science', 'Life Science', 'Earth and Space Science', 'Engineering, Technology, and Applications of Science'])
+        .optional()
+        .describe('Optional: science domain'),
+      grade_level: z.enum(['ES', 'MS', 'HS'])
+        .optional()
+        .describe('Optional: filter by grade band (ES = K-5, MS = 6-8, HS = 9-12)'),
+      limit: z.number().int().min(1).max(20).default(5).describe('Maximum number of standards to return (1-20)'),
+      cursor: z.string().optional().describe('Optional: pagination.nextCursor from the previous page'),
+      detail_level: z.enum(['minimal', 'summary', 'full'])
+        .optional()
+        .default('summary')
+        .describe('Response detail level: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
+    }
+  },
+  async ({ text, domain, grade_level, limit, cursor, detail_level }) => {
+    try {
+      ensureInitialized();
+      const db = getDatabase();
+      const request = paginationRequest('find_similar_standards', { text, domain, grade_level });
+      const offset = decodeCursor(cursor, request);
+      if (offset === null) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Invalid Cursor',
+              message: 'Cursor is malformed or was issued for a different request; omit it to start from the first page',
+              code: 'INVALID_CURSOR'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      const { recognized, related, total, matches } = db.findSimilarStandards(text, {
+        ...(domain && { domain }),
+        ...(grade_level && { gradeLevel: grade_level }),
+        offset,
+        limit
+      });
+
+      const formattedStandards = matches.map(({ standard, similarity }) => ({
+        ...formatResponse(standard, detail_level as DetailLevel),
+        similarity: Math.round(similarity * 100) / 100
+      }));
+      const tokens = getTokenMetadata(text, formattedStandards);
+
+      const result = {
+        text,
+        recognized_words: recognized,
+        related_terms: related,
+        totalMatches: total,
+        standards: formattedStandards,
+        pagination: buildPaginationMetadata(total, offset, limit, request),
+        ...(recognized.length === 0 && related.length === 0 && {
+          message: 'None of the words are known to the standards vectors; describe the science involved (e.g. "melting", "forces", "food web")'
+        }),
+        _metadata: { tokens }
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('find_similar_standards error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Internal Error',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'INTERNAL_ERROR'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+//===========================================
+// Tool 17: align_lesson - Per-dimension alignment of a lesson plan
+//===========================================
+server.registerTool(
+  'align_lesson',
+  {
+    title: 'Align Lesson to Standards',
+    description: 'Audit an existing lesson or activity description against NGSS standards. Returns ranked candidate standards with separate evidence for each dimension: practice (SEP cue phrases in the lesson such as "develop a model" or "analyze data", quoted from the lesson), content (lesson words found in the PE and DCIs, highlighted) and crosscutting concept (CCC cue phrases such as "cause" or "patterns"). Each dimension has its own score, and the combined alignment is scaled by the content score',
+    inputSchema: {
+      lesson: z.string().min(20).describe('Lesson plan or activity description (plain text)'),
+      domain: z.enum(['Physical Science', 'Life Science', 'Earth and Space Science', 'Engineering, Technology, and Applications of Science'])
+        .optional()
+        .describe('Optional: science domain'),
+      grade_level: z.enum(['ES', 'MS', 'HS'])
+        .optional()
+        .describe('Optional: filter by grade band (ES = K-5, MS = 6-8, HS = 9-12)'),
+      limit: z.number().int().min(1).max(20).default(5).describe('Maximum number of candidate standards to return (1-20)'),
+      cursor: z.string().optional().describe('Optional: pagination.nextCursor from the previous page'),
+      detail_level: z.enum(['minimal', 'summary', 'full'])
+        .optional()
+        .default('minimal')
+        .describe('Detail level for each candidate standard: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
+    }
+  },
+  async ({ lesson, domain, grade_level, limit, cursor, detail_level }) => {
+    try {
+      ensureInitialized();
+      const db = getDatabase();
+      const request = paginationRequest('align_lesson', { lesson, domain, grade_level });
+      const offset = decodeCursor(cursor, request);
+      if (offset === null) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Invalid Cursor',
+              message: 'Cursor is malformed or was issued for a different request; omit it to start from the first page',
+              code: 'INVALID_CURSOR'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      const { practices, concepts, total, alignments } = db.alignLesson(lesson, {
+        ...(domain && { domain }),
+        ...(grade_level && { gradeLevel: grade_level }),
+        offset,
+        limit
+      });
+
+      const candidates = alignments.map(({ standard, alignment }) => ({
+        standard: formatResponse(standard, detail_level as DetailLevel),
+        ...alignment
+      }));
+      const tokens = getTokenMetadata(lesson, candidates);
+
+      const result = {
+        lesson_practices: practices,
+        lesson_crosscutting_concepts: concepts,
+        totalCandidates: total,
+        candidates,
+        pagination: buildPaginationMetadata(total, offset, limit, request),
+        _metadata: { tokens }
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('align_lesson error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Internal Error',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'INTERNAL_ERROR'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+//===========================================
+// Tool 18: build_unit - Pick a coherent unit around one or more anchors
+//===========================================
+server.registerTool(
+  'build_unit',
+  {
+    title: 'Build Coherent Unit',
+    description: 'Build a curriculum unit around one or more anchor standards. Unlike get_unit_suggestions, which scores each candidate against a single anchor, every pair of standards in the unit is scored (domain, SEP, CCC, DCI, engineering pairing and content similarity, with tunable weights) and the set with the highest average pairwise score is chosen, so no two picks are unrelated to each other. Standards can be required (include) or ruled out (exclude). Returns the unit, a pairwise score matrix with the reasons for every pair, and the practices, crosscutting concepts and core ideas the unit covers',
+    inputSchema: {
+      anchor_codes: z.array(
+        z.string()
+          .refine(isStandardCode, STANDARD_CODE_MESSAGE)
+          .describe('NGSS standard code (e.g., "MS-PS1-1") or a state code from a loaded overlay')
+      )
+        .min(1)
+        .max(8)
+        .describe('Anchor NGSS standard codes (e.g., ["MS-PS3-1", "MS-PS3-5"])'),
+      unit_size: z.number()
+        .min(2)
+        .max(8)
+        .default(4)
+        .describe('Total number of standards in the unit (2-8), including anchors and required standards'),
+      include: z.array(
+        z.string()
+          .refine(isStandardCode, STANDARD_CODE_MESSAGE)
+          .describe('NGSS standard code (e.g., "MS-PS1-1") or a state code from a loaded overlay')
+      )
+        .optional()
+        .describe('Optional: standard codes the unit must contain'),
+      exclude: z.array(
+        z.string()
+          .refine(isStandardCode, STANDARD_CODE_MESSAGE)
+          .describe('NGSS standard code (e.g., "MS-PS1-1") or a state code from a loaded overlay')
+      )
+        .optional()
+        .describe('Optional: standard codes the unit must not contain'),
+      weights: z.object({
+        domain: z.number().min(0).max(10).optional(),
+        sep: z.number().min(0).max(10).optional(),
+        ccc: z.number().min(0).max(10).optional(),
+        dci: z.number().min(0).max(10).optional(),
+        engineering: z.number().min(0).max(10).optional(),
+        content: z.number().min(0).max(10).optional()
+      })
+        .optional()
+        .describe('Optional: points per signal, 0-10 (defaults: domain 3, sep 2, ccc 2, dci 1, engineering 4, content 4). content is multiplied by the content similarity (0-1)'),
+      detail_level: z.enum(['minimal', 'summary', 'full'])
+        .optional()
+        .default('minimal')
+        .describe('Detail level for each standard in the unit: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
+    }
+  },
+  async ({ anchor_codes, unit_size, include = [], exclude = [], weights, detail_level }) => {
+    try {
+      ensureInitialized();
+      const db = getDatabase();
+
+      // Step 1: Look up every code (404 listing the unknown ones)
+      const lookup = (codes: string[]) => codes.map(code => ({ code, standard: db.getStandardByCode(code) }));
+      const looked = [...lookup(anchor_codes), ...lookup(include), ...lookup(exclude)];
+      const missing = looked.filter(({ standard }) => !standard).map(({ code }) => code);
+      if (missing.length > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Not Found',
+              message: `Standard not found: ${missing.join(', ')}`,
+              code: 'STANDARD_NOT_FOUND'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+      const anchors = anchor_codes.map(code => db.getStandardByCode(code)!);
+      const included = include.map(code => db.getStandardByCode(code)!);
+      const excludedKeys = new Set(exclude.map(code => unitKey(db.getStandardByCode(code)!)));
+
+      // Step 2: Anchors and required standards must fit, and must not be excluded
+      const required = [...anchors, ...included].filter((standard, i, all) =>
+        all.findIndex(other => unitKey(other) === unitKey(standard)) === i
+      );
+      const conflict = required.find(standard => excludedKeys.has(unitKey(standard)));
+      if (conflict || required.length > unit_size) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Invalid Unit',
+              message: conflict
+                ? `${conflict.code} is both required and excluded`
+                : `${required.length} anchor and required standards do not fit in a unit of ${unit_size}`,
+              code: 'INVALID_UNIT'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      // Step 3: Candidates from the grade bands of the required standards, minus exclusions
+      const gradeLevels = [...new Set(required.map(standard => standard.grade_level))];
+      const pool = gradeLevels
+        .flatMap(gradeLevel => db.getStandardsByGradeLevel(gradeLevel))
+        .filter(standard => !excludedKeys.has(unitKey(standard)));
+
+      // Step 4: Choose the unit with the best average pairwise score
+      const appliedWeights = resolveCompatibilityWeights(weights);
+      const plan = buildUnit(required, pool, unit_size, appliedWeights);
+
+      const anchorKeys = new Set(anchors.map(unitKey));
+      const includedKeys = new Set(included.map(unitKey));
+      const unit = plan.members.map(standard => ({
+        role: anchorKeys.has(unitKey(standard)) ? 'anchor' : includedKeys.has(unitKey(standard)) ? 'included' : 'suggested',
+        ...formatResponse(standard, detail_level as DetailLevel)
+      }));
+
+      const result = {
+        anchors: anchors.map(standard => standard.code),
+        unit,
+        coherence: plan.coherence,
+        matrix: {
+          codes: plan.members.map(standard => standard.code),
+          scores: plan.matrix
+        },
+        pairs: plan.pairs,
+        coverage: plan.coverage,
+        total_candidates: plan.candidates,
+        weights: appliedWeights
+      };
+
+      const tokens = getTokenMetadata(anchor_codes.join(', '), result);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            _metadata: { tokens }
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('build_unit error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Internal Error',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'INTERNAL_ERROR'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+//===========================================
+// Tool 19: generate_scope_and_sequence - Split standards into ordered units for a school year
+//===========================================
+server.registerTool(
+  'generate_scope_and_sequence',
+  {
+    title: 'Generate Scope and Sequence',
+    description: 'Split all loaded standards (or a grade band, or a chosen list) into a given number of units in teaching order for a school year. Standards are grouped by compatibility (shared domain, SEP, CCC, DCI, engineering pairing and content similarity, with tunable weights, as in build_unit), and units are ordered so that prerequisites in the curated prerequisite graph (e.g. MS-PS3-1 before MS-PS3-5) come first. Unit sizes and fixed placements (standard -> unit number) can be given. Each unit gets a rationale listing its shared DCIs and CCCs and the prerequisites it builds on',
+    inputSchema: {
+      unit_count: z.number()
+        .int()
+        .min(1)
+        .max(20)
+        .describe('Number of units in the year (1-20)'),
+      codes: z.array(
+        z.string()
+          .refine(isStandardCode, STANDARD_CODE_MESSAGE)
+          .describe('NGSS standard code (e.g., "MS-PS1-1") or a state code from a loaded overlay')
+      )
+        .min(1)
+        .optional()
+        .describe('Optional: standard codes to sequence (default: all loaded standards, or those of grade_level)'),
+      grade_level: z.enum(['ES', 'MS', 'HS'])
+        .optional()
+        .describe('Optional: sequence every standard of a grade band (ES = K-5, MS = 6-8, HS = 9-12); ignored when codes are given'),
+      unit_sizes: z.array(z.number().int().min(1))
+        .optional()
+        .describe('Optional: number of standards in each unit, in teaching order; one entry per unit, adding up to the number of standards (default: as even as possible)'),
+      placements: z.record(z.string().refine(isStandardCode, STANDARD_CODE_MESSAGE), z.number().int().min(1))
+        .optional()
+        .describe('Optional: fixed placements, standard code -> unit number (e.g. {"MS-ETS1-1": 8})'),
+      weights: z.object({
+        domain: z.number().min(0).max(10).optional(),
+        sep: z.number().min(0).max(10).optional(),
+        ccc: z.number().min(0).max(10).optional(),
+        dci: z.number().min(0).max(10).optional(),
+        engineering: z.number().min(0).max(10).optional(),
+        content: z.number().min(0).max(10).optional()
+      })
+        .optional()
+        .describe('Optional: points per signal, 0-10 (defaults: domain 3, sep 2, ccc 2, dci 1, engineering 4, content 4). content is multiplied by the content similarity (0-1)'),
+      detail_level: z.enum(['minimal', 'summary', 'full'])
+        .optional()
+        .default('minimal')
+        .describe('Detail level for each standard: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
+    }
+  },
+  async ({ unit_count, codes, grade_level, unit_sizes, placements = {}, weights, detail_level }) => {
+    try {
+      ensureInitialized();
+      const db = getDatabase();
+
+      // Step 1: Look up every code (404 listing the unknown ones)
+      const missing = [...(codes ?? []), ...Object.keys(placements)].filter(code => !db.getStandardByCode(code));
+      if (missing.length > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Not Found',
+              message: `Standard not found: ${[...new Set(missing)].join(', ')}`,
+              code: 'STANDARD_NOT_FOUND'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      // Step 2: The standards to sequence, each NGSS standard once
+      const selected = codes
+        ? codes.map(code => db.getStandardByCode(code)!)
+        : grade_level ? db.getStandardsByGradeLevel(grade_level) : db.getAllStandards();
+      const standards = selected.filter((standard, i) =>
+        selected.findIndex(other => unitKey(other) === unitKey(standard)) === i
+      );
+
+      // Step 3: Sizes and placements must fit the standards (every problem is reported at once)
+      const problems: string[] = [];
+      const sizes = unit_sizes ?? balancedUnitSizes(standards.length, unit_count);
+      const sizeTotal = sizes.reduce((sum, size) => sum + size, 0);
+      if (unit_count > standards.length) {
+        problems.push(`Cannot split ${standards.length} standards into ${unit_count} units`);
+      } else if (sizes.length !== unit_count || sizeTotal !== standards.length) {
+        problems.push(`unit_sizes must have ${unit_count} entries adding up to ${standards.length} (got ${sizes.length} adding up to ${sizeTotal})`);
+      }
+      const pins = new Map<string, number>();
+      for (const [code, unit] of Object.entries(placements)) {
+        const key = unitKey(db.getStandardByCode(code)!);
+        const standard = standards.find(s => unitKey(s) === key);
+        if (!standard) {
+          problems.push(`${code} is placed but is not among the standards to sequence`);
+        } else if (unit > unit_count) {
+          problems.push(`${code} is placed in unit ${unit}, but there are ${unit_count} units`);
+        } else {
+          pins.set(standard.code, unit - 1);
+        }
+      }
+      sizes.forEach((size, u) => {
+        const placed = [...pins.values()].filter(unit => unit === u).length;
+        if (placed > size) {
+          problems.push(`${placed} standards are placed in unit ${u + 1}, which holds ${size}`);
+        }
+      });
+      if (problems.length > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Invalid Sequence',
+              message: problems.join('; '),
+              code: 'INVALID_SEQUENCE'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      // Step 4: Group and order the units
+      const appliedWeights = resolveCompatibilityWeights(weights);
+      const sequence = generateScopeAndSequence(standards, {
+        unitSizes: sizes,
+        placements: pins,
+        weights: appliedWeights,
+        prerequisites: db.getPrerequisiteGraph()
+      });
+
+      const units = sequence.units.map(unit => ({
+        ...unit,
+        standards: formatResponseArray(unit.standards, detail_level as DetailLevel)
+      }));
+
+      const result = {
+        total_standards: standards.length,
+        unit_count,
+        units,
+        violations: sequence.violations,
+        weights: appliedWeights
+      };
+
+      const tokens = getTokenMetadata(JSON.stringify({ unit_count, codes, grade_level }), result);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            _metadata: { tokens }
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('generate_scope_and_sequence error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Internal Error',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'INTERNAL_ERROR'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+//===========================================
+// Tool 20: get_prerequisites - Standards to teach before and after a standard
+//===========================================
+server.registerTool(
+  'get_prerequisites',
+  {
+    title: 'Get Prerequisites',
+    description: 'Look up a standard in the curated prerequisite graph: its ancestors (standards to teach before it, e.g. MS-PS1-1 atoms and molecules before MS-LS1-6 photosynthesis) and its descendants (standards that build on it), directly or through other standards. Each result has its depth (1 = direct), the standard it leads to or from (via) and the reason for that edge. State codes are looked up as their NGSS standard',
+    inputSchema: {
+      code: z.string()
+        .refine(isStandardCode, STANDARD_CODE_MESSAGE)
+        .describe('NGSS or state standard code (e.g., "MS-LS1-6")'),
+      direction: z.enum(['ancestors', 'descendants', 'both'])
+        .optional()
+        .default('both')
+        .describe('ancestors (taught before), descendants (build on it) or both'),
+      max_depth: z.number()
+        .int()
+        .min(1)
+        .max(10)
+        .optional()
+        .describe('Optional: how many steps to follow (1 = direct prerequisites and dependents only; default: all)'),
+      detail_level: z.enum(['minimal', 'summary', 'full'])
+        .optional()
+        .default('minimal')
+        .describe('Detail level for each standard: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
+    }
+  },
+  async ({ code, direction, max_depth, detail_level }) => {
+    try {
+      ensureInitialized();
+      const db = getDatabase();
+
+      const standard = db.getStandardByCode(code);
+      if (!standard) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Not Found',
+              message: `Standard not found: ${code}`,
+              code: 'STANDARD_NOT_FOUND'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      const graph = db.getPrerequisiteGraph();
+      const related = (found: ReturnType<typeof graph.ancestors>) => found.map(({ code: relatedCode, depth, via, reason }) => ({
+        ...formatResponse(db.getStandardByCode(relatedCode)!, detail_level as DetailLevel),
+        depth,
+        via,
+        reason
+      }));
+      const ancestors = direction !== 'descendants' ? related(graph.ancestors(unitKey(standard), max_depth)) : null;
+      const descendants = direction !== 'ancestors' ? related(graph.descendants(unitKey(standard), max_depth)) : null;
+
+      const result = {
+        standard: formatResponse(standard, detail_level as DetailLevel),
+        direction,
+        ...(ancestors && { ancestors, total_ancestors: ancestors.length }),
+        ...(descendants && { descendants, total_descendants: descendants.length })
+      };
+
+      const tokens = getTokenMetadata(code, result);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            _metadata: { tokens }
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('get_prerequisites error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Internal Error',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'INTERNAL_ERROR'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+//===========================================
+// Tool 21: order_standards - Put a set of standards in prerequisite order
+//===========================================
+server.registerTool(
+  'order_standards',
+  {
+    title: 'Order Standards by Prerequisites',
+    description: 'Put a set of standards in an order where every prerequisite comes before the standards that need it (a topological order of the prerequisite graph). Standards keep the order given except where a prerequisite has to move first. Prerequisites through standards outside the set count too (MS-PS1-1 -> MS-PS1-2 -> MS-PS1-5 puts MS-PS1-1 before MS-PS1-5). Also returns levels (standards with no prerequisite in the set, then those needing only level 1, ...) and the prerequisite links used',
+    inputSchema: {
+      codes: z.array(
+        z.string()
+          .refine(isStandardCode, STANDARD_CODE_MESSAGE)
+          .describe('NGSS standard code (e.g., "MS-PS1-1") or a state code from a loaded overlay')
+      )
+        .min(1)
+        .describe('Standard codes to order (e.g., ["MS-LS1-7", "MS-PS1-1", "MS-LS1-6"])'),
+      detail_level: z.enum(['minimal', 'summary', 'full'])
+        .optional()
+        .default('minimal')
+        .describe('Detail level for each standard: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
+    }
+  },
+  async ({ codes, detail_level }) => {
+    try {
+      ensureInitialized();
+      const db = getDatabase();
+
+      // Look up every code (404 listing the unknown ones)
+      const missing = codes.filter(code => !db.getStandardByCode(code));
+      if (missing.length > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Not Found',
+              message: `Standard not found: ${[...new Set(missing)].join(', ')}`,
+              code: 'STANDARD_NOT_FOUND'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      // Each NGSS standard once, as the first code given for it
+      const byKey = new Map<string, Standard>();
+      codes.map(code => db.getStandardByCode(code)!).forEach(standard => {
+        if (!byKey.has(unitKey(standard))) {
+          byKey.set(unitKey(standard), standard);
+        }
+      });
+
+      const { order, levels, prerequisites } = db.getPrerequisiteGraph().order([...byKey.keys()]);
+      const levelOf = new Map(levels.flatMap((level, i) => level.map(key => [key, i + 1] as const)));
+
+      const result = {
+        total: order.length,
+        order: order.map(key => ({
+          ...formatResponse(byKey.get(key)!, detail_level as DetailLevel),
+          level: levelOf.get(key)!
+        })),
+        levels,
+        prerequisites
+      };
+
+      const tokens = getTokenMetadata(codes.join(', '), result);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            _metadata: { tokens }
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('order_standards error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Internal Error',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'INTERNAL_ERROR'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+//===========================================
+// Tool 22: check_sequence - Find prerequisite order violations in a planned sequence
+//===========================================
+server.registerTool(
+  'check_sequence',
+  {
+    title: 'Check Planned Sequence',
+    description: 'Check a teacher\'s planned teaching order against the prerequisite graph. The plan is a list of steps, each a standard code or a list of codes taught together (a unit); standards in the same step may come in either order. Reports every standard planned before one of its prerequisites (with the steps of both and the reason), direct prerequisites missing from the plan, and a suggested order that moves only what it must. State codes are checked as their NGSS standard',
+    inputSchema: {
+      sequence: z.array(z.union([
+        z.string().refine(isStandardCode, STANDARD_CODE_MESSAGE),
+        z.array(z.string().refine(isStandardCode, STANDARD_CODE_MESSAGE)).min(1)
+      ]))
+        .min(1)
+        .describe('Planned order: each entry is a code or a list of codes taught together, e.g. [["MS-PS1-1", "MS-PS1-2"], "MS-LS1-6", "MS-LS1-7"]')
+    }
+  },
+  async ({ sequence }) => {
+    try {
+      ensureInitialized();
+      const db = getDatabase();
+
+      const steps = sequence.map(step => Array.isArray(step) ? step : [step]);
+
+      // Step 1: Look up every code (404 listing the unknown ones)
+      const missing = steps.flat().filter(code => !db.getStandardByCode(code));
+      if (missing.length > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Not Found',
+              message: `Standard not found: ${[...new Set(missing)].join(', ')}`,
+              code: 'STANDARD_NOT_FOUND'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      // Step 2: Each NGSS standard may only be planned once
+      const planned = new Map<string, number>();
+      const problems: string[] = [];
+      steps.forEach((step, i) => step.forEach(code => {
+        const key = unitKey(db.getStandardByCode(code)!);
+        const first = planned.get(key);
+        if (first === undefined) {
+          planned.set(key, i + 1);
+        } else {
+          problems.push(`${key} is planned in step ${first} and again in step ${i + 1}`);
+        }
+      }));
+      if (problems.length > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Invalid Sequence',
+              message: problems.join('; '),
+              code: 'INVALID_SEQUENCE'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      // Step 3: Compare the plan with the graph
+      const graph = db.getPrerequisiteGraph();
+      const keySteps = steps.map(step => step.map(code => unitKey(db.getStandardByCode(code)!)));
+      const { violations, missing: missingPrerequisites } = graph.checkSequence(keySteps);
+
+      const result = {
+        valid: violations.length === 0,
+        total_steps: steps.length,
+        total_standards: planned.size,
+        violations,
+        missing_prerequisites: missingPrerequisites,
+        ...(violations.length > 0 && { suggested_order: graph.order(keySteps.flat()).order })
+      };
+
+      const tokens = getTokenMetadata(JSON.stringify(sequence), result);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            _metadata: { tokens }
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('check_sequence error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Internal Error',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'INTERNAL_ERROR'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+//===========================================
+// Tool 23: analyze_coverage - Gaps left by a planned set of standards
+//===========================================
+server.registerTool(
+  'analyze_coverage',
+  {
+    title: 'Analyze Coverage Gaps',
+    description: 'Audit the standards a teacher or school has planned: which standards are not yet planned and the percentage covered per domain, which SEP categories, CCC categories and DCI components no planned standard addresses, and the fewest extra standards that would cover every one of those SEP, CCC and DCI gaps. Categories and components that no standard in scope addresses are listed as unavailable rather than as gaps. The scope is the grade bands of the planned standards unless grade_level is given',
+    inputSchema: {
+      codes: z.array(
+        z.string()
+          .refine(isStandardCode, STANDARD_CODE_MESSAGE)
+          .describe('NGSS standard code (e.g., "MS-PS1-1") or a state code from a loaded overlay')
+      )
+        .min(1)
+        .describe('Planned standard codes (e.g., ["MS-PS1-1", "MS-PS3-1", "MS-LS1-1"])'),
+      grade_level: z.enum(['ES', 'MS', 'HS'])
+        .optional()
+        .describe('Optional: grade band to measure coverage against (ES = K-5, MS = 6-8, HS = 9-12). Default: the grade bands of the planned standards'),
+      detail_level: z.enum(['minimal', 'summary', 'full'])
+        .optional()
+        .default('minimal')
+        .describe('Detail level for each suggested standard: minimal (code, topic, PE 50 chars), summary (+ keywords top 3, PE 150 chars), full (complete standard)')
+    }
+  },
+  async ({ codes, grade_level, detail_level }) => {
+    try {
+      ensureInitialized();
+      const db = getDatabase();
+
+      // Step 1: Look up every code (404 listing the unknown ones)
+      const missing = codes.filter(code => !db.getStandardByCode(code));
+      if (missing.length > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Not Found',
+              message: `Standard not found: ${[...new Set(missing)].join(', ')}`,
+              code: 'STANDARD_NOT_FOUND'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      // Step 2: The planned standards, each NGSS standard once
+      const selected = codes.map(code => db.getStandardByCode(code)!);
+      const planned = selected.filter((standard, i) =>
+        selected.findIndex(other => unitKey(other) === unitKey(standard)) === i
+      );
+
+      // Step 3: Standards in scope, grouped through the domain index
+      const gradeLevels = grade_level ? [grade_level] : [...new Set(planned.map(standard => standard.grade_level))];
+      const scope = new Map(Object.values(DOMAIN_MAP)
+        .map(domain => [domain, gradeLevels.flatMap(gradeLevel => db.searchByDomain(domain, { gradeLevel }))] as const)
+        .filter(([, standards]) => standards.length > 0));
+      const outsideScope = planned.filter(standard => !gradeLevels.includes(standard.grade_level)).map(standard => standard.code);
+
+      const report = analyzeCoverage(planned, scope);
+
+      const result = {
+        grade_levels: gradeLevels,
+        standards: report.standards,
+        domains: report.domains,
+        practices: report.practices,
+        crosscutting_concepts: report.crosscutting_concepts,
+        core_ideas: report.core_ideas,
+        suggestions: report.suggestions.map(({ standard, closes }) => ({
+          ...formatResponse(standard, detail_level as DetailLevel),
+          closes
+        })),
+        suggestions_minimal: report.minimal,
+        ...(outsideScope.length > 0 && { outside_scope: outsideScope })
+      };
+
+      const tokens = getTokenMetadata(codes.join(', '), result);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            _metadata: { tokens }
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      console.error('analyze_coverage error:', error);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Internal Error',
+            message: error instanceof Error ? error.message : String(error),
+            code: 'INTERNAL_ERROR'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Server lifecycle management
+let isShuttingDown = false;
+
+async function shutdown() {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+
+  console.error('📴 Shutting down gracefully...');
+  try {
+    await server.close();
+  } catch (error) {
+    console.error('Shutdown error:', error);
+  }
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+// Start server
+async function main() {
+  if (!isInitialized) {
+    console.error('❌ Cannot start server: database initialization failed');
+    process.exit(1);
+  }
+
+  const transport = new StdioServerTransport();
+
+  transport.onerror = (error) => {
+    if (!isShuttingDown) {
+      console.error('❌ Transport error:', error);
+    }
+  };
+
+  await server.connect(transport);
+  console.error('🚀 NGSS MCP Server running on stdio');
+
+  if (process.env.NGSS_WATCH_DATA !== 'false') {
+    watchDatabaseFiles();
+    console.error('👀 Watching data files for changes (set NGSS_WATCH_DATA=false to disable)');
+  }
   console.error('📚 Available tools: get_standard, search_by_domain, get_3d_components, search_standards');
 }
 
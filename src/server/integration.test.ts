@@ -4,11 +4,23 @@
  */
 
 import { describe, test, expect, beforeAll } from 'bun:test';
-import { initializeDatabase, getDatabase } from './database.js';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initializeDatabase, getDatabase, reloadDatabase, onDatabaseReload, NGSSDatabase } from './database.js';
+import { QueryValidator } from './query-validation.js';
+import { formatSearchResult } from './highlighter.js';
+import { tokenize, SEARCH_FIELDS, type SearchField } from './search-index.js';
+import { semanticChecksum } from './semantic-index.js';
+import { ALIGNMENT_WEIGHTS } from './lesson-alignment.js';
+import { scoreCompatibility, resolveCompatibilityWeights, buildUnit } from './unit-planning.js';
+import { generateScopeAndSequence, balancedUnitSizes } from './scope-sequence.js';
+import { analyzeCoverage } from './coverage-analysis.js';
 import { formatResponse, formatResponseArray } from './response-formatter.js';
 import { getTokenMetadata } from './token-counter.js';
-import type { DetailLevel } from '../types/ngss.js';
+import { DOMAIN_MAP, ENGINEERING_INTEGRATED_STANDARDS, LESSON_SCOPE_FILE, PATTERNS, StandardSchema, type DetailLevel, type Standard, type SemanticVectorFile } from '../types/ngss.js';
 import { SEP_VALUES, CCC_VALUES, DCI_VALUES } from '../constants/enum-values.js';
+import { SEP_CATEGORIES, CCC_CATEGORIES, findCategory, categoryForElement } from '../constants/taxonomy.js';
 
 describe('Integration Tests - MCP Tools with Detail Levels', () => {
   beforeAll(() => {
@@ -26,7 +38,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       const db = getDatabase();
       const standards = db.getAllStandards();
 
-      expect(standards.length).toBe(55);
+      expect(standards.length).toBe(59);
 
       standards.forEach((s, i) => {
         expect(s.sep, `Standard ${i} (${s.code}) missing sep object`).toBeDefined();
@@ -41,10 +53,15 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       const standards = db.getAllStandards();
 
       standards.forEach((s, i) => {
+        // Engineering design PEs draw on no crosscutting concept
+        if (/-ETS1-/.test(s.code)) {
+          expect(s.ccc, `Standard ${i} (${s.code}) has a ccc object`).toBeUndefined();
+          return;
+        }
         expect(s.ccc, `Standard ${i} (${s.code}) missing ccc object`).toBeDefined();
-        expect(s.ccc.name, `Standard ${i} (${s.code}) missing ccc.name`).toBeDefined();
-        expect(typeof s.ccc.name, `Standard ${i} (${s.code}) ccc.name not string`).toBe('string');
-        expect(s.ccc.name.length, `Standard ${i} (${s.code}) ccc.name empty`).toBeGreaterThan(0);
+        expect(s.ccc!.name, `Standard ${i} (${s.code}) missing ccc.name`).toBeDefined();
+        expect(typeof s.ccc!.name, `Standard ${i} (${s.code}) ccc.name not string`).toBe('string');
+        expect(s.ccc!.name.length, `Standard ${i} (${s.code}) ccc.name empty`).toBeGreaterThan(0);
       });
     });
 
@@ -72,7 +89,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       const standards = db.getAllStandards();
 
       const uniqueCCCs = new Set<string>();
-      standards.forEach(s => uniqueCCCs.add(s.ccc.name));
+      standards.forEach(s => s.ccc && uniqueCCCs.add(s.ccc.name));
 
       const cccArray = Array.from(uniqueCCCs).sort();
 
@@ -144,8 +161,10 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       const normalizedCCCs = new Set<string>();
 
       standards.forEach(s => {
-        rawCCCs.add(s.ccc.name);
-        normalizedCCCs.add(normalize(s.ccc.name));
+        if (s.ccc) {
+          rawCCCs.add(s.ccc.name);
+          normalizedCCCs.add(normalize(s.ccc.name));
+        }
       });
 
       console.log('\n=== CCC WHITESPACE ANALYSIS ===');
@@ -333,6 +352,177 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
         expect((result as any).keywords.length).toBeLessThanOrEqual(3);
       });
     });
+
+    test('should match singular and plural query terms identically', () => {
+      const db = getDatabase();
+      const codes = (query: string) => db.searchStandards(query, { limit: 20 }).map(r => r.standard.code);
+
+      expect(codes('chemical reactions')).toEqual(codes('chemical reaction'));
+      expect(codes('chemical reactions')).toContain('MS-PS1-2');
+    });
+
+    test('should find standards worded differently from the query through the search vocabulary', () => {
+      const db = getDatabase();
+      const top = (query: string) => db.searchStandards(query, { limit: 3 }).map(r => r.standard.code);
+
+      expect(top('heat')).toContain('MS-PS3-3');
+      expect(top('earthquakes')).toContain('MS-ESS3-2');
+      expect(db.searchStandards('food web', { limit: 10 }).map(r => r.standard.code)).toContain('MS-LS2-2');
+    });
+
+    test('should match misspelled terms to the closest indexed term', () => {
+      const db = getDatabase();
+
+      expect(db.searchStandards('photosinthesis').map(r => r.standard.code)).toEqual(['MS-LS1-6']);
+      expect(db.searchStandards('ecosytem').map(r => r.standard.code))
+        .toEqual(db.searchStandards('ecosystem').map(r => r.standard.code));
+    });
+
+    test('should suggest corrected queries for misspellings', () => {
+      const db = getDatabase();
+
+      expect(db.suggestQueries('photosinthesis')).toEqual(['photosynthesis']);
+      expect(db.suggestQueries('chemcal reactons')).toEqual(['chemical reactions']);
+      expect(db.suggestQueries('photosynthesis')).toEqual([]);
+      expect(db.suggestQueries('xyzzy plover')).toEqual([]);
+    });
+
+    test('should exclude standards matching NOT or -term', () => {
+      const db = getDatabase();
+      const codes = (query: string) => db.searchStandards(query, { limit: 100 }).map(r => r.standard.code);
+
+      expect(codes('energy')).toContain('MS-PS4-1');
+      expect(codes('energy NOT waves')).not.toContain('MS-PS4-1');
+      expect(codes('energy -waves')).toEqual(codes('energy NOT waves'));
+      expect(codes('energy NOT waves').length).toBe(codes('energy').length - 1);
+    });
+
+    test('should require every AND operand and phrase words in order', () => {
+      const db = getDatabase();
+      const codes = (query: string) => db.searchStandards(query, { limit: 100 }).map(r => r.standard.code);
+
+      expect(codes('energy AND waves')).toEqual(['MS-PS4-1']);
+      expect(codes('"thermal energy"').sort()).toEqual(['MS-PS1-4', 'MS-PS1-6', 'MS-PS3-3']);
+      expect(codes('"energy thermal"')).toEqual([]);
+    });
+
+    test('should scope terms to a field and rank within the scope with plain words', () => {
+      const db = getDatabase();
+      const codes = (query: string) => db.searchStandards(query, { limit: 100 }).map(r => r.standard.code);
+
+      const naturalSelection = db.getAllStandards()
+        .filter(s => s.dcis.some(d => d.name === 'Natural Selection'))
+        .map(s => s.code);
+      expect(codes('dci:"Natural Selection"').sort()).toEqual(naturalSelection.sort());
+      expect(codes('dci:"Natural Selection" model').sort()).toEqual(naturalSelection.sort());
+      expect(codes('topic:ecosystems').every(code => code.startsWith('MS-LS'))).toBe(true);
+    });
+
+    test('should match code patterns', () => {
+      const db = getDatabase();
+      const codes = db.searchStandards('code:MS-LS1*', { limit: 100 }).map(r => r.standard.code);
+
+      expect(codes).toEqual(db.getAllStandards().filter(s => s.code.startsWith('MS-LS1-')).map(s => s.code).sort());
+      expect(db.searchStandards('code:MS-LS* photosynthesis')[0]!.standard.code).toBe('MS-LS1-6');
+    });
+
+    test('should report syntax errors as structured validation errors with one position base', () => {
+      const validation = QueryValidator.validateSearchQuery('energy AND (waves');
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.position).toBe(11);
+      expect(validation.error).toBe('Invalid query syntax at position 11: Missing closing parenthesis');
+      expect(validation.error).toContain(`position ${validation.position}:`);
+      expect(() => getDatabase().searchStandards('energy AND (waves')).toThrow('Missing closing parenthesis');
+    });
+
+    test('should return the parsed query for valid syntax', () => {
+      const validation = QueryValidator.validateSearchQuery('  energy -sound ');
+
+      expect(validation.isValid).toBe(true);
+      expect(validation.sanitized).toBe('energy -sound');
+      expect(validation.query?.type).toBe('group');
+    });
+
+    test('should collect the terms to highlight from the query', () => {
+      const db = getDatabase();
+
+      expect(db.searchTerms('photosynthesis')).toEqual(['photosynthesis']);
+      expect(db.searchTerms('heat NOT sound')).toEqual(expect.arrayContaining(['heat', ...tokenize('thermal energy')]));
+      expect(db.searchTerms('heat NOT sound')).not.toContain('sound');
+      expect(db.searchTerms('photosynthsis code:MS-LS*')).toEqual(['photosynthesis']);
+      expect(db.searchTerms('energy AND (waves')).toEqual([]);
+    });
+
+    test('should highlight the matches of each result', () => {
+      const db = getDatabase();
+      const terms = db.searchTerms('"natural selection"');
+      const [top] = db.searchStandards('"natural selection"');
+      const result = formatSearchResult(top!.standard, 'minimal', terms, top!.score);
+
+      expect(result.performance_expectation).toContain('**natural selection**');
+      expect(result.highlights.matched_fields).toContain('dci');
+      expect(result.highlights.elements).toContainEqual(expect.objectContaining({ dimension: 'dci', code: 'LS4.B', name: '**Natural Selection**' }));
+    });
+
+    test('should accept additional vocabulary entries', () => {
+      const db = new NGSSDatabase();
+      expect(db.searchStandards('quantum tunnelling')).toEqual([]);
+
+      db.addVocabulary({ 'quantum tunnelling': ['photosynthesis'] });
+      expect(db.searchStandards('quantum tunnelling')[0]!.standard.code).toBe('MS-LS1-6');
+    });
+
+    test('should find 3D description and lesson scope wording', () => {
+      const db = getDatabase();
+      const codes = (query: string, options: Parameters<typeof db.searchStandards>[1] = {}) =>
+        db.searchStandards(query, { limit: 100, ...options }).map(r => r.standard.code);
+
+      expect(codes('"regrouped into different molecules"').sort()).toEqual(['MS-PS1-2', 'MS-PS1-3', 'MS-PS1-5', 'MS-PS1-6']);
+      expect(codes('"stop moving in a solid"')).toEqual(['MS-PS1-4']);
+
+      const [top] = db.searchStandards('"stop moving in a solid"');
+      const terms = db.searchTerms('"stop moving in a solid"');
+      expect(formatSearchResult(top!.standard, 'minimal', terms, top!.score).highlights.matched_fields).toEqual(['lesson_scope']);
+    });
+
+    test('should limit plain words and phrases to the requested fields', () => {
+      const db = getDatabase();
+      const codes = (query: string, options: Parameters<typeof db.searchStandards>[1] = {}) =>
+        db.searchStandards(query, { limit: 100, ...options }).map(r => r.standard.code);
+
+      expect(codes('regrouped molecules', { fields: ['dci_description'] })).toContain('MS-PS1-5');
+      expect(codes('regrouped', { fields: ['performance_expectation', 'topic'] })).toEqual([]);
+      expect(codes('"thermal energy"', { fields: ['performance_expectation'] }).sort()).toEqual(['MS-PS1-4', 'MS-PS1-6', 'MS-PS3-3']);
+
+      // Field prefixes keep their own field
+      expect(codes('dci:"Natural Selection"', { fields: ['lesson_scope'] })).toEqual(codes('dci:"Natural Selection"'));
+    });
+
+    test('should apply field weight overrides, 0 ignoring a field', () => {
+      const db = getDatabase();
+      const score = (code: string, options: Parameters<typeof db.searchStandards>[1] = {}) =>
+        db.searchStandards('regrouped', { limit: 100, ...options }).find(r => r.standard.code === code)?.score;
+
+      expect(score('MS-PS1-5', { weights: { dci_description: 2 } })!).toBeGreaterThan(score('MS-PS1-5')!);
+      expect(score('MS-PS1-5', { weights: { dci_description: 0 } })).toBeUndefined();
+    });
+
+    test('should reject unknown fields and out-of-range weights', () => {
+      const db = getDatabase();
+
+      expect(() => db.searchStandards('energy', { fields: [] })).toThrow('at least one field');
+      expect(() => db.searchStandards('energy', { fields: ['title' as never] })).toThrow('Unknown field title');
+      expect(() => db.searchStandards('energy', { weights: { topic: -1 } })).toThrow('between 0 and 10');
+    });
+
+    test('should reindex the lesson scope a curated file replaces', () => {
+      const db = new NGSSDatabase(join(process.cwd(), 'data', 'ngss-ms-standards.json'));
+      expect(db.searchStandards('"stop moving in a solid"')).toEqual([]);
+
+      db.loadLessonScopes(join(process.cwd(), LESSON_SCOPE_FILE));
+      expect(db.searchStandards('"stop moving in a solid"').map(r => r.standard.code)).toEqual(['MS-PS1-4']);
+    });
   });
 
   /**
@@ -489,8 +679,8 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
         };
       });
 
-      // Verify we have results for all 10 SEPs
-      expect(results.length).toBe(10);
+      // Verify we have results for all 13 SEPs
+      expect(results.length).toBe(13);
 
       // Verify total across all SEPs equals total standards
       const totalAcrossAllSEPs = results.reduce((sum, r) => sum + r.count, 0);
@@ -523,7 +713,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       const allStandards = db.getAllStandards();
 
       CCC_VALUES.forEach(concept => {
-        const filtered = allStandards.filter(s => s.ccc.name === concept);
+        const filtered = allStandards.filter(s => s.ccc?.name === concept);
         // Each CCC should have at least 1 standard
         expect(Array.isArray(filtered)).toBe(true);
       });
@@ -534,11 +724,11 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       const allStandards = db.getAllStandards();
 
       const concept = 'Patterns can be used to identify cause and effect relationships.';
-      const filtered = allStandards.filter(s => s.ccc.name === concept);
+      const filtered = allStandards.filter(s => s.ccc?.name === concept);
 
       expect(filtered.length).toBeGreaterThan(0);
       filtered.forEach(s => {
-        expect(s.ccc.name).toBe(concept);
+        expect(s.ccc!.name).toBe(concept);
       });
     });
 
@@ -549,7 +739,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       const db = getDatabase();
       const allStandards = db.getAllStandards();
 
-      const filtered = allStandards.filter(s => s.ccc.name === invalidConcept);
+      const filtered = allStandards.filter(s => s.ccc?.name === invalidConcept);
       expect(filtered.length).toBe(0);
     });
 
@@ -558,7 +748,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       const allStandards = db.getAllStandards();
 
       const concept = 'Patterns can be used to identify cause and effect relationships.';
-      const filtered = allStandards.filter(s => s.ccc.name === concept);
+      const filtered = allStandards.filter(s => s.ccc?.name === concept);
 
       const formatted = formatResponseArray(filtered, 'minimal');
       formatted.forEach(std => {
@@ -575,7 +765,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       const allStandards = db.getAllStandards();
 
       const concept = 'Patterns can be used to identify cause and effect relationships.';
-      const filtered = allStandards.filter(s => s.ccc.name === concept);
+      const filtered = allStandards.filter(s => s.ccc?.name === concept);
 
       const formatted = formatResponseArray(filtered, 'summary');
       formatted.forEach(std => {
@@ -592,7 +782,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       const allStandards = db.getAllStandards();
 
       const concept = 'Patterns can be used to identify cause and effect relationships.';
-      const filtered = allStandards.filter(s => s.ccc.name === concept);
+      const filtered = allStandards.filter(s => s.ccc?.name === concept);
 
       const formatted = formatResponseArray(filtered, 'full');
       formatted.forEach(std => {
@@ -610,12 +800,12 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
 
       // Test with a valid CCC (all should have matches, but test structure)
       CCC_VALUES.forEach(concept => {
-        const filtered = allStandards.filter(s => s.ccc.name === concept);
+        const filtered = allStandards.filter(s => s.ccc?.name === concept);
         const formatted = formatResponseArray(filtered, 'full');
         expect(Array.isArray(formatted)).toBe(true);
         // All filtered results should match the concept
         filtered.forEach(s => {
-          expect(s.ccc.name).toBe(concept);
+          expect(s.ccc!.name).toBe(concept);
         });
       });
     });
@@ -625,7 +815,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       const allStandards = db.getAllStandards();
 
       CCC_VALUES.forEach(concept => {
-        const filtered = allStandards.filter(s => s.ccc.name === concept);
+        const filtered = allStandards.filter(s => s.ccc?.name === concept);
         const total = filtered.length;
 
         const formatted = formatResponseArray(filtered, 'full');
@@ -638,7 +828,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       const allStandards = db.getAllStandards();
 
       CCC_VALUES.forEach(concept => {
-        const filtered = allStandards.filter(s => s.ccc.name === concept);
+        const filtered = allStandards.filter(s => s.ccc?.name === concept);
         const formatted = formatResponseArray(filtered, 'summary');
 
         // Simulated response structure
@@ -657,7 +847,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       const allStandards = db.getAllStandards();
 
       const results = CCC_VALUES.map(concept => {
-        const filtered = allStandards.filter(s => s.ccc.name === concept);
+        const filtered = allStandards.filter(s => s.ccc?.name === concept);
         return {
           concept,
           count: filtered.length
@@ -667,20 +857,21 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       // Verify we have results for all 8 CCCs
       expect(results.length).toBe(8);
 
-      // Verify total across all CCCs equals total standards
+      // Verify total across all CCCs equals total standards with a crosscutting concept
+      // (engineering standards draw on none of the seven, see ETS standards below)
       const totalAcrossAllCCCs = results.reduce((sum, r) => sum + r.count, 0);
-      expect(totalAcrossAllCCCs).toBe(allStandards.length);
+      expect(totalAcrossAllCCCs).toBe(allStandards.filter(s => s.ccc !== undefined).length);
     });
 
     test('Data Quality: Verify all standards have ccc.name field', () => {
       const db = getDatabase();
       const allStandards = db.getAllStandards();
 
-      allStandards.forEach(s => {
+      allStandards.filter(s => !/-ETS1-/.test(s.code)).forEach(s => {
         expect(s.ccc).toBeDefined();
-        expect(s.ccc.name).toBeDefined();
-        expect(typeof s.ccc.name).toBe('string');
-        expect(s.ccc.name.length).toBeGreaterThan(0);
+        expect(s.ccc!.name).toBeDefined();
+        expect(typeof s.ccc!.name).toBe('string');
+        expect(s.ccc!.name.length).toBeGreaterThan(0);
       });
     });
   });
@@ -849,8 +1040,8 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
         };
       });
 
-      // Verify we have results for all 35 DCIs
-      expect(results.length).toBe(35);
+      // Verify we have results for all 38 DCIs
+      expect(results.length).toBe(38);
 
       // Verify total across all DCIs equals total standards
       const totalAcrossAllDCIs = results.reduce((sum, r) => sum + r.count, 0);
@@ -1046,6 +1237,42 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       });
     });
 
+    describe('True totals', () => {
+      test('should return every domain standard when no limit is given', () => {
+        const db = getDatabase();
+
+        expect(db.searchByDomain('Physical Science').length).toBe(19);
+        expect(db.searchByDomain('Physical Science', { offset: 15 }).length).toBe(4);
+      });
+
+      test('should report the total matches of a search page', () => {
+        const db = getDatabase();
+        const all = db.searchStandards('energy', { limit: 100 });
+        const page = db.searchStandardsPage('energy', { offset: 5, limit: 5 });
+
+        expect(all.length).toBeGreaterThan(10);
+        expect(page.total).toBe(all.length);
+        expect(page.results.map(r => r.standard.code)).toEqual(all.slice(5, 10).map(r => r.standard.code));
+        expect(db.searchStandardsPage('xyzzy')).toEqual({ results: [], total: 0 });
+      });
+
+      test('should page similar standards and lesson candidates with their totals', () => {
+        const db = getDatabase();
+        const text = 'students race toy cars down a ramp and measure their speed';
+        const similar = db.findSimilarStandards(text, { limit: 20 });
+        const second = db.findSimilarStandards(text, { offset: 3, limit: 3 });
+
+        expect(second.total).toBe(similar.total);
+        expect(second.matches.map(m => m.standard.code)).toEqual(similar.matches.slice(3, 6).map(m => m.standard.code));
+
+        const lesson = 'Students heat ice in a beaker and graph the temperature every minute.';
+        const candidates = db.alignLesson(lesson, { limit: 20 });
+        const page = db.alignLesson(lesson, { offset: 2, limit: 2 });
+        expect(page.total).toBe(candidates.total);
+        expect(page.alignments.map(a => a.standard.code)).toEqual(candidates.alignments.slice(2, 4).map(a => a.standard.code));
+      });
+    });
+
     describe('Edge cases', () => {
       test('should handle zero offset with small limit', () => {
         const db = getDatabase();
@@ -1075,6 +1302,25 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
 
         expect(results).toEqual([]);
       });
+
+      test('should track a query with no searchable terms', () => {
+        const db = new NGSSDatabase();
+        const results = db.searchStandards('the of', { offset: 0, limit: 10 });
+
+        expect(results).toEqual([]);
+        expect(db.getQueryMetrics().queriesByMethod.searchStandards).toBe(1);
+      });
+
+      test('should search hyphenated words as a phrase', () => {
+        const db = getDatabase();
+        const codes = (query: string) => db.searchStandards(query, { limit: 10 }).map(r => r.standard.code);
+
+        // "scale" alone matches many standards; "small-scale" only the one saying so, "scale-small" none
+        expect(codes('scale').length).toBeGreaterThan(2);
+        expect(codes('small-scale')).toEqual(['MS-ESS2-2']);
+        expect(codes('large-scale')).toEqual(['MS-ESS2-2', 'MS-ESS2-3']);
+        expect(codes('scale-small')).toEqual([]);
+      });
     });
   });
 
@@ -1097,7 +1343,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
           code: c.code,
           score: (anchor!.domain === c.domain ? 3 : 0) +
                  (anchor!.sep.name === c.sep.name ? 2 : 0) +
-                 (anchor!.ccc.name === c.ccc.name ? 2 : 0) +
+                 (anchor!.ccc!.name === c.ccc?.name ? 2 : 0) +
                  (anchor!.dci.name === c.dci.name ? 1 : 0)
         }));
 
@@ -1114,7 +1360,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
         const anchor = allStandards[0];
         const candidates = allStandards.filter(s => s.code !== anchor.code);
 
-        expect(candidates.length).toBe(54); // 55 - 1 anchor
+        expect(candidates.length).toBe(58); // 59 - 1 anchor
       });
 
       test('should return suggestions for valid anchor with unit_size=5', () => {
@@ -1214,11 +1460,11 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
         const allStandards = db.getAllStandards();
 
         const sameCCC = allStandards.find(s =>
-          s.code !== 'MS-PS3-1' && s.ccc.name === anchor.ccc.name
+          s.code !== 'MS-PS3-1' && s.ccc?.name === anchor.ccc!.name
         );
 
         if (sameCCC) {
-          const cccMatch = anchor.ccc.name === sameCCC.ccc.name ? 2 : 0;
+          const cccMatch = anchor.ccc!.name === sameCCC.ccc!.name ? 2 : 0;
           expect(cccMatch).toBe(2);
         } else {
           expect(0).toBe(0);
@@ -1250,7 +1496,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
         const score =
           (anchor.domain === candidate.domain ? 3 : 0) +
           (anchor.sep.name === candidate.sep.name ? 2 : 0) +
-          (anchor.ccc.name === candidate.ccc.name ? 2 : 0) +
+          (anchor.ccc!.name === candidate.ccc!.name ? 2 : 0) +
           (anchor.dci.name === candidate.dci.name ? 1 : 0);
 
         expect(score).toBeGreaterThanOrEqual(0);
@@ -1270,7 +1516,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
           code: c.code,
           score: (anchor.domain === c.domain ? 3 : 0) +
                  (anchor.sep.name === c.sep.name ? 2 : 0) +
-                 (anchor.ccc.name === c.ccc.name ? 2 : 0) +
+                 (anchor.ccc!.name === c.ccc?.name ? 2 : 0) +
                  (anchor.dci.name === c.dci.name ? 1 : 0)
         }));
 
@@ -1329,6 +1575,44 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       });
     });
 
+    // Caller-tunable weights and content similarity
+    describe('Tunable Weights', () => {
+      const rank = (code: string, weights = resolveCompatibilityWeights()) => {
+        const db = getDatabase();
+        const anchor = db.getStandardByCode(code)!;
+        return db.getStandardsByGradeLevel(anchor.grade_level)
+          .filter(s => s.code !== anchor.code)
+          .map(candidate => scoreCompatibility(anchor, candidate, weights))
+          .sort((a, b) => b.score - a.score || a.standard.code.localeCompare(b.standard.code));
+      };
+
+      test('should break ties between equal 3D matches by content similarity', () => {
+        const top = rank('MS-PS3-1').slice(0, 3);
+
+        // All three share domain, SEP, CCC and DCI (8 points) and differ only in content
+        expect(top.map(r => r.standard.code)).toEqual(['MS-PS3-4', 'MS-PS3-2', 'MS-PS3-3']);
+        expect(new Set(top.map(r => r.score)).size).toBe(3);
+        expect(top[0]!.shared.terms).toEqual(expect.arrayContaining(['kinetic', 'energy']));
+      });
+
+      test('should give a content-focused unit when only content is weighted', () => {
+        const weights = resolveCompatibilityWeights({ domain: 0, sep: 0, ccc: 0, dci: 0, engineering: 0, content: 10 });
+        const top = rank('MS-PS3-1', weights).slice(0, 2);
+
+        expect(top.map(r => r.standard.code)).toEqual(['MS-PS3-5', 'MS-PS3-4']);
+        expect(top[0]!.score).toBe(top[0]!.breakdown.content_similarity);
+      });
+
+      test('should give a practice-focused unit when only SEPs are weighted', () => {
+        const weights = resolveCompatibilityWeights({ domain: 0, sep: 5, ccc: 0, dci: 0, engineering: 0, content: 0 });
+        const anchor = getDatabase().getStandardByCode('MS-PS3-1')!;
+        const top = rank('MS-PS3-1', weights).slice(0, 4);
+
+        expect(top.every(r => r.score === 5)).toBe(true);
+        top.forEach(r => expect(r.shared.seps).toContain(anchor.seps[0]!.name));
+      });
+    });
+
     // AC-7.7: Tool respects detail_level parameter
     describe('Detail Level (AC-7.7)', () => {
       test('should accept minimal detail_level', () => {
@@ -1355,7 +1639,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
         const allStandards = db.getAllStandards();
         const candidates = allStandards.filter(s => s.code !== 'MS-PS3-1');
 
-        expect(candidates.length).toBe(54); // 55 - 1 anchor
+        expect(candidates.length).toBe(58); // 59 - 1 anchor
         expect(candidates.some(c => c.code === 'MS-PS3-1')).toBe(false);
       });
     });
@@ -1375,11 +1659,11 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
         expect(suggestions.length).toBeLessThanOrEqual(candidates.length);
       });
 
-      test('should handle unit_size=8 with only 55 total standards', () => {
+      test('should handle unit_size=8 with only 59 total standards', () => {
         const db = getDatabase();
         const allStandards = db.getAllStandards();
 
-        expect(allStandards.length).toBe(55);
+        expect(allStandards.length).toBe(59);
 
         const maxSuggestions = 8 - 1; // 7 suggestions for unit_size=8
         expect(maxSuggestions).toBe(7);
@@ -1392,28 +1676,28 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
   describe('Story 1.4: Integration Tests (Data Validation + Regression)', () => {
     // Task 1: Data Validation Tests (Per ADR-001: Single Objects)
     describe('Data Validation: Single Object Model (ADR-001)', () => {
-      test('all 55 standards have sep.name (non-empty string)', () => {
+      test('all 59 standards have sep.name (non-empty string)', () => {
         const db = getDatabase();
         const standards = db.getAllStandards();
 
-        expect(standards.length).toBe(55);
+        expect(standards.length).toBe(59);
         standards.forEach(s => {
           expect(typeof s.sep?.name).toBe('string');
           expect(s.sep.name.length).toBeGreaterThan(0);
         });
       });
 
-      test('all 55 standards have ccc.name (non-empty string)', () => {
+      test('all 59 standards have ccc.name (non-empty string)', () => {
         const db = getDatabase();
         const standards = db.getAllStandards();
 
-        standards.forEach(s => {
+        standards.filter(s => !/-ETS1-/.test(s.code)).forEach(s => {
           expect(typeof s.ccc?.name).toBe('string');
-          expect(s.ccc.name.length).toBeGreaterThan(0);
+          expect(s.ccc!.name.length).toBeGreaterThan(0);
         });
       });
 
-      test('all 55 standards have dci.name (non-empty string)', () => {
+      test('all 59 standards have dci.name (non-empty string)', () => {
         const db = getDatabase();
         const standards = db.getAllStandards();
 
@@ -1423,12 +1707,12 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
         });
       });
 
-      test('all standard codes are unique (Set size === 55)', () => {
+      test('all standard codes are unique (Set size === 59)', () => {
         const db = getDatabase();
         const standards = db.getAllStandards();
         const codes = new Set(standards.map(s => s.code));
 
-        expect(codes.size).toBe(55);
+        expect(codes.size).toBe(59);
       });
     });
 
@@ -1490,11 +1774,11 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
 
         // Tool 6: search_by_crosscutting_concept (filter by CCC)
         const concept = 'Patterns can be used to identify cause and effect relationships.';
-        const cccResults = allStandards.filter(s => s.ccc.name === concept);
+        const cccResults = allStandards.filter(s => s.ccc?.name === concept);
         expect(Array.isArray(cccResults)).toBe(true);
         expect(cccResults.length).toBeGreaterThan(0);
         cccResults.forEach(s => {
-          expect(s.ccc.name).toBe(concept);
+          expect(s.ccc!.name).toBe(concept);
         });
       });
 
@@ -1511,7 +1795,7 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
         const allStandards = db.getAllStandards();
         const candidates = allStandards.filter(s => s.code !== anchorCode);
 
-        expect(candidates.length).toBe(54); // 55 total - 1 anchor
+        expect(candidates.length).toBe(58); // 59 total - 1 anchor
         expect(candidates.every(s => s.code !== anchorCode)).toBe(true);
 
         // Verify we can get suggestions (unit_size - 1)
@@ -1520,4 +1804,974 @@ describe('Integration Tests - MCP Tools with Detail Levels', () => {
       });
     });
   });
+
+  describe('Grade Band Datasets', () => {
+    const msPath = join(process.cwd(), 'data/ngss-ms-standards.json');
+    let hsPath: string;
+
+    beforeAll(() => {
+      // Minimal high school fixture (HS-PS1-4) loaded alongside the MS dataset
+      const msStandard = getDatabase().getStandardByCode('MS-PS1-5')!;
+      const hsStandard = {
+        ...msStandard,
+        code: 'HS-PS1-4',
+        grade_level: 'HS',
+        topic: 'Chemical Reactions',
+        performance_expectation: 'Develop a model to illustrate that the release or absorption of energy from a chemical reaction system depends upon the changes in total bond energy.'
+      };
+
+      const dir = mkdtempSync(join(tmpdir(), 'ngss-grade-bands-'));
+      hsPath = join(dir, 'ngss-hs-standards.json');
+      writeFileSync(hsPath, JSON.stringify({
+        generated_at: '2025-10-21T00:00:00.000Z',
+        source: 'High School By Topic NGSS.pdf',
+        standards: [hsStandard]
+      }));
+    });
+
+    test('should accept K-12 standard code formats', () => {
+      ['K-PS2-1', '1-LS1-1', '3-LS4-2', 'K-2-ETS1-1', '3-5-ETS1-1', 'MS-PS1-1', 'HS-PS1-4'].forEach(code => {
+        expect(QueryValidator.validateStandardCode(code).isValid, code).toBe(true);
+      });
+
+      ['6-PS1-1', 'ES-PS1-1', 'HS-XY1-1', 'MS-PS1'].forEach(code => {
+        expect(QueryValidator.validateStandardCode(code).isValid, code).toBe(false);
+      });
+    });
+
+    test('should validate standard codes with the shared code format', () => {
+      const standard = getDatabase().getStandardByCode('MS-PS1-1')!;
+      const codeErrors = (code: string) => (StandardSchema.safeParse({ ...standard, code }).error?.errors ?? [])
+        .filter(e => e.path[0] === 'code');
+
+      expect(codeErrors('HS-PS1-4')).toEqual([]);
+      expect(codeErrors('MS-XY1-1')).toHaveLength(1);
+    });
+
+    test('should only load the grade-band datasets present in the data directory', () => {
+      const db = getDatabase();
+
+      // ES and HS files are not shipped: their filters return no standards instead of failing
+      expect(db.getMetadata().datasets.map(d => d.file)).toEqual(['ngss-ms-standards.json']);
+      expect(db.getStandardsByGradeLevel('HS')).toEqual([]);
+      expect(db.searchByDomain('Physical Science', { gradeLevel: 'ES' })).toEqual([]);
+      expect(db.searchStandards('energy', { gradeLevel: 'HS' })).toEqual([]);
+    });
+
+    test('should load several grade-band datasets into one index', () => {
+      const db = new NGSSDatabase([msPath, hsPath]);
+
+      expect(db.getAllStandards().length).toBe(60);
+      expect(db.getStandardByCode('HS-PS1-4')?.grade_level).toBe('HS');
+      expect(db.getStandardByCode('MS-PS1-1')?.grade_level).toBe('MS');
+      expect(db.getMetadata().datasets.map(d => d.file)).toEqual(['ngss-ms-standards.json', 'ngss-hs-standards.json']);
+      expect(db.getStats().byGradeLevel).toEqual({ MS: 59, HS: 1 });
+    });
+
+    test('should filter searches by grade level', () => {
+      const db = new NGSSDatabase([msPath, hsPath]);
+
+      expect(db.getStandardsByGradeLevel('HS').map(s => s.code)).toEqual(['HS-PS1-4']);
+      expect(db.searchByDomain('Physical Science', { gradeLevel: 'HS' }).map(s => s.code)).toEqual(['HS-PS1-4']);
+
+      const hsResults = db.searchStandards('chemical reaction', { gradeLevel: 'HS' });
+      expect(hsResults.map(r => r.standard.code)).toEqual(['HS-PS1-4']);
+
+      const msResults = db.searchStandards('chemical reaction', { gradeLevel: 'MS', limit: 50 });
+      expect(msResults.length).toBeGreaterThan(0);
+      msResults.forEach(r => expect(r.standard.grade_level).toBe('MS'));
+    });
+
+    test('should reject invalid grade levels', () => {
+      const db = getDatabase();
+
+      expect(() => db.getStandardsByGradeLevel('PK')).toThrow('Invalid grade level');
+      expect(() => db.searchStandards('energy', { gradeLevel: 'college' })).toThrow('Invalid grade level');
+    });
+
+    test('should reject duplicate codes across datasets', () => {
+      expect(() => new NGSSDatabase([msPath, msPath])).toThrow('Duplicate standard code');
+    });
+  });
+
+  describe('Multi-Element 3D Dimensions', () => {
+    test('every standard lists its primary element first in each dimension array', () => {
+      const db = getDatabase();
+
+      db.getAllStandards().forEach(s => {
+        expect(s.seps.length, s.code).toBeGreaterThanOrEqual(1);
+        expect(s.dcis.length, s.code).toBeGreaterThanOrEqual(1);
+        expect(s.cccs.length, s.code).toBeGreaterThanOrEqual(/-ETS1-/.test(s.code) ? 0 : 1);
+        expect(s.seps[0]).toEqual(s.sep);
+        expect(s.dcis[0]).toEqual(s.dci);
+        expect(s.cccs[0]).toEqual(s.ccc);
+      });
+    });
+
+    test('standards drawing on several core ideas expose all of them', () => {
+      const db = getDatabase();
+
+      expect(db.getStandardByCode('MS-PS1-4')!.dcis.map(d => d.code)).toEqual(['PS1.A', 'PS3.A']);
+      expect(db.getStandardByCode('MS-LS3-2')!.dcis.map(d => d.code)).toEqual(['LS3.B', 'LS1.B', 'LS3.A']);
+
+      const components = db.get3DComponents('MS-PS1-4');
+      expect(components!.dci.code).toBe('PS1.A');
+      expect(components!.dcis.length).toBe(2);
+    });
+
+    test('dimension filters match secondary elements', () => {
+      const db = getDatabase();
+      const dci = 'Definitions of Energy';
+
+      const primaryOnly = db.getAllStandards().filter(s => s.dci.name === dci);
+      const anyElement = db.getAllStandards().filter(s => s.dcis.some(d => d.name === dci));
+
+      expect(anyElement.length).toBeGreaterThan(primaryOnly.length);
+      expect(anyElement.map(s => s.code)).toContain('MS-PS1-4');
+    });
+  });
+
+  describe('Clarification Statements and Assessment Boundaries', () => {
+    let datasetPath: string;
+
+    beforeAll(() => {
+      const msStandard = getDatabase().getStandardByCode('MS-PS1-1')!;
+      const annotated = {
+        ...msStandard,
+        clarification_statement: 'Examples of extended structures could include sodium chloride or diamonds.',
+        assessment_boundary: 'Assessment does not include valence electrons and bonding energy.'
+      };
+
+      const dir = mkdtempSync(join(tmpdir(), 'ngss-notes-'));
+      datasetPath = join(dir, 'ngss-ms-standards.json');
+      writeFileSync(datasetPath, JSON.stringify({
+        generated_at: '2025-10-21T00:00:00.000Z',
+        source: 'Middle School By Topic NGSS.pdf',
+        standards: [annotated]
+      }));
+    });
+
+    test('should keep the notes on the loaded standard', () => {
+      const db = new NGSSDatabase(datasetPath);
+      const standard = db.getStandardByCode('MS-PS1-1')!;
+
+      expect(standard.clarification_statement).toContain('sodium chloride');
+      expect(standard.assessment_boundary).toContain('valence electrons');
+    });
+
+    test('should find standards by clarification and boundary text', () => {
+      const db = new NGSSDatabase(datasetPath);
+
+      expect(db.searchStandards('sodium chloride diamonds').map(r => r.standard.code)).toEqual(['MS-PS1-1']);
+      expect(db.searchStandards('valence electrons').map(r => r.standard.code)).toEqual(['MS-PS1-1']);
+    });
+
+    test('should leave the notes optional on the bundled dataset', () => {
+      const standard = getDatabase().getStandardByCode('MS-PS1-2')!;
+
+      expect(standard).not.toHaveProperty('assessment_boundary');
+    });
+  });
+
+  describe('Standard Connections', () => {
+    let paths: string[];
+
+    beforeAll(() => {
+      const dir = mkdtempSync(join(tmpdir(), 'ngss-connections-'));
+      const standards = getDatabase().getAllStandards().map(standard => {
+        if (standard.code === 'MS-PS1-1') {
+          return {
+            ...standard,
+            connections: {
+              other_dcis: ['MS.PS3.A'],
+              articulation: ['5.PS1.A', 'HS.PS1.A'],
+              ccss_ela: ['RST.6-8.7'],
+              ccss_math: ['MP.2', '6.RP.A.3']
+            }
+          };
+        }
+        if (standard.code === 'MS-PS1-4') {
+          return {
+            ...standard,
+            connections: { other_dcis: [], articulation: [], ccss_ela: [], ccss_math: ['MP.2'] }
+          };
+        }
+        return standard;
+      });
+
+      const msStandard = getDatabase().getStandardByCode('MS-PS1-1')!;
+      const hsStandard = { ...msStandard, code: 'HS-PS1-1', grade_level: 'HS' };
+
+      const msPath = join(dir, 'ngss-ms-standards.json');
+      const hsPath = join(dir, 'ngss-hs-standards.json');
+      writeFileSync(msPath, JSON.stringify({ generated_at: '2025-10-21T00:00:00.000Z', source: 'MS', standards }));
+      writeFileSync(hsPath, JSON.stringify({ generated_at: '2025-10-21T00:00:00.000Z', source: 'HS', standards: [hsStandard] }));
+      paths = [msPath, hsPath];
+    });
+
+    test('should resolve DCI references to standards of that grade drawing on the DCI', () => {
+      const connections = new NGSSDatabase(paths).getConnections('MS-PS1-1')!;
+
+      const sameBand = connections.other_dcis[0]!;
+      expect(sameBand.reference).toBe('MS.PS3.A');
+      expect(sameBand.standards.map(s => s.code)).toEqual(['MS-PS1-4', 'MS-PS3-1', 'MS-PS3-2', 'MS-PS3-3', 'MS-PS3-4']);
+
+      // Elementary datasets are not loaded, so 5.PS1.A has no linked standards
+      expect(connections.articulation.map(a => [a.reference, a.standards.map(s => s.code)])).toEqual([
+        ['5.PS1.A', []],
+        ['HS.PS1.A', ['HS-PS1-1']]
+      ]);
+    });
+
+    test('should link Common Core codes to other standards citing them', () => {
+      const db = new NGSSDatabase(paths);
+      const connections = db.getConnections('MS-PS1-1')!;
+
+      expect(connections.ccss_ela).toEqual([{ reference: 'RST.6-8.7', standards: [] }]);
+      expect(connections.ccss_math.map(c => [c.reference, c.standards.map(s => s.code)])).toEqual([
+        ['MP.2', ['MS-PS1-4']],
+        ['6.RP.A.3', []]
+      ]);
+      expect(db.getConnections('MS-PS1-4')!.ccss_math[0]!.standards.map(s => s.code)).toEqual(['MS-PS1-1']);
+    });
+
+    test('should report standards of the shipped dataset as not extracted yet', () => {
+      const connections = getDatabase().getConnections('MS-LS1-1');
+
+      expect(connections).toEqual({ extracted: false, other_dcis: [], articulation: [], ccss_ela: [], ccss_math: [] });
+    });
+
+    test('should tell extracted empty connections from missing ones', () => {
+      const db = new NGSSDatabase(paths);
+
+      expect(db.getConnections('MS-PS1-4')!.extracted).toBe(true);
+      expect(db.getConnections('MS-PS1-4')!.other_dcis).toEqual([]);
+      expect(db.getConnections('MS-LS1-1')!.extracted).toBe(false);
+    });
+
+    test('should return null for unknown standards', () => {
+      expect(getDatabase().getConnections('MS-PS1-99')).toBeNull();
+    });
+  });
+
+  describe('State Overlays', () => {
+    let dir: string;
+    let njPath: string;
+    let caPath: string;
+
+    const writeOverlay = (name: string, overlay: object): string => {
+      const path = join(dir, name);
+      writeFileSync(path, JSON.stringify(overlay));
+      return path;
+    };
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'ngss-overlays-'));
+      njPath = writeOverlay('nj.json', {
+        jurisdiction: 'NJ',
+        framework: 'NJSLS-S',
+        standards: [{
+          code: 'NJ.MS-PS1-1',
+          ngss_code: 'MS-PS1-1',
+          grade: '8',
+          performance_expectation: 'Develop models to describe the atomic composition of simple molecules, extended structures and crystalline lattices.'
+        }]
+      });
+      caPath = writeOverlay('ca.json', {
+        jurisdiction: 'CA',
+        framework: 'CA NGSS Integrated Model',
+        standards: [{
+          code: 'MS-PS1-1',
+          ngss_code: 'MS-PS1-1',
+          grade: '6',
+          assessment_boundary: 'Assessment does not include valence electrons, bonding energy or ionic compounds.'
+        }]
+      });
+    });
+
+    const loadOverlays = () => {
+      const db = new NGSSDatabase();
+      db.loadOverlay(njPath);
+      db.loadOverlay(caPath);
+      return db;
+    };
+
+    test('should resolve state codes through the code index', () => {
+      const db = loadOverlays();
+      const view = db.getStandardByCode('NJ.MS-PS1-1')!;
+
+      expect(view.code).toBe('NJ.MS-PS1-1');
+      expect(view.performance_expectation).toContain('crystalline lattices');
+      expect(view.state_alignment).toEqual({ jurisdiction: 'NJ', framework: 'NJSLS-S', ngss_code: 'MS-PS1-1', grade: '8' });
+      expect(view.dcis).toEqual(db.getStandardByCode('MS-PS1-1')!.dcis);
+      expect(db.get3DComponents('NJ.MS-PS1-1')?.dci.code).toBe('PS1.A');
+    });
+
+    test('should recognize only loaded state codes as state codes', () => {
+      const db = loadOverlays();
+
+      expect(db.isStateCode('NJ.MS-PS1-1')).toBe(true);
+      expect(db.isStateCode('MS-PS1-1')).toBe(false);
+      expect(db.isStateCode('NJ.MS-PS1-2')).toBe(false);
+      expect(new NGSSDatabase().isStateCode('NJ.MS-PS1-1')).toBe(false);
+    });
+
+    test('should keep base standards and search results unchanged in size', () => {
+      const db = loadOverlays();
+
+      expect(db.getAllStandards().length).toBe(59);
+      expect(db.getStandardByCode('MS-PS1-1')!.state_alignment).toBeUndefined();
+      expect(db.searchByDomain('Physical Science', { limit: 100 }).length).toBe(19);
+    });
+
+    test('should index modified state wording under the NGSS code', () => {
+      const db = loadOverlays();
+
+      expect(db.searchStandards('crystalline lattices').map(r => r.standard.code)).toEqual(['MS-PS1-1']);
+    });
+
+    test('should show differences in a crosswalk from either code system', () => {
+      const db = loadOverlays();
+      const crosswalk = db.getCrosswalk('MS-PS1-1')!;
+
+      expect(crosswalk.standard.code).toBe('MS-PS1-1');
+      expect(crosswalk.states.map(s => [s.jurisdiction, s.code, s.grade])).toEqual([
+        ['NJ', 'NJ.MS-PS1-1', '8'],
+        ['CA', 'MS-PS1-1', '6']
+      ]);
+      expect(crosswalk.states[0]!.differences.map(d => d.field)).toEqual(['performance_expectation']);
+      expect(crosswalk.states[1]!.differences).toEqual([{
+        field: 'assessment_boundary',
+        ngss: null,
+        state: 'Assessment does not include valence electrons, bonding energy or ionic compounds.'
+      }]);
+
+      expect(db.getCrosswalk('NJ.MS-PS1-1')!.states.length).toBe(2);
+      expect(db.getCrosswalk('MS-PS1-1', 'ca')!.states.map(s => s.jurisdiction)).toEqual(['CA']);
+      expect(db.getCrosswalk('MS-PS1-2')!.states).toEqual([]);
+    });
+
+    test('should record loaded overlays in metadata', () => {
+      const db = loadOverlays();
+
+      expect(db.getMetadata().overlays).toEqual([
+        { file: 'nj.json', jurisdiction: 'NJ', framework: 'NJSLS-S', standards: 1 },
+        { file: 'ca.json', jurisdiction: 'CA', framework: 'CA NGSS Integrated Model', standards: 1 }
+      ]);
+      expect(db.getStats().indexSizes.stateCodes).toBe(2);
+    });
+
+    test('should reject invalid overlays', () => {
+      const db = new NGSSDatabase();
+
+      const unknown = writeOverlay('unknown.json', {
+        jurisdiction: 'NJ', framework: 'NJSLS-S', standards: [{ code: 'NJ.X-1', ngss_code: 'MS-PS1-99' }]
+      });
+      expect(() => db.loadOverlay(unknown)).toThrow('Unknown NGSS code MS-PS1-99 in unknown.json');
+
+      const duplicate = writeOverlay('duplicate.json', {
+        jurisdiction: 'NJ', framework: 'NJSLS-S', standards: [{ code: 'MS-PS1-2', ngss_code: 'MS-PS1-1' }]
+      });
+      expect(() => db.loadOverlay(duplicate)).toThrow('Duplicate state code MS-PS1-2 in duplicate.json');
+
+      const malformed = writeOverlay('malformed.json', { jurisdiction: 'NJ', standards: [] });
+      expect(() => db.loadOverlay(malformed)).toThrow('Invalid state overlay malformed.json');
+    });
+
+    test('should still reject codes that are neither NGSS nor loaded state codes', () => {
+      const db = loadOverlays();
+
+      expect(() => db.getStandardByCode('NJ.MS-PS1-2')).toThrow('Invalid standard code format');
+    });
+  });
+
+  describe('SEP and CCC Taxonomy', () => {
+    test('should code every 3D element with its category', () => {
+      getDatabase().getAllStandards().forEach(standard => {
+        standard.seps.forEach(sep => {
+          const expected = categoryForElement(SEP_CATEGORIES, sep.name)?.code ?? 'SEP-0';
+          expect(sep.code, `${standard.code}: ${sep.name}`).toBe(expected);
+        });
+        standard.cccs.forEach(ccc => {
+          const expected = categoryForElement(CCC_CATEGORIES, ccc.name)?.code ?? 'CCC-0';
+          expect(ccc.code, `${standard.code}: ${ccc.name}`).toBe(expected);
+        });
+      });
+    });
+
+    test('should return every standard under a practice category', () => {
+      const allStandards = getDatabase().getAllStandards();
+      const models = findCategory(SEP_CATEGORIES, 'Developing and Using Models')!;
+
+      const byCategory = allStandards.filter(s => s.seps.some(sep => sep.code === models.code));
+      const byElements = allStandards.filter(s => s.seps.some(sep => models.elements.some(e => e.name === sep.name)));
+
+      expect(byCategory.length).toBeGreaterThan(0);
+      expect(byCategory.map(s => s.code)).toEqual(byElements.map(s => s.code));
+      expect(byCategory.length).toBeGreaterThan(
+        allStandards.filter(s => s.sep.name === 'Develop and use a model to describe phenomena.').length
+      );
+    });
+
+    test('should mark practices the extractor could not read as SEP-0', () => {
+      const unknown = getDatabase().getAllStandards().filter(s => s.sep.name === 'Unknown');
+
+      expect(unknown.length).toBeGreaterThan(0);
+      unknown.forEach(s => expect(s.sep.code).toBe('SEP-0'));
+    });
+  });
+
+  describe('Lesson Scope', () => {
+    let dir: string;
+    const msPath = join(process.cwd(), 'data', 'ngss-ms-standards.json');
+
+    const scopeEntry = (code: string) => ({
+      code,
+      key_concepts: ['Particles move faster when thermal energy is added'],
+      prerequisite_knowledge: ['Matter is made of particles too small to see'],
+      common_misconceptions: ['Particles themselves expand when heated'],
+      depth_boundaries: { include: ['Qualitative particle models'], exclude: ['Latent heat calculations'] }
+    });
+
+    const writeScopes = (name: string, lessonScopes: object[]): string => {
+      const path = join(dir, name);
+      writeFileSync(path, JSON.stringify({ source: 'Test fixture lesson scopes', lesson_scopes: lessonScopes }));
+      return path;
+    };
+
+    const writeScopeOverlay = (): string => {
+      const path = join(dir, 'overlay.json');
+      writeFileSync(path, JSON.stringify({
+        jurisdiction: 'NJ',
+        framework: 'NJSLS-S',
+        standards: [{ code: 'NJ.MS-PS1-4', ngss_code: 'MS-PS1-4' }]
+      }));
+      return path;
+    };
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'ngss-lesson-scope-'));
+    });
+
+    test('curated scopes cover every middle school standard', () => {
+      const db = getDatabase();
+      const ms = db.getStandardsByGradeLevel('MS');
+
+      expect(db.getMetadata().lesson_scopes?.standards).toBe(ms.length);
+      for (const standard of ms) {
+        const entry = db.getLessonScope(standard.code)!;
+        expect(entry.curated).toBe(true);
+        expect(entry.lesson_scope.prerequisite_knowledge.length).toBeGreaterThan(0);
+        expect(entry.lesson_scope.common_misconceptions.length).toBeGreaterThan(0);
+        expect(entry.lesson_scope.depth_boundaries.include.length).toBeGreaterThan(0);
+      }
+    });
+
+    test('curated key concepts replace the keyword copy', () => {
+      const standard = getDatabase().getStandardByCode('MS-PS1-4')!;
+      expect(standard.lesson_scope.key_concepts).not.toEqual(standard.keywords);
+      expect(standard.lesson_scope.depth_boundaries.exclude).toContain('Mixtures and solutions');
+    });
+
+    test('returns null for unknown codes', () => {
+      expect(getDatabase().getLessonScope('MS-PS1-99')).toBeNull();
+    });
+
+    test('explicit dataset paths keep the generated scope until scopes are loaded', () => {
+      const db = new NGSSDatabase(msPath);
+      expect(db.getLessonScope('MS-PS1-4')!.curated).toBe(false);
+      expect(db.getMetadata().lesson_scopes).toBeNull();
+
+      db.loadLessonScopes(writeScopes('valid.json', [scopeEntry('MS-PS1-4')]));
+      const entry = db.getLessonScope('MS-PS1-4')!;
+      expect(entry.curated).toBe(true);
+      expect(entry.lesson_scope.common_misconceptions).toEqual(['Particles themselves expand when heated']);
+      expect(db.getLessonScope('MS-PS1-1')!.curated).toBe(false);
+    });
+
+    test('state views share the curated scope of their NGSS standard', () => {
+      const db = new NGSSDatabase();
+      db.loadOverlay(writeScopeOverlay());
+      const entry = db.getLessonScope('NJ.MS-PS1-4')!;
+      expect(entry.standard.code).toBe('NJ.MS-PS1-4');
+      expect(entry.curated).toBe(true);
+      expect(entry.lesson_scope).toEqual(db.getLessonScope('MS-PS1-4')!.lesson_scope);
+    });
+
+    test('rejects invalid, unknown and duplicate entries', () => {
+      const db = new NGSSDatabase(msPath);
+      const invalid = { ...scopeEntry('MS-PS1-4'), common_misconceptions: [] };
+
+      expect(() => db.loadLessonScopes(writeScopes('invalid.json', [invalid])))
+        .toThrow('Invalid lesson scope file invalid.json');
+      expect(() => db.loadLessonScopes(writeScopes('unknown.json', [scopeEntry('MS-PS1-99')])))
+        .toThrow('Unknown NGSS code MS-PS1-99');
+      expect(() => db.loadLessonScopes(writeScopes('duplicate.json', [scopeEntry('MS-PS1-4'), scopeEntry('MS-PS1-4')])))
+        .toThrow('Duplicate lesson scope for MS-PS1-4');
+    });
+  });
+
+  describe('Engineering Design (ETS1)', () => {
+    const ETS = 'Engineering, Technology, and Applications of Science';
+
+    test('should store the four middle school engineering standards', () => {
+      const db = getDatabase();
+      const ets = db.searchByDomain(ETS, { limit: 100 });
+
+      expect(ets.map(s => s.code).sort()).toEqual(['MS-ETS1-1', 'MS-ETS1-2', 'MS-ETS1-3', 'MS-ETS1-4']);
+      expect(db.getStats().byDomain[ETS]).toBe(4);
+      expect(db.searchByDomain('engineering-technology', { limit: 100 }).length).toBe(4);
+    });
+
+    test('should accept the engineering domain in validation and search filters', () => {
+      expect(QueryValidator.validateDomain(ETS).isValid).toBe(true);
+
+      const results = getDatabase().searchStandards('design solutions criteria constraints', { domain: ETS });
+      expect(results.length).toBeGreaterThan(0);
+      results.forEach(r => expect(r.standard.domain).toBe(ETS));
+    });
+
+    test('should ship engineering records that pass StandardSchema with no crosscutting concept', () => {
+      const shipped = JSON.parse(readFileSync(join(process.cwd(), 'data/ngss-ms-standards.json'), 'utf-8')).standards as Standard[];
+      const ets = shipped.filter(s => s.code.startsWith('MS-ETS1-'));
+
+      expect(ets).toHaveLength(4);
+      ets.forEach(standard => {
+        expect(StandardSchema.safeParse(standard).error?.errors ?? [], standard.code).toEqual([]);
+        expect(standard.cccs, standard.code).toEqual([]);
+        expect(standard, standard.code).not.toHaveProperty('ccc');
+      });
+    });
+
+    test('should code engineering DCIs and practices', () => {
+      const standard = getDatabase().getStandardByCode('MS-ETS1-4')!;
+
+      expect(standard.dcis.map(d => d.code)).toEqual(['ETS1.B', 'ETS1.C']);
+      expect(standard.sep.code).toBe('SEP-2');
+      expect(getDatabase().getAllStandards().filter(s => s.dcis.some(d => d.code === 'ETS1.C')).length).toBe(2);
+    });
+
+    test('should list integration partners for every engineering standard in the dataset', () => {
+      const db = getDatabase();
+      const partners = ENGINEERING_INTEGRATED_STANDARDS.filter(code => code.startsWith('MS-'));
+
+      expect(partners.length).toBe(5);
+      partners.forEach(code => {
+        const standard = db.getStandardByCode(code);
+        expect(standard, code).not.toBeNull();
+        expect(standard!.domain).not.toBe(ETS);
+      });
+    });
+  });
+
+  describe('Hot Reload', () => {
+    test('should rebuild the database from the same files and swap it in', () => {
+      const before = getDatabase();
+      const reloaded = reloadDatabase();
+
+      expect(reloaded).not.toBe(before);
+      expect(getDatabase()).toBe(reloaded);
+      expect(reloaded.getStats()).toEqual(before.getStats());
+      expect(reloaded.getSourceFiles()).toEqual(before.getSourceFiles());
+    });
+
+    test('should clear the query cache of the replaced instance', () => {
+      const before = getDatabase();
+      before.searchStandards('energy');
+      expect(before.getCacheStats().cache.size).toBeGreaterThan(0);
+
+      reloadDatabase();
+      expect(before.getCacheStats().cache.size).toBe(0);
+    });
+
+    test('should notify reload listeners until they unregister', () => {
+      const seen: NGSSDatabase[] = [];
+      const unregister = onDatabaseReload(db => seen.push(db));
+
+      const reloaded = reloadDatabase();
+      unregister();
+      reloadDatabase();
+
+      expect(seen).toEqual([reloaded]);
+    });
+
+    test('should list every file the database was built from', () => {
+      const files = getDatabase().getSourceFiles().map(path => path.split(/[\\/]/).at(-1));
+
+      expect(files).toContain('ngss-ms-standards.json');
+      expect(files).toContain('ngss-lesson-scope.json');
+    });
+  });
+
+  describe('Faceted Filtering', () => {
+    test('should match the linear filters of the dimension tools', () => {
+      const db = getDatabase();
+      const expected = db.getAllStandards().filter(s =>
+        s.domain === 'Life Science' &&
+        s.seps.some(sep => sep.code === 'SEP-2') &&
+        s.grade_level === 'MS'
+      );
+
+      const { matches } = db.filterStandards({ domain: 'Life Science', practice: 'Developing and Using Models', gradeLevel: 'MS' });
+      expect(matches.map(m => m.standard.code)).toEqual(expected.map(s => s.code));
+      expect(matches.length).toBeGreaterThan(0);
+    });
+
+    test('should accept names, codes and element statements case-insensitively', () => {
+      const db = getDatabase();
+      const codes = (filters: Parameters<NGSSDatabase['filterStandards']>[0]) =>
+        db.filterStandards(filters).matches.map(m => m.standard.code);
+
+      expect(codes({ practice: 'sep-2' })).toEqual(codes({ practice: 'Developing and Using Models' }));
+      expect(codes({ dci: 'ls4.b' })).toEqual(codes({ dci: 'Natural Selection' }));
+      expect(codes({ concept: 'patterns' })).toEqual(codes({ concept: 'CCC-1' }));
+      const element = db.getAllStandards()[0]!.sep.name;
+      expect(codes({ practice: element })).toContain(db.getAllStandards()[0]!.code);
+    });
+
+    test('should count facets over the matches', () => {
+      const db = getDatabase();
+      const { matches, facets } = db.filterStandards({ domain: 'Physical Science' });
+
+      expect(facets.domain).toEqual([{ value: 'Physical Science', count: matches.length }]);
+      expect(facets.topic.reduce((sum, f) => sum + f.count, 0)).toBe(matches.length);
+      expect(facets.sep.every(f => f.count <= matches.length)).toBe(true);
+      expect(facets.dci.every(f => f.code !== undefined)).toBe(true);
+
+      // Narrowing by a facet value returns exactly its count
+      const topic = facets.topic[0]!;
+      expect(db.filterStandards({ domain: 'Physical Science', topic: topic.value }).matches.length).toBe(topic.count);
+    });
+
+    test('should rank by relevance when text is given', () => {
+      const db = getDatabase();
+      const { matches } = db.filterStandards({ domain: 'Life Science', text: 'photosynthesis' });
+
+      expect(matches[0]!.standard.code).toBe('MS-LS1-6');
+      expect(matches.every(m => m.standard.domain === 'Life Science' && m.score > 0)).toBe(true);
+      expect(() => db.filterStandards({ text: 'energy AND' })).toThrow('Expected a term after AND');
+    });
+
+    test('should return every standard with no filters and nothing for unknown values', () => {
+      const db = getDatabase();
+
+      expect(db.filterStandards({}).matches.length).toBe(db.getAllStandards().length);
+      const unknown = db.filterStandards({ topic: 'No Such Topic' });
+      expect(unknown.matches).toEqual([]);
+      expect(unknown.facets.domain).toEqual([]);
+      expect(() => db.filterStandards({ domain: 'Chemistry' })).toThrow('Invalid domain');
+    });
+  });
+
+  describe('Semantic Similarity', () => {
+    test('should connect everyday wording to the standard behind the phenomenon', () => {
+      const question = 'why does the ice melt on the sidewalk with salt';
+      const { recognized, related, matches } = getDatabase().findSimilarStandards(question);
+
+      expect(matches[0]!.standard.code).toBe('MS-PS1-4');
+      expect(recognized).toEqual(['ice', 'melt']);
+      expect(related).toContain('state');
+      // Keyword search reaches MS-PS1-4 only through the misconception "Particles expand or melt
+      // when heated" in its lesson scope, and ranks it last
+      const codes = (fields: SearchField[]) => getDatabase().searchStandards(question, { fields }).map(r => r.standard.code);
+      expect(codes([...SEARCH_FIELDS]).at(-1)).toBe('MS-PS1-4');
+      expect(codes(SEARCH_FIELDS.filter(field => field !== 'lesson_scope'))).not.toContain('MS-PS1-4');
+    });
+
+    test('should rank by decreasing similarity and respect the limit', () => {
+      const { matches } = getDatabase().findSimilarStandards('students race toy cars down a ramp and measure their speed', { limit: 8 });
+      const similarities = matches.map(m => m.similarity);
+
+      expect(matches.length).toBeLessThanOrEqual(8);
+      expect(similarities).toEqual([...similarities].sort((a, b) => b - a));
+      expect(similarities.every(s => s > 0 && s <= 1 + 1e-9)).toBe(true);
+    });
+
+    test('should correct misspelled words and filter by domain', () => {
+      const db = getDatabase();
+      expect(db.findSimilarStandards('photosinthesis lab with elodea').matches[0]!.standard.code).toBe('MS-LS1-6');
+
+      const lifeScience = db.findSimilarStandards('energy flowing through a food web', { domain: 'Life Science', limit: 20 }).matches;
+      expect(lifeScience.length).toBeGreaterThan(0);
+      expect(lifeScience.every(m => m.standard.domain === 'Life Science')).toBe(true);
+    });
+
+    test('should return nothing for text with no known words', () => {
+      const { recognized, matches } = getDatabase().findSimilarStandards('zxqv blorp');
+
+      expect(recognized).toEqual([]);
+      expect(matches).toEqual([]);
+    });
+
+    test('should ship vectors built from the current data', () => {
+      const db = getDatabase();
+      const vectorPath = join(process.cwd(), 'data', 'ngss-ms-vectors.json');
+      const stored: SemanticVectorFile = JSON.parse(readFileSync(vectorPath, 'utf-8'));
+      const standards = db.getAllStandards().filter(s => s.grade_level === 'MS');
+
+      expect(db.getSourceFiles()).toContain(vectorPath);
+      expect(stored.checksum).toBe(semanticChecksum(standards));
+      expect(Object.keys(stored.standards).sort()).toEqual(standards.map(s => s.code).sort());
+    });
+
+    test('should build vectors in memory when a dataset has no vector file', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'ngss-vectors-'));
+      const path = join(dir, 'ngss-ms-standards.json');
+      const standards = getDatabase().getAllStandards().filter(s => ['MS-PS1-4', 'MS-LS1-6', 'MS-ESS2-4'].includes(s.code));
+      writeFileSync(path, JSON.stringify({ generated_at: '2025-01-01', source: 'test', standards }));
+
+      const db = new NGSSDatabase(path);
+      expect(db.getSourceFiles()).toEqual([path]);
+      expect(db.findSimilarStandards('photosynthesis in leaves').matches[0]!.standard.code).toBe('MS-LS1-6');
+    });
+  });
+
+  describe('Lesson Alignment', () => {
+    const lesson = 'Students heat ice cubes in a beaker and record the temperature every minute. They graph the data and notice the temperature stays the same while the ice melts. Groups then develop a model showing how particle motion changes as thermal energy is added, and use it to predict what happens when the water boils.';
+
+    test('should rank the standard the lesson addresses first, with evidence for every dimension', () => {
+      const { practices, concepts, alignments } = getDatabase().alignLesson(lesson);
+      const [top] = alignments;
+
+      expect(practices.map(p => p.code)).toEqual(['SEP-2', 'SEP-4']);
+      expect(concepts.map(c => c.code)).toContain('CCC-2');
+      expect(top!.standard.code).toBe('MS-PS1-4');
+      expect(top!.alignment.practice.evidence[0]!.excerpt).toContain('**develop** a **model**');
+      expect(top!.alignment.content.matched_terms).toEqual(expect.arrayContaining(['temperature', 'particle', 'thermal']));
+      expect(top!.alignment.crosscutting.score).toBe(1);
+      expect(top!.alignment.alignment).toBe(1);
+    });
+
+    test('should order candidates by alignment and respect filters and limit', () => {
+      const db = getDatabase();
+      const { total, alignments } = db.alignLesson(lesson, { domain: 'Physical Science', limit: 4 });
+      const scores = alignments.map(a => a.alignment.alignment);
+
+      expect(alignments).toHaveLength(4);
+      expect(total).toBeGreaterThanOrEqual(4);
+      expect(scores).toEqual([...scores].sort((a, b) => b - a));
+      expect(alignments.every(a => a.standard.domain === 'Physical Science')).toBe(true);
+      expect(() => db.alignLesson(lesson, { domain: 'Chemistry' })).toThrow('Invalid domain');
+    });
+
+    test('should score practice and crosscutting concept separately from content', () => {
+      const { alignments } = getDatabase().alignLesson('Students read about photosynthesis in plant cells.');
+      const photosynthesis = alignments.find(a => a.standard.code === 'MS-LS1-6')!;
+
+      expect(photosynthesis.alignment.content.score).toBe(1);
+      expect(photosynthesis.alignment.practice.score).toBe(0);
+      expect(photosynthesis.alignment.practice.expected.length).toBeGreaterThan(0);
+      expect(photosynthesis.alignment.alignment).toBe(ALIGNMENT_WEIGHTS.content);
+    });
+
+    test('should find no candidates without content words', () => {
+      const { practices, alignments } = getDatabase().alignLesson('Students develop a model in groups.');
+
+      expect(practices.map(p => p.code)).toEqual(['SEP-2']);
+      expect(alignments).toEqual([]);
+    });
+  });
+
+  describe('Unit Building', () => {
+    const average = (codes: string[]) => {
+      const db = getDatabase();
+      const standards = codes.map(code => db.getStandardByCode(code)!);
+      const scores = standards.flatMap((a, i) => standards.slice(i + 1).map(b => scoreCompatibility(a, b).score));
+      return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    };
+
+    test('should be at least as coherent as the top single-anchor suggestions', () => {
+      const db = getDatabase();
+      for (const code of ['MS-PS3-1', 'MS-LS2-1', 'MS-ESS3-3', 'MS-ETS1-1']) {
+        const anchor = db.getStandardByCode(code)!;
+        const pool = db.getStandardsByGradeLevel('MS');
+        const suggested = pool
+          .filter(s => s.code !== code)
+          .map(candidate => scoreCompatibility(anchor, candidate))
+          .sort((a, b) => b.score - a.score || a.standard.code.localeCompare(b.standard.code))
+          .slice(0, 4)
+          .map(r => r.standard.code);
+        const plan = buildUnit([anchor], pool, 5);
+
+        expect(plan.members[0]!.code).toBe(code);
+        expect(plan.coherence).toBeGreaterThanOrEqual(Math.round(average([code, ...suggested]) * 100) / 100);
+      }
+    });
+
+    test('should keep every anchor and score every pair', () => {
+      const db = getDatabase();
+      const anchors = ['MS-PS3-1', 'MS-LS1-6'].map(code => db.getStandardByCode(code)!);
+      const plan = buildUnit(anchors, db.getStandardsByGradeLevel('MS'), 5);
+
+      expect(plan.members.slice(0, 2).map(m => m.code)).toEqual(['MS-PS3-1', 'MS-LS1-6']);
+      expect(plan.candidates).toBe(57);
+      expect(plan.pairs).toHaveLength(10);
+      expect(plan.matrix).toHaveLength(5);
+      expect(plan.coverage.core_ideas).toContain('Organization for Matter and Energy Flow in Organisms');
+    });
+  });
+
+  describe('Scope and Sequence', () => {
+    test('should place every middle school standard once, prerequisites first', () => {
+      const db = getDatabase();
+      const standards = db.getStandardsByGradeLevel('MS');
+      const prerequisites = db.getPrerequisiteGraph();
+      const { units, violations } = generateScopeAndSequence(standards, { unitSizes: balancedUnitSizes(standards.length, 8), prerequisites });
+      const position = new Map(units.flatMap(unit => unit.standards.map((s, i) => [s.code, unit.unit * 100 + i] as const)));
+
+      expect(units.map(unit => unit.standards.length)).toEqual([8, 8, 8, 7, 7, 7, 7, 7]);
+      expect(position.size).toBe(59);
+      expect(violations).toEqual([]);
+      for (const edge of prerequisites.getEdges()) {
+        expect(position.get(edge.prerequisite)!).toBeLessThan(position.get(edge.standard)!);
+      }
+    });
+
+    test('should keep most units mostly in one domain', () => {
+      const db = getDatabase();
+      const standards = db.getStandardsByGradeLevel('MS');
+      const { units } = generateScopeAndSequence(standards, {
+        unitSizes: balancedUnitSizes(standards.length, 8),
+        prerequisites: db.getPrerequisiteGraph()
+      });
+      const coherent = units.filter(unit => {
+        const domains = unit.standards.map(s => s.domain);
+        return domains.filter(d => d === domains[0]).length * 2 > domains.length;
+      });
+
+      expect(coherent.length).toBeGreaterThanOrEqual(6);
+      expect(units.every(unit => unit.rationale.length > 0)).toBe(true);
+    });
+  });
+
+  describe('Prerequisite Graph', () => {
+    let dir: string;
+    const msPath = join(process.cwd(), 'data', 'ngss-ms-standards.json');
+
+    const writePrerequisites = (name: string, prerequisites: object[]): string => {
+      const path = join(dir, name);
+      writeFileSync(path, JSON.stringify({ source: 'Test fixture prerequisites', prerequisites }));
+      return path;
+    };
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'ngss-prerequisites-'));
+    });
+
+    test('should load the curated graph with the default datasets', () => {
+      const db = getDatabase();
+      const metadata = db.getMetadata().prerequisites!;
+
+      expect(metadata.file).toBe('ngss-prerequisites.json');
+      expect(metadata.edges).toBe(db.getPrerequisiteGraph().size);
+      expect(db.getSourceFiles().some(path => path.endsWith('ngss-prerequisites.json'))).toBe(true);
+    });
+
+    test('should put atoms and molecules before photosynthesis', () => {
+      const graph = getDatabase().getPrerequisiteGraph();
+
+      expect(graph.prerequisitesOf('MS-LS1-6').map(edge => edge.prerequisite)).toContain('MS-PS1-1');
+      expect(graph.ancestors('MS-LS1-7').map(related => related.code)).toContain('MS-PS1-1');
+      expect(graph.descendants('MS-PS1-1').map(related => related.code)).toContain('MS-LS2-3');
+    });
+
+    test('should hold every standard a curated lesson scope cites as prerequisite knowledge', () => {
+      const db = getDatabase();
+      const graph = db.getPrerequisiteGraph();
+      for (const standard of db.getStandardsByGradeLevel('MS')) {
+        const cited = standard.lesson_scope.prerequisite_knowledge
+          .flatMap(item => [...item.matchAll(PATTERNS.STANDARD_CODE)].map(match => match[0]))
+          .filter(code => code !== standard.code);
+        const direct = graph.prerequisitesOf(standard.code).map(edge => edge.prerequisite);
+
+        cited.forEach(code => expect(direct).toContain(code));
+      }
+    });
+
+    test('explicit dataset paths start with an empty graph', () => {
+      const db = new NGSSDatabase(msPath);
+
+      expect(db.getPrerequisiteGraph().size).toBe(0);
+      expect(db.getMetadata().prerequisites).toBeNull();
+    });
+
+    test('should reject unknown codes', () => {
+      const db = new NGSSDatabase(msPath);
+      const path = writePrerequisites('unknown.json', [
+        { prerequisite: 'MS-PS1-1', standard: 'MS-PS1-99', reason: 'Atoms and molecules' }
+      ]);
+
+      expect(() => db.loadPrerequisites(path)).toThrow('Unknown NGSS code MS-PS1-99 in unknown.json');
+    });
+
+    test('should reject a cycle', () => {
+      const db = new NGSSDatabase(msPath);
+      const path = writePrerequisites('cycle.json', [
+        { prerequisite: 'MS-PS1-1', standard: 'MS-PS1-2', reason: 'Atoms and molecules' },
+        { prerequisite: 'MS-PS1-2', standard: 'MS-PS1-5', reason: 'Chemical reactions' },
+        { prerequisite: 'MS-PS1-5', standard: 'MS-PS1-1', reason: 'Conservation of atoms' }
+      ]);
+
+      expect(() => db.loadPrerequisites(path)).toThrow('Prerequisite cycle: MS-PS1-1 -> MS-PS1-2 -> MS-PS1-5 -> MS-PS1-1 in cycle.json');
+      expect(db.getPrerequisiteGraph().size).toBe(0);
+    });
+
+    test('should reject a file that does not match the schema', () => {
+      const db = new NGSSDatabase(msPath);
+      const path = writePrerequisites('invalid.json', [{ prerequisite: 'MS-PS1-1', standard: 'MS-PS1-2' }]);
+
+      expect(() => db.loadPrerequisites(path)).toThrow('Invalid prerequisite file invalid.json');
+    });
+
+    test('should order a photosynthesis unit after the matter standards it builds on', () => {
+      const graph = getDatabase().getPrerequisiteGraph();
+      const { order, prerequisites } = graph.order(['MS-LS1-7', 'MS-LS2-3', 'MS-LS1-6', 'MS-PS1-1']);
+
+      expect(order).toEqual(['MS-PS1-1', 'MS-LS1-6', 'MS-LS1-7', 'MS-LS2-3']);
+      expect(prerequisites).toContainEqual({
+        prerequisite: 'MS-PS1-1',
+        standard: 'MS-LS1-6',
+        via: [],
+        reason: 'Atoms and molecules make up the matter cycled in photosynthesis'
+      });
+    });
+  });
+
+  describe('Coverage Analysis', () => {
+    // Middle school standards by domain, as analyze_coverage scopes them
+    const middleSchool = () => new Map(Object.values(DOMAIN_MAP)
+      .map(domain => [domain, getDatabase().searchByDomain(domain, { gradeLevel: 'MS' })] as const));
+
+    test('should cover everything when every middle school standard is planned', () => {
+      const report = analyzeCoverage(getDatabase().getStandardsByGradeLevel('MS'), middleSchool());
+
+      expect(report.standards).toEqual({ total: 59, planned: 59, percent_covered: 100 });
+      expect(report.domains.every(domain => domain.percent_covered === 100)).toBe(true);
+      expect(report.practices.uncovered).toEqual([]);
+      expect(report.core_ideas.uncovered).toEqual([]);
+      expect(report.suggestions).toEqual([]);
+    });
+
+    test('should not count components no middle school standard addresses as gaps', () => {
+      const report = analyzeCoverage([getDatabase().getStandardByCode('MS-PS1-1')!], middleSchool());
+
+      expect(report.core_ideas.unavailable).toContain('Biogeology');
+      expect(report.core_ideas.uncovered).not.toContain('Biogeology');
+      expect(report.practices.unavailable).toContain('Planning and Carrying Out Investigations');
+    });
+
+    test('should suggest standards that together close every gap', () => {
+      const db = getDatabase();
+      const planned = ['MS-PS1-1', 'MS-PS3-1', 'MS-LS1-1'].map(code => db.getStandardByCode(code)!);
+      const report = analyzeCoverage(planned, middleSchool());
+      const closed = (key: 'practices' | 'crosscutting_concepts' | 'core_ideas') =>
+        new Set(report.suggestions.flatMap(suggestion => suggestion.closes[key]));
+
+      expect(report.minimal).toBe(true);
+      expect(report.practices.uncovered.every(name => closed('practices').has(name))).toBe(true);
+      expect(report.crosscutting_concepts.uncovered.every(name => closed('crosscutting_concepts').has(name))).toBe(true);
+      expect(report.core_ideas.uncovered.every(name => closed('core_ideas').has(name))).toBe(true);
+      expect(report.suggestions.every(suggestion => !['MS-PS1-1', 'MS-PS3-1', 'MS-LS1-1'].includes(suggestion.standard.code))).toBe(true);
+    });
+  });
 });
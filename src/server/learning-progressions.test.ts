@@ -0,0 +1,94 @@
+/**
+ * Unit Tests for Learning Progressions Module
+ */
+
+import { describe, test, expect, beforeAll } from 'bun:test';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LearningProgressions, gradeBandForCode, getLearningProgressions } from './learning-progressions.js';
+import { NGSSDatabase } from './database.js';
+import { DCI_VALUES } from '../constants/enum-values.js';
+
+describe('gradeBandForCode', () => {
+  test('should map standard codes to grade bands', () => {
+    expect(gradeBandForCode('K-PS2-1')).toBe('K-2');
+    expect(gradeBandForCode('2-ESS1-1')).toBe('K-2');
+    expect(gradeBandForCode('K-2-ETS1-1')).toBe('K-2');
+    expect(gradeBandForCode('4-PS3-2')).toBe('3-5');
+    expect(gradeBandForCode('3-5-ETS1-3')).toBe('3-5');
+    expect(gradeBandForCode('MS-PS3-5')).toBe('6-8');
+    expect(gradeBandForCode('HS-PS3-1')).toBe('9-12');
+  });
+
+  test('should return null for unrecognized codes', () => {
+    expect(gradeBandForCode('PS3.B')).toBeNull();
+  });
+});
+
+describe('LearningProgressions (bundled data)', () => {
+  const progressions = getLearningProgressions();
+  const db = new NGSSDatabase();
+
+  test('should cover every DCI component used by the loaded standards', () => {
+    const used = new Set(db.getAllStandards().flatMap(s => s.dcis.map(d => d.code)));
+    used.forEach(code => {
+      expect(progressions.getProgression(code), code).not.toBeNull();
+    });
+  });
+
+  test('should have a progression for every middle school DCI name', () => {
+    const names = new Set(progressions.getCodes().map(code => progressions.getProgression(code)!.name));
+    DCI_VALUES.forEach(name => {
+      expect(names.has(name), name).toBe(true);
+    });
+  });
+
+  test('should trace PS3.B in grade-band order with middle school standards at 6-8', () => {
+    const steps = progressions.trace('PS3.B', db.getAllStandards())!;
+
+    expect(steps.map(s => s.grade_band)).toEqual(['K-2', '3-5', '6-8', '9-12']);
+    expect(steps[0]!.endpoint).toContain('Sunlight warms');
+    expect(steps[1]!.endpoint).toContain('collide');
+    expect(steps[2]!.standards.map(s => s.code)).toEqual(['MS-PS3-3', 'MS-PS3-4', 'MS-PS3-5']);
+    expect(steps[0]!.standards).toEqual([]);
+  });
+
+  test('should only list terms not introduced at an earlier step', () => {
+    const steps = progressions.trace('PS3.B', db.getAllStandards())!;
+
+    expect(steps[0]!.introduces).toContain('sunlight');
+    steps.slice(1).forEach(step => {
+      expect(step.introduces).not.toContain('sunlight');
+    });
+  });
+
+  test('should report bands without an endpoint as null', () => {
+    const steps = progressions.trace('PS1.C', [])!;
+
+    expect(steps.map(s => s.endpoint === null)).toEqual([true, true, true, false]);
+  });
+
+  test('should accept lowercase codes and return null for unknown components', () => {
+    expect(progressions.getProgression('ps3.b')?.name).toBe('Conservation of Energy and Energy Transfer');
+    expect(progressions.trace('PS9.Z', [])).toBeNull();
+  });
+});
+
+describe('LearningProgressions (custom file)', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ngss-progressions-'));
+  });
+
+  test('should reject progressions that fail schema validation', () => {
+    const path = join(dir, 'invalid.json');
+    writeFileSync(path, JSON.stringify({
+      source: 'test',
+      progressions: [{ code: 'Energy', name: 'Energy transfer', endpoints: {} }]
+    }));
+
+    expect(() => new LearningProgressions(path)).toThrow('Invalid progression Energy');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Learning Progressions - Trace a DCI component across grade bands
+ * Combines curated grade-band endpoints with the standards loaded in the database
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  DCI_PROGRESSIONS_FILE,
+  DciProgressionSchema,
+  GRADE_BANDS,
+  type DciProgression,
+  type GradeBand,
+  type Standard
+} from '../types/ngss.js';
+
+interface ProgressionsContent {
+  source: string;
+  progressions: DciProgression[];
+}
+
+export interface ProgressionStep {
+  grade_band: GradeBand;
+  endpoint: string | null;
+  introduces: string[];     // Key terms not present in any earlier endpoint
+  standards: Standard[];    // Loaded standards in this band that draw on the DCI
+}
+
+/**
+ * Grade band of a standard code: K/1/2 and K-2 engineering → K-2, 3/4/5 and 3-5 → 3-5, MS → 6-8, HS → 9-12
+ */
+export function gradeBandForCode(code: string): GradeBand | null {
+  const prefix = code.match(/^(K-2|3-5|K|[1-5]|MS|HS)-/)?.[1];
+  switch (prefix) {
+    case 'K': case '1': case '2': case 'K-2': return 'K-2';
+    case '3': case '4': case '5': case '3-5': return '3-5';
+    case 'MS': return '6-8';
+    case 'HS': return '9-12';
+    default: return null;
+  }
+}
+
+export class LearningProgressions {
+  private source: string;
+  private progressions: Map<string, DciProgression>;
+
+  constructor(path: string = join(process.cwd(), DCI_PROGRESSIONS_FILE)) {
+    const data: ProgressionsContent = JSON.parse(readFileSync(path, 'utf-8'));
+
+    this.source = data.source;
+    this.progressions = new Map();
+    for (const progression of data.progressions) {
+      const validation = DciProgressionSchema.safeParse(progression);
+      if (!validation.success) {
+        throw new Error(`Invalid progression ${progression.code}: ${validation.error.issues.map(i => i.message).join('; ')}`);
+      }
+      this.progressions.set(progression.code, progression);
+    }
+  }
+
+  getSource(): string {
+    return this.source;
+  }
+
+  getProgression(dciCode: string): DciProgression | null {
+    return this.progressions.get(dciCode.toUpperCase()) || null;
+  }
+
+  getCodes(): string[] {
+    return [...this.progressions.keys()];
+  }
+
+  /**
+   * Ordered steps from K-2 through 9-12 with the loaded standards for each band
+   */
+  trace(dciCode: string, standards: Standard[]): ProgressionStep[] | null {
+    const progression = this.getProgression(dciCode);
+    if (!progression) {
+      return null;
+    }
+
+    const seenTerms = new Set<string>();
+
+    return GRADE_BANDS.map(band => {
+      const endpoint = progression.endpoints[band] ?? null;
+      const terms = endpoint ? this.extractTerms(endpoint) : [];
+      const introduces = terms.filter(term => !seenTerms.has(term)).slice(0, 8);
+      terms.forEach(term => seenTerms.add(term));
+
+      return {
+        grade_band: band,
+        endpoint,
+        introduces,
+        standards: standards
+          .filter(s => gradeBandForCode(s.code) === band && s.dcis.some(d => d.code === progression.code))
+          .sort((a, b) => a.code.localeCompare(b.code))
+      };
+    });
+  }
+
+  private extractTerms(text: string): string[] {
+    const stopWords = new Set(['that', 'this', 'with', 'from', 'they', 'them', 'their', 'than', 'then', 'also', 'some', 'other', 'others', 'each', 'which', 'when', 'what', 'into', 'over', 'more', 'most', 'many', 'such', 'both', 'only', 'very', 'there', 'these', 'those', 'have', 'been', 'being', 'were', 'will', 'same', 'different', 'given', 'used', 'ways']);
+
+    return [...new Set(
+      text
+        .toLowerCase()
+        .split(/[^a-z-]+/)
+        .filter(word => word.length > 3 && !stopWords.has(word))
+    )];
+  }
+}
+
+// Singleton pattern
+let progressionsInstance: LearningProgressions | null = null;
+
+export function getLearningProgressions(): LearningProgressions {
+  if (!progressionsInstance) {
+    progressionsInstance = new LearningProgressions();
+  }
+  return progressionsInstance;
+}
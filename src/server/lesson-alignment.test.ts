@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for Lesson Alignment
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { detectCues, profileLesson, expectedPractices, alignStandard, ALIGNMENT_WEIGHTS } from './lesson-alignment.js';
+import { SEP_CUES } from '../constants/dimension-cues.js';
+import { SEP_CATEGORIES } from '../constants/taxonomy.js';
+import type { Standard } from '../types/ngss.js';
+
+const standard: Standard = {
+  code: 'MS-PS1-4',
+  grade_level: 'MS',
+  domain: 'Physical Science',
+  topic: 'Structure and Properties of Matter',
+  performance_expectation: 'Develop a model that predicts and describes changes in particle motion, temperature, and state of a pure substance when thermal energy is added or removed.',
+  sep: { code: 'SEP-2', name: 'Develop a model to predict and/or describe phenomena.', description: '' },
+  dci: { code: 'PS3.A', name: 'Definitions of Energy', description: '' },
+  ccc: { code: 'CCC-2', name: 'Cause and effect relationships may be used to predict phenomena in natural or designed systems.', description: '' },
+  seps: [],
+  dcis: [],
+  cccs: [],
+  keywords: ['particle motion', 'thermal energy'],
+  lesson_scope: {
+    key_concepts: [],
+    prerequisite_knowledge: [],
+    common_misconceptions: [],
+    depth_boundaries: { include: [], exclude: [] }
+  }
+};
+standard.seps = [standard.sep];
+standard.dcis = [standard.dci];
+standard.cccs = [standard.ccc];
+
+const lesson = 'Students heat ice and record the temperature. Groups then developed physical models of particle motion and use them to predict what happens next.';
+
+describe('detectCues', () => {
+  test('should match stemmed cue words with a few words between them', () => {
+    const [match] = detectCues(lesson, SEP_CUES, SEP_CATEGORIES);
+
+    expect(match!.code).toBe('SEP-2');
+    expect(match!.name).toBe('Developing and Using Models');
+    expect(match!.evidence[0]!.cue).toBe('develop a model');
+  });
+
+  test('should quote the sentence with the cue words in bold', () => {
+    const [match] = detectCues(lesson, SEP_CUES, SEP_CATEGORIES);
+
+    expect(match!.evidence[0]!.excerpt).toBe('Groups then **developed** physical **models** of particle motion and use them to predict what happens next.');
+  });
+
+  test('should not match cue words too far apart', () => {
+    expect(detectCues('We develop our understanding of the famous old model', SEP_CUES, SEP_CATEGORIES)).toEqual([]);
+  });
+});
+
+describe('profileLesson', () => {
+  test('should keep practice cue and classroom words out of the content words', () => {
+    const { practices, concepts, contentTerms } = profileLesson(lesson);
+    const words = [...contentTerms.values()];
+
+    expect(practices.map(p => p.code)).toEqual(['SEP-2']);
+    expect(concepts.map(c => c.code)).toEqual(['CCC-2']);
+    expect(words).toContain('temperature');
+    expect(words).not.toContain('models');
+    expect(words).not.toContain('Students');
+  });
+});
+
+describe('expectedPractices', () => {
+  test('should use the SEP categories of the standard', () => {
+    expect(expectedPractices(standard)).toEqual([{ code: 'SEP-2', name: 'Developing and Using Models' }]);
+  });
+
+  test('should fall back to the practice the PE opens with for uncategorized elements', () => {
+    const uncategorized = { ...standard, seps: [{ ...standard.sep, code: 'SEP-0' }] };
+    expect(expectedPractices(uncategorized).map(p => p.code)).toEqual(['SEP-2']);
+  });
+});
+
+describe('alignStandard', () => {
+  test('should report evidence for each dimension separately', () => {
+    const alignment = alignStandard(standard, profileLesson(lesson), 1);
+
+    expect(alignment.practice.score).toBe(1);
+    expect(alignment.crosscutting.score).toBe(1);
+    expect(alignment.crosscutting.evidence[0]!.cue).toBe('predict');
+    expect(alignment.content.matched_terms).toEqual(['temperature', 'particle', 'motion', 'predict']);
+    expect(alignment.content.snippet).toContain('**particle motion**');
+    expect(alignment.content.elements).toEqual([]);
+    expect(alignment.alignment).toBe(1);
+  });
+
+  test('should score a missing dimension 0 and list what the standard expects', () => {
+    const alignment = alignStandard(standard, profileLesson('Students record the temperature of melting ice.'), 0.8);
+
+    expect(alignment.practice).toEqual({ score: 0, expected: [{ code: 'SEP-2', name: 'Developing and Using Models' }], evidence: [] });
+    expect(alignment.crosscutting.score).toBe(0);
+    expect(alignment.alignment).toBeCloseTo(0.8 * ALIGNMENT_WEIGHTS.content, 2);
+  });
+});
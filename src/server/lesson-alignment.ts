@@ -0,0 +1,231 @@
+/**
+ * Lesson Alignment
+ * Evidence that a lesson addresses each dimension of a standard: the practice (SEP cue phrases
+ * such as "develop a model"), the content (words shared with the PE and DCIs) and the
+ * crosscutting concept (CCC cue phrases), scored separately and then combined.
+ */
+
+import type { HighlightedElement, Standard } from '../types/ngss.js';
+import { SEP_CATEGORIES, CCC_CATEGORIES, UNKNOWN_SEP_CODE, UNKNOWN_CCC_CODE, findCategory } from '../constants/taxonomy.js';
+import { SEP_CUES, CCC_CUES, LESSON_STOP_WORDS } from '../constants/dimension-cues.js';
+import { tokenize } from './search-index.js';
+import { buildSnippet, containsTerms, highlightTerms, SNIPPET_LENGTH } from './highlighter.js';
+
+/**
+ * Share of the combined alignment score contributed by each dimension. The total is scaled by the
+ * content score, so a matching practice alone cannot make an unrelated standard a candidate.
+ */
+export const ALIGNMENT_WEIGHTS = { content: 0.5, practice: 0.25, crosscutting: 0.25 } as const;
+
+const LESSON_STOP_TERMS = new Set(LESSON_STOP_WORDS.flatMap(tokenize));
+
+const CUE_SLACK = 2;              // Extra words allowed between the words of a cue
+const MAX_EVIDENCE = 3;           // Excerpts quoted per dimension
+const MAX_MATCHED_TERMS = 10;
+
+export interface CueEvidence {
+  cue: string;
+  excerpt: string;                // Lesson sentence with the cue's words in **bold**
+}
+
+export interface DimensionMatch {
+  code: string;                   // SEP/CCC category code
+  name: string;
+  evidence: CueEvidence[];
+}
+
+export interface DimensionAlignment {
+  score: number;                  // 1 when the lesson shows one of the expected categories, else 0
+  expected: Array<{ code: string; name: string }>;
+  evidence: CueEvidence[];
+}
+
+export interface ContentAlignment {
+  score: number;                  // Content relevance relative to the best candidate (0-1)
+  expected: Array<{ code: string; name: string }>;
+  matched_terms: string[];        // Lesson words found in the PE, notes, topic, keywords or DCIs
+  snippet: string;                // Performance expectation with the matched words in **bold**
+  elements: HighlightedElement[];   // DCIs whose names contain matched words
+}
+
+export interface LessonAlignment {
+  alignment: number;              // content score x weighted sum of the three dimensions (0-1)
+  practice: DimensionAlignment;
+  content: ContentAlignment;
+  crosscutting: DimensionAlignment;
+}
+
+/**
+ * What a lesson shows, read once and compared with every candidate standard
+ */
+export interface LessonProfile {
+  practices: DimensionMatch[];
+  concepts: DimensionMatch[];
+  contentTerms: Map<string, string>;   // Term -> the lesson's word for it
+}
+
+interface LessonWord {
+  term: string;
+  start: number;
+  end: number;
+}
+
+function lessonWords(text: string): LessonWord[] {
+  return [...text.matchAll(/\w+/g)].flatMap(match => {
+    const [term] = tokenize(match[0]);
+    return term ? [{ term, start: match.index!, end: match.index! + match[0].length }] : [];
+  });
+}
+
+/**
+ * The sentence around a character range, cut to a snippet with the given terms in **bold**
+ */
+function sentenceAround(text: string, start: number, end: number, terms: ReadonlySet<string>): string {
+  const before = Math.max(...['.', '!', '?', '\n'].map(mark => text.lastIndexOf(mark, start - 1)));
+  const after = Math.min(...['.', '!', '?', '\n'].map(mark => {
+    const at = text.indexOf(mark, end);
+    return at === -1 ? text.length : at + 1;
+  }));
+  return buildSnippet(text.slice(before + 1, after).trim(), terms, SNIPPET_LENGTH);
+}
+
+/**
+ * Categories whose cue phrases occur in the text, in category order, with the sentences they occur in
+ */
+export function detectCues(text: string, cues: Record<string, readonly string[]>, categories: readonly { code: string; name: string }[]): DimensionMatch[] {
+  const words = lessonWords(text);
+  const matches: DimensionMatch[] = [];
+
+  for (const category of categories) {
+    const evidence: CueEvidence[] = [];
+    for (const cue of cues[category.code] ?? []) {
+      const cueTerms = tokenize(cue);
+      const found = findCue(words, cueTerms);
+      if (found && evidence.length < MAX_EVIDENCE) {
+        evidence.push({ cue, excerpt: sentenceAround(text, found.start, found.end, new Set(cueTerms)) });
+      }
+    }
+    if (evidence.length > 0) {
+      matches.push({ code: category.code, name: category.name, evidence });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * First occurrence of a cue's terms in order, each within CUE_SLACK words of the previous one
+ */
+function findCue(words: LessonWord[], cueTerms: string[]): { start: number; end: number } | null {
+  if (cueTerms.length === 0) {
+    return null;
+  }
+  for (let i = 0; i < words.length; i++) {
+    if (words[i]!.term !== cueTerms[0]) {
+      continue;
+    }
+    let last = i;
+    const complete = cueTerms.slice(1).every(term => {
+      const next = words.slice(last + 1, last + 2 + CUE_SLACK).findIndex(word => word.term === term);
+      if (next === -1) {
+        return false;
+      }
+      last += next + 1;
+      return true;
+    });
+    if (complete) {
+      return { start: words[i]!.start, end: words[last]!.end };
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a lesson: the practices and crosscutting concepts it shows, and its content words.
+ * Words of the practice cues found ("develop", "model", "data") are left out of the content
+ * words, since every PE opens with its practice, and so is classroom wording ("students", "groups").
+ */
+export function profileLesson(text: string): LessonProfile {
+  const practices = detectCues(text, SEP_CUES, SEP_CATEGORIES);
+  const concepts = detectCues(text, CCC_CUES, CCC_CATEGORIES);
+
+  const practiceTerms = new Set(practices.flatMap(p => p.evidence.flatMap(e => tokenize(e.cue))));
+  const contentTerms = new Map<string, string>();
+  for (const word of lessonWords(text)) {
+    if (!practiceTerms.has(word.term) && !LESSON_STOP_TERMS.has(word.term) && !contentTerms.has(word.term)) {
+      contentTerms.set(word.term, text.slice(word.start, word.end));
+    }
+  }
+
+  return { practices, concepts, contentTerms };
+}
+
+/**
+ * Practice categories a standard expects: those of its SEP elements, or the practice its
+ * PE opens with when the elements could not be categorized
+ */
+export function expectedPractices(standard: Standard): Array<{ code: string; name: string }> {
+  const codes = new Set(standard.seps.map(sep => sep.code).filter(code => code !== UNKNOWN_SEP_CODE));
+  if (codes.size === 0) {
+    const opening = standard.performance_expectation.split(/\s+/).slice(0, 6).join(' ');
+    detectCues(opening, SEP_CUES, SEP_CATEGORIES).forEach(match => codes.add(match.code));
+  }
+  return [...codes].flatMap(code => {
+    const category = findCategory(SEP_CATEGORIES, code);
+    return category ? [{ code: category.code, name: category.name }] : [];
+  });
+}
+
+function expectedConcepts(standard: Standard): Array<{ code: string; name: string }> {
+  const codes = new Set(standard.cccs.map(ccc => ccc.code).filter(code => code !== UNKNOWN_CCC_CODE));
+  return [...codes].flatMap(code => {
+    const category = findCategory(CCC_CATEGORIES, code);
+    return category ? [{ code: category.code, name: category.name }] : [];
+  });
+}
+
+function alignDimension(expected: Array<{ code: string; name: string }>, shown: DimensionMatch[]): DimensionAlignment {
+  const evidence = shown
+    .filter(match => expected.some(e => e.code === match.code))
+    .flatMap(match => match.evidence)
+    .slice(0, MAX_EVIDENCE);
+  return { score: evidence.length > 0 ? 1 : 0, expected, evidence };
+}
+
+/**
+ * Per-dimension alignment of a lesson with one standard. contentScore is the standard's
+ * content relevance relative to the best candidate (0-1).
+ */
+export function alignStandard(standard: Standard, lesson: LessonProfile, contentScore: number): LessonAlignment {
+  const practice = alignDimension(expectedPractices(standard), lesson.practices);
+  const crosscutting = alignDimension(expectedConcepts(standard), lesson.concepts);
+
+  const contentText = [
+    standard.performance_expectation,
+    standard.clarification_statement ?? '',
+    standard.assessment_boundary ?? '',
+    standard.topic,
+    standard.keywords.join(' '),
+    standard.dcis.map(dci => dci.name).join(' ')
+  ].join(' ');
+  const matched = [...lesson.contentTerms].filter(([term]) => containsTerms(contentText, new Set([term])));
+  const matchedTerms = new Set(matched.map(([term]) => term));
+
+  const content: ContentAlignment = {
+    score: Math.round(contentScore * 100) / 100,
+    expected: standard.dcis.map(dci => ({ code: dci.code, name: dci.name })),
+    matched_terms: matched.slice(0, MAX_MATCHED_TERMS).map(([, word]) => word),
+    snippet: buildSnippet(standard.performance_expectation, matchedTerms, SNIPPET_LENGTH),
+    elements: standard.dcis
+      .filter(dci => containsTerms(dci.name, matchedTerms))
+      .map(dci => ({ dimension: 'dci', code: dci.code, name: highlightTerms(dci.name, matchedTerms) }))
+  };
+
+  const alignment = content.score * (
+    ALIGNMENT_WEIGHTS.content
+    + ALIGNMENT_WEIGHTS.practice * practice.score
+    + ALIGNMENT_WEIGHTS.crosscutting * crosscutting.score
+  );
+
+  return { alignment: Math.round(alignment * 100) / 100, practice, content, crosscutting };
+}
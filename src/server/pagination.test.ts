@@ -1,10 +1,10 @@
 /**
  * Pagination Utility Tests
- * Unit tests for pagination metadata builder
+ * Unit tests for pagination metadata builder and cursors
  */
 
 import { describe, expect, test } from 'bun:test';
-import { buildPaginationMetadata } from './response-formatter.js';
+import { buildPaginationMetadata, paginationRequest, encodeCursor, decodeCursor } from './response-formatter.js';
 
 describe('buildPaginationMetadata', () => {
   test('should return correct metadata for first page', () => {
@@ -98,3 +98,44 @@ describe('buildPaginationMetadata', () => {
     expect(metadata.hasMore).toBe(true);
   });
 });
+
+describe('cursors', () => {
+  const request = paginationRequest('search_by_practice', { practice: 'Developing and Using Models', grade_level: undefined });
+
+  test('should round-trip the offset of a page', () => {
+    expect(decodeCursor(encodeCursor(20, request), request)).toBe(20);
+  });
+
+  test('should treat a missing cursor as the first page', () => {
+    expect(decodeCursor(undefined, request)).toBe(0);
+  });
+
+  test('should reject a cursor issued for another request', () => {
+    const other = paginationRequest('search_by_practice', { practice: 'Analyzing and Interpreting Data', grade_level: undefined });
+
+    expect(other).not.toBe(request);
+    expect(decodeCursor(encodeCursor(20, other), request)).toBeNull();
+  });
+
+  test('should identify a request by its parameters, not their order', () => {
+    expect(paginationRequest('filter_standards', { domain: 'Life Science', topic: 'Ecosystems' }))
+      .toBe(paginationRequest('filter_standards', { topic: 'Ecosystems', domain: 'Life Science' }));
+    expect(paginationRequest('filter_standards', { domain: 'Life Science' }))
+      .not.toBe(paginationRequest('search_by_domain', { domain: 'Life Science' }));
+  });
+
+  test('should reject malformed cursors', () => {
+    expect(decodeCursor('not a cursor', request)).toBeNull();
+    expect(decodeCursor(Buffer.from('[1]').toString('base64url'), request)).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify({ o: -5, r: request })).toString('base64url'), request)).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify({ o: 1.5, r: request })).toString('base64url'), request)).toBeNull();
+  });
+
+  test('should add a cursor for the next page only when more results remain', () => {
+    const metadata = buildPaginationMetadata(25, 10, 10, request);
+
+    expect(decodeCursor(metadata.nextCursor, request)).toBe(20);
+    expect(buildPaginationMetadata(25, 20, 10, request)).not.toHaveProperty('nextCursor');
+    expect(buildPaginationMetadata(25, 0, 10)).not.toHaveProperty('nextCursor');
+  });
+});
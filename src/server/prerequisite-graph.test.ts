@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for the Prerequisite Graph
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { PrerequisiteGraph } from './prerequisite-graph.js';
+
+const edge = (prerequisite: string, standard: string) => ({ prerequisite, standard, reason: `${prerequisite} first` });
+
+// Atoms -> substances -> reactions -> respiration; atoms -> photosynthesis -> respiration
+const graph = new PrerequisiteGraph([
+  edge('MS-PS1-1', 'MS-PS1-2'),
+  edge('MS-PS1-2', 'MS-PS1-5'),
+  edge('MS-PS1-5', 'MS-LS1-7'),
+  edge('MS-PS1-1', 'MS-LS1-6'),
+  edge('MS-LS1-6', 'MS-LS1-7')
+]);
+
+describe('PrerequisiteGraph', () => {
+  test('should reject an edge from a standard to itself', () => {
+    expect(() => new PrerequisiteGraph([edge('MS-PS1-1', 'MS-PS1-1')])).toThrow('MS-PS1-1 cannot be its own prerequisite');
+  });
+
+  test('should reject a repeated edge', () => {
+    expect(() => new PrerequisiteGraph([edge('MS-PS1-1', 'MS-PS1-2'), edge('MS-PS1-1', 'MS-PS1-2')]))
+      .toThrow('Duplicate prerequisite MS-PS1-1 -> MS-PS1-2');
+  });
+
+  test('should report the standards in a cycle', () => {
+    expect(() => new PrerequisiteGraph([
+      edge('MS-PS1-4', 'MS-PS1-1'),
+      edge('MS-PS1-1', 'MS-PS1-2'),
+      edge('MS-PS1-2', 'MS-PS1-1')
+    ])).toThrow('Prerequisite cycle: MS-PS1-1 -> MS-PS1-2 -> MS-PS1-1');
+  });
+
+  test('should list ancestors nearest first with the edge that reached them', () => {
+    expect(graph.ancestors('MS-LS1-7')).toEqual([
+      { code: 'MS-LS1-6', depth: 1, via: 'MS-LS1-7', reason: 'MS-LS1-6 first' },
+      { code: 'MS-PS1-5', depth: 1, via: 'MS-LS1-7', reason: 'MS-PS1-5 first' },
+      { code: 'MS-PS1-1', depth: 2, via: 'MS-LS1-6', reason: 'MS-PS1-1 first' },
+      { code: 'MS-PS1-2', depth: 2, via: 'MS-PS1-5', reason: 'MS-PS1-2 first' }
+    ]);
+  });
+
+  test('should stop at the maximum depth', () => {
+    expect(graph.descendants('MS-PS1-1', 1).map(r => r.code)).toEqual(['MS-LS1-6', 'MS-PS1-2']);
+    expect(graph.descendants('MS-PS1-1').map(r => r.code)).toEqual(['MS-LS1-6', 'MS-PS1-2', 'MS-LS1-7', 'MS-PS1-5']);
+    expect(graph.ancestors('MS-ETS1-1')).toEqual([]);
+  });
+
+  test('should follow edges through standards outside the set', () => {
+    expect(graph.prerequisitesWithin(['MS-PS1-5', 'MS-PS1-1'])).toEqual([
+      { prerequisite: 'MS-PS1-1', standard: 'MS-PS1-5', via: ['MS-PS1-2'], reason: null }
+    ]);
+  });
+
+  test('should stop at the nearest prerequisite in the set', () => {
+    const links = graph.prerequisitesWithin(['MS-LS1-7', 'MS-LS1-6', 'MS-PS1-1']);
+
+    expect(links).toContainEqual({ prerequisite: 'MS-LS1-6', standard: 'MS-LS1-7', via: [], reason: 'MS-LS1-6 first' });
+    expect(links).toContainEqual({ prerequisite: 'MS-PS1-1', standard: 'MS-LS1-6', via: [], reason: 'MS-PS1-1 first' });
+    // Only through the chemistry standards, which are outside the set
+    expect(links).toContainEqual({ prerequisite: 'MS-PS1-1', standard: 'MS-LS1-7', via: ['MS-PS1-2', 'MS-PS1-5'], reason: null });
+  });
+
+  test('should order prerequisites first and otherwise keep the input order', () => {
+    const { order, levels } = graph.order(['MS-ETS1-1', 'MS-LS1-7', 'MS-PS1-5', 'MS-PS1-1', 'MS-ETS1-2']);
+
+    expect(order).toEqual(['MS-ETS1-1', 'MS-PS1-1', 'MS-PS1-5', 'MS-LS1-7', 'MS-ETS1-2']);
+    expect(levels).toEqual([['MS-ETS1-1', 'MS-PS1-1', 'MS-ETS1-2'], ['MS-PS1-5'], ['MS-LS1-7']]);
+  });
+
+  test('should find prerequisites planned after the standards needing them', () => {
+    const { violations } = graph.checkSequence([['MS-LS1-7'], ['MS-LS1-6', 'MS-PS1-1']]);
+
+    expect(violations).toContainEqual({
+      prerequisite: 'MS-LS1-6',
+      standard: 'MS-LS1-7',
+      via: [],
+      reason: 'MS-LS1-6 first',
+      prerequisite_position: 2,
+      standard_position: 1
+    });
+    expect(violations.every(v => v.standard === 'MS-LS1-7')).toBe(true);
+  });
+
+  test('should allow a prerequisite in the same step', () => {
+    expect(graph.checkSequence([['MS-LS1-6', 'MS-PS1-1']]).violations).toEqual([]);
+  });
+
+  test('should list direct prerequisites missing from the plan', () => {
+    const { violations, missing } = graph.checkSequence([['MS-PS1-1'], ['MS-LS1-6'], ['MS-LS1-7']]);
+
+    expect(violations).toEqual([]);
+    expect(missing).toEqual([edge('MS-PS1-5', 'MS-LS1-7')]);
+  });
+});
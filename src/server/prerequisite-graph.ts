@@ -0,0 +1,274 @@
+/**
+ * Prerequisite Graph
+ * Directed edges from a standard to the standards that build on it ("MS-PS1-1 before MS-LS1-6").
+ * Answers which standards come before or after a standard, directly or through others, orders a
+ * set of standards so prerequisites come first, and checks a planned sequence for standards
+ * taught before their prerequisites.
+ *
+ * Within a set, edges through standards outside it still count: with MS-PS1-1 -> MS-PS1-2 ->
+ * MS-PS1-5, MS-PS1-1 comes before MS-PS1-5 even when MS-PS1-2 is not in the set.
+ */
+
+import type { PrerequisiteEdge } from '../types/ngss.js';
+
+export interface RelatedStandard {
+  code: string;
+  depth: number;                  // 1 for a direct prerequisite or dependent
+  via: string;                    // Standard one step closer to the start (the start itself at depth 1)
+  reason: string;                 // Reason of the edge between code and via
+}
+
+export interface SetPrerequisite {
+  prerequisite: string;
+  standard: string;
+  via: string[];                  // Standards outside the set in between; empty for a direct edge
+  reason: string | null;          // Reason of the direct edge; null when through other standards
+}
+
+export interface StandardOrder {
+  order: string[];                // Every code in input order, except that prerequisites are moved first
+  levels: string[][];             // Codes by longest prerequisite chain within the set
+  prerequisites: SetPrerequisite[];
+}
+
+export interface SequenceViolation extends SetPrerequisite {
+  prerequisite_position: number;  // 1-based step of the sequence
+  standard_position: number;
+}
+
+export interface SequenceCheck {
+  violations: SequenceViolation[];     // Prerequisites planned after the standards needing them
+  missing: PrerequisiteEdge[];         // Direct prerequisites not in the sequence at all
+}
+
+export class PrerequisiteGraph {
+  private edges: PrerequisiteEdge[];
+  private incoming: Map<string, PrerequisiteEdge[]>;   // Standard -> edges from its prerequisites
+  private outgoing: Map<string, PrerequisiteEdge[]>;   // Prerequisite -> edges to its dependents
+
+  /**
+   * Throws on an edge from a standard to itself, a repeated edge or a cycle
+   */
+  constructor(edges: PrerequisiteEdge[] = []) {
+    this.edges = [...edges];
+    this.incoming = new Map();
+    this.outgoing = new Map();
+
+    const seen = new Set<string>();
+    for (const edge of edges) {
+      if (edge.prerequisite === edge.standard) {
+        throw new Error(`${edge.standard} cannot be its own prerequisite`);
+      }
+      const key = `${edge.prerequisite}|${edge.standard}`;
+      if (seen.has(key)) {
+        throw new Error(`Duplicate prerequisite ${edge.prerequisite} -> ${edge.standard}`);
+      }
+      seen.add(key);
+      this.incoming.set(edge.standard, [...(this.incoming.get(edge.standard) ?? []), edge]);
+      this.outgoing.set(edge.prerequisite, [...(this.outgoing.get(edge.prerequisite) ?? []), edge]);
+    }
+
+    const cycle = this.findCycle();
+    if (cycle) {
+      throw new Error(`Prerequisite cycle: ${cycle.join(' -> ')}`);
+    }
+  }
+
+  get size(): number {
+    return this.edges.length;
+  }
+
+  getEdges(): PrerequisiteEdge[] {
+    return [...this.edges];
+  }
+
+  /**
+   * True when the code has at least one prerequisite or dependent
+   */
+  has(code: string): boolean {
+    return this.incoming.has(code) || this.outgoing.has(code);
+  }
+
+  /**
+   * Direct prerequisites of a standard
+   */
+  prerequisitesOf(code: string): PrerequisiteEdge[] {
+    return [...(this.incoming.get(code) ?? [])];
+  }
+
+  /**
+   * Standards that directly build on a standard
+   */
+  dependentsOf(code: string): PrerequisiteEdge[] {
+    return [...(this.outgoing.get(code) ?? [])];
+  }
+
+  /**
+   * Every standard to teach before this one, nearest first
+   */
+  ancestors(code: string, maxDepth: number = Infinity): RelatedStandard[] {
+    return this.walk(code, maxDepth, edge => edge.prerequisite, this.incoming);
+  }
+
+  /**
+   * Every standard that builds on this one, nearest first
+   */
+  descendants(code: string, maxDepth: number = Infinity): RelatedStandard[] {
+    return this.walk(code, maxDepth, edge => edge.standard, this.outgoing);
+  }
+
+  /**
+   * For each code, its nearest prerequisites within the set, following edges through
+   * standards outside the set
+   */
+  prerequisitesWithin(codes: string[]): SetPrerequisite[] {
+    const members = new Set(codes);
+    return [...members].flatMap(standard => {
+      const found = new Map<string, SetPrerequisite>();
+      const visited = new Set<string>();
+      let frontier = [{ code: standard, via: [] as string[] }];
+      while (frontier.length > 0) {
+        const next: typeof frontier = [];
+        for (const { code, via } of frontier) {
+          for (const edge of this.incoming.get(code) ?? []) {
+            const prerequisite = edge.prerequisite;
+            if (members.has(prerequisite)) {
+              if (!found.has(prerequisite)) {
+                found.set(prerequisite, { prerequisite, standard, via, reason: via.length === 0 ? edge.reason : null });
+              }
+            } else if (!visited.has(prerequisite)) {
+              visited.add(prerequisite);
+              next.push({ code: prerequisite, via: [prerequisite, ...via] });
+            }
+          }
+        }
+        frontier = next;
+      }
+      return [...found.values()];
+    });
+  }
+
+  /**
+   * Order a set of codes so every prerequisite comes before the standards needing it
+   */
+  order(codes: string[]): StandardOrder {
+    const unique = [...new Set(codes)];
+    const prerequisites = this.prerequisitesWithin(unique);
+    const before = new Map<string, string[]>();
+    prerequisites.forEach(p => before.set(p.standard, [...(before.get(p.standard) ?? []), p.prerequisite]));
+
+    const level = new Map<string, number>();
+    const levelOf = (code: string): number => {
+      if (!level.has(code)) {
+        level.set(code, Math.max(-1, ...(before.get(code) ?? []).map(levelOf)) + 1);
+      }
+      return level.get(code)!;
+    };
+    const levels: string[][] = [];
+    unique.forEach(code => {
+      const l = levelOf(code);
+      while (levels.length <= l) {
+        levels.push([]);
+      }
+      levels[l]!.push(code);
+    });
+
+    // Repeatedly take the first remaining code whose prerequisites are all taken
+    const order: string[] = [];
+    const remaining = [...unique];
+    while (remaining.length > 0) {
+      const next = remaining.findIndex(code => (before.get(code) ?? []).every(p => !remaining.includes(p)));
+      order.push(...remaining.splice(next, 1));
+    }
+
+    return { order, levels, prerequisites };
+  }
+
+  /**
+   * Check a planned sequence of steps (units or lessons, each one or more codes). Standards in
+   * the same step may come in either order.
+   */
+  checkSequence(steps: string[][]): SequenceCheck {
+    const position = new Map<string, number>();
+    steps.forEach((step, i) => step.forEach(code => {
+      if (!position.has(code)) {
+        position.set(code, i + 1);
+      }
+    }));
+
+    const violations = this.prerequisitesWithin([...position.keys()])
+      .filter(p => position.get(p.prerequisite)! > position.get(p.standard)!)
+      .map(p => ({
+        ...p,
+        prerequisite_position: position.get(p.prerequisite)!,
+        standard_position: position.get(p.standard)!
+      }))
+      .sort((a, b) => a.standard_position - b.standard_position || a.standard.localeCompare(b.standard));
+
+    const missing = [...position.keys()].flatMap(code =>
+      this.prerequisitesOf(code).filter(edge => !position.has(edge.prerequisite))
+    );
+
+    return { violations, missing };
+  }
+
+  private walk(
+    start: string,
+    maxDepth: number,
+    next: (edge: PrerequisiteEdge) => string,
+    edges: Map<string, PrerequisiteEdge[]>
+  ): RelatedStandard[] {
+    const found = new Map<string, RelatedStandard>([[start, { code: start, depth: 0, via: start, reason: '' }]]);
+    let frontier = [start];
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const reached: string[] = [];
+      for (const via of frontier) {
+        for (const edge of edges.get(via) ?? []) {
+          const code = next(edge);
+          if (!found.has(code)) {
+            found.set(code, { code, depth, via, reason: edge.reason });
+            reached.push(code);
+          }
+        }
+      }
+      frontier = reached;
+    }
+    found.delete(start);
+    return [...found.values()].sort((a, b) => a.depth - b.depth || a.code.localeCompare(b.code));
+  }
+
+  // Depth-first search for a back edge; returns the cycle's codes with the first repeated at the end
+  private findCycle(): string[] | null {
+    const state = new Map<string, 'open' | 'done'>();
+    const path: string[] = [];
+    const visit = (code: string): string[] | null => {
+      state.set(code, 'open');
+      path.push(code);
+      for (const edge of this.outgoing.get(code) ?? []) {
+        const status = state.get(edge.standard);
+        if (status === 'open') {
+          return [...path.slice(path.indexOf(edge.standard)), edge.standard];
+        }
+        if (status === undefined) {
+          const cycle = visit(edge.standard);
+          if (cycle) {
+            return cycle;
+          }
+        }
+      }
+      path.pop();
+      state.set(code, 'done');
+      return null;
+    };
+
+    for (const code of this.outgoing.keys()) {
+      if (!state.has(code)) {
+        const cycle = visit(code);
+        if (cycle) {
+          return cycle;
+        }
+      }
+    }
+    return null;
+  }
+}
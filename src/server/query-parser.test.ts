@@ -0,0 +1,94 @@
+/**
+ * Unit Tests for the Search Query Parser
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { parseQuery, matchesCodePattern, type QueryNode } from './query-parser.js';
+
+const parse = (query: string): QueryNode => {
+  const result = parseQuery(query);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.query;
+};
+
+const word = (text: string): QueryNode => ({ type: 'term', text, phrase: false, field: undefined });
+
+describe('parseQuery', () => {
+  test('should parse plain words as one group', () => {
+    expect(parse('energy transfer')).toEqual({ type: 'group', operands: [word('energy'), word('transfer')] });
+    expect(parse('energy')).toEqual(word('energy'));
+  });
+
+  test('should keep lowercase operators as words', () => {
+    expect(parse('weather and climate')).toEqual({ type: 'group', operands: [word('weather'), word('and'), word('climate')] });
+  });
+
+  test('should parse phrases and field prefixes', () => {
+    expect(parse('"thermal energy"')).toEqual({ type: 'term', text: 'thermal energy', phrase: true, field: undefined });
+    expect(parse('dci:"Natural Selection"')).toEqual({ type: 'term', text: 'Natural Selection', phrase: true, field: 'dci' });
+    expect(parse('TOPIC:ecosystems')).toEqual({ type: 'term', text: 'ecosystems', phrase: false, field: 'topic' });
+    expect(parse('code:MS-LS*')).toEqual({ type: 'term', text: 'MS-LS*', phrase: false, field: 'code' });
+  });
+
+  test('should parse NOT and a leading minus as negation, keeping inner hyphens', () => {
+    const expected = { type: 'group', operands: [word('energy'), { type: 'not', operand: word('sound') }] };
+
+    expect(parse('energy NOT sound')).toEqual(expected);
+    expect(parse('energy -sound')).toEqual(expected);
+    expect(parse('Earth-Sun')).toEqual(word('Earth-Sun'));
+  });
+
+  test('should bind NOT tighter than AND, AND tighter than adjacency, adjacency tighter than OR', () => {
+    expect(parse('a AND NOT b c OR d')).toEqual({
+      type: 'or',
+      operands: [
+        { type: 'group', operands: [{ type: 'and', operands: [word('a'), { type: 'not', operand: word('b') }] }, word('c')] },
+        word('d')
+      ]
+    });
+  });
+
+  test('should parse parenthesized groups', () => {
+    expect(parse('(heat OR energy) AND transfer')).toEqual({
+      type: 'and',
+      operands: [{ type: 'or', operands: [word('heat'), word('energy')] }, word('transfer')]
+    });
+  });
+
+  test('should treat a trailing colon as punctuation', () => {
+    expect(parse('Note: energy')).toEqual({ type: 'group', operands: [word('Note:'), word('energy')] });
+  });
+
+  test.each([
+    ['energy AND', 'Expected a term after AND', 10],
+    ['NOT', 'Expected a term after NOT', 3],
+    ['OR energy', 'Unexpected "OR"', 0],
+    ['energy OR OR waves', 'Expected a term after OR', 10],
+    ['"thermal energy', 'Unterminated phrase: missing closing quote', 0],
+    ['""', 'Empty phrase', 0],
+    ['(energy', 'Missing closing parenthesis', 0],
+    ['energy)', 'Unexpected ")"', 6],
+    ['()', 'Empty group "()"', 0],
+    ['foo:bar', 'Unknown field "foo". Use one of: topic:, dci:, sep:, ccc:, code:', 0],
+    ['energy topic: waves', 'Missing value after topic:', 7],
+    ['code:MS/LS', 'Invalid code pattern. Use letters, digits, dots, hyphens and the wildcards * and ?', 0]
+  ])('should report %p as "%s" at position %d', (query, error, position) => {
+    expect(parseQuery(query)).toEqual({ success: false, error, position });
+  });
+});
+
+describe('matchesCodePattern', () => {
+  test('should match wildcards case-insensitively', () => {
+    expect(matchesCodePattern('MS-LS1-6', 'MS-LS*')).toBe(true);
+    expect(matchesCodePattern('MS-LS1-6', 'ms-ls?-6')).toBe(true);
+    expect(matchesCodePattern('MS-LS1-6', 'MS-PS*')).toBe(false);
+    expect(matchesCodePattern('MS-LS1-6', 'MS-LS1')).toBe(false);
+  });
+
+  test('should treat dots literally', () => {
+    expect(matchesCodePattern('NJ.MS-PS1-1', 'NJ.*')).toBe(true);
+    expect(matchesCodePattern('NJXMS-PS1-1', 'NJ.*')).toBe(false);
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Search Query Parser
+ * Parses the search_standards query syntax into a tree:
+ *
+ *   energy transfer          plain words: ranked by relevance, any may match
+ *   "thermal energy"         phrase: the words must appear consecutively
+ *   long-term                hyphenated words search as a phrase ("long term")
+ *   energy AND waves         both must match
+ *   energy OR waves          either may match
+ *   energy NOT sound         exclude matches (also: energy -sound)
+ *   (heat OR energy) AND transfer
+ *   topic:ecosystems  dci:"Natural Selection"  sep:models  ccc:patterns
+ *   code:MS-LS*              standard code pattern (* any characters, ? one character)
+ *
+ * Side by side, phrases, field terms and parenthesized expressions must all match and plain
+ * words only rank the result: dci:"Natural Selection" model lists the Natural Selection
+ * standards, those mentioning models first. Without any of those, plain words search as before.
+ *
+ * Operators are uppercase, so "weather and climate" stays a plain word search.
+ * Precedence: NOT binds tightest, then AND, then adjacency, then OR.
+ */
+
+export type QueryField = 'topic' | 'dci' | 'sep' | 'ccc' | 'code';
+
+export const QUERY_FIELDS: readonly QueryField[] = ['topic', 'dci', 'sep', 'ccc', 'code'];
+
+export interface TermNode {
+  type: 'term';
+  text: string;
+  phrase: boolean;                     // Quoted: the words must appear consecutively
+  field?: QueryField | undefined;      // Prefix; absent searches every field
+}
+
+export type QueryNode =
+  | TermNode
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'and'; operands: QueryNode[] }
+  | { type: 'or'; operands: QueryNode[] }
+  | { type: 'group'; operands: QueryNode[] };   // Side-by-side clauses (see above); NOT operands exclude
+
+export type QueryParseResult =
+  | { success: true; query: QueryNode }
+  | { success: false; error: string; position: number };   // position: 0-based character offset
+
+interface Token {
+  kind: 'term' | 'and' | 'or' | 'not' | 'lparen' | 'rparen';
+  position: number;
+  text?: string;
+  phrase?: boolean;
+  field?: QueryField;
+}
+
+/**
+ * Internal: thrown by the lexer and parser, converted to a QueryParseResult by parseQuery
+ */
+class ParseFailure extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+const CODE_PATTERN = /^[A-Za-z0-9.*?-]+$/;
+
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readPhrase = (start: number): { text: string; end: number } => {
+    const close = query.indexOf('"', start + 1);
+    if (close === -1) {
+      throw new ParseFailure('Unterminated phrase: missing closing quote', start);
+    }
+    const text = query.slice(start + 1, close).trim();
+    if (text.length === 0) {
+      throw new ParseFailure('Empty phrase', start);
+    }
+    return { text, end: close + 1 };
+  };
+
+  while (i < query.length) {
+    const char = query[i]!;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', position: i });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]!)) {
+      tokens.push({ kind: 'not', position: i });
+      i++;
+    } else if (char === '"') {
+      const { text, end } = readPhrase(i);
+      tokens.push({ kind: 'term', position: i, text, phrase: true });
+      i = end;
+    } else {
+      const start = i;
+      while (i < query.length && !/[\s()"]/.test(query[i]!)) {
+        i++;
+      }
+      const word = query.slice(start, i);
+
+      if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not', position: start });
+        continue;
+      }
+
+      const prefixed = /^([A-Za-z]+):(.*)$/.exec(word);
+      if (!prefixed) {
+        tokens.push({ kind: 'term', position: start, text: word, phrase: false });
+        continue;
+      }
+
+      const field = prefixed[1]!.toLowerCase() as QueryField;
+      if (!QUERY_FIELDS.includes(field) && prefixed[2]!.length === 0 && query[i] !== '"') {
+        // A trailing colon ("Note:") is punctuation, not a field
+        tokens.push({ kind: 'term', position: start, text: word, phrase: false });
+        continue;
+      }
+      if (!QUERY_FIELDS.includes(field)) {
+        throw new ParseFailure(`Unknown field "${prefixed[1]}". Use one of: ${QUERY_FIELDS.map(f => `${f}:`).join(', ')}`, start);
+      }
+
+      let text = prefixed[2]!;
+      let phrase = false;
+      if (text.length === 0 && query[i] === '"') {
+        const quoted = readPhrase(i);
+        text = quoted.text;
+        phrase = true;
+        i = quoted.end;
+      }
+      if (text.length === 0) {
+        throw new ParseFailure(`Missing value after ${field}:`, start);
+      }
+      if (field === 'code' && (phrase || !CODE_PATTERN.test(text))) {
+        throw new ParseFailure('Invalid code pattern. Use letters, digits, dots, hyphens and the wildcards * and ?', start);
+      }
+      tokens.push({ kind: 'term', position: start, text, phrase, field });
+    }
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private length: number) {}
+
+  parse(): QueryNode {
+    if (this.tokens.length === 0) {
+      throw new ParseFailure('Query is empty', 0);
+    }
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new ParseFailure('Unexpected ")"', extra.position);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private position(): number {
+    return this.peek()?.position ?? this.length;
+  }
+
+  private startsOperand(): boolean {
+    const token = this.peek();
+    return token !== undefined && (token.kind === 'term' || token.kind === 'not' || token.kind === 'lparen');
+  }
+
+  private expectOperand(after: string): void {
+    if (!this.startsOperand()) {
+      throw new ParseFailure(`Expected a term after ${after}`, this.position());
+    }
+  }
+
+  // or := group ( OR group )*
+  private parseOr(): QueryNode {
+    const operands = [this.parseGroup()];
+    while (this.peek()?.kind === 'or') {
+      this.index++;
+      this.expectOperand('OR');
+      operands.push(this.parseGroup());
+    }
+    return operands.length === 1 ? operands[0]! : { type: 'or', operands };
+  }
+
+  // group := and and*
+  private parseGroup(): QueryNode {
+    const operands = [this.parseAnd()];
+    while (this.startsOperand()) {
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0]! : { type: 'group', operands };
+  }
+
+  // and := unary ( AND unary )*
+  private parseAnd(): QueryNode {
+    const operands = [this.parseUnary()];
+    while (this.peek()?.kind === 'and') {
+      this.index++;
+      this.expectOperand('AND');
+      operands.push(this.parseUnary());
+    }
+    return operands.length === 1 ? operands[0]! : { type: 'and', operands };
+  }
+
+  // unary := ( NOT | - ) unary | primary
+  private parseUnary(): QueryNode {
+    if (this.peek()?.kind === 'not') {
+      this.index++;
+      this.expectOperand('NOT');
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  // primary := "(" or ")" | term
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+    if (!token) {
+      throw new ParseFailure('Unexpected end of query', this.length);
+    }
+
+    if (token.kind === 'lparen') {
+      this.index++;
+      if (this.peek()?.kind === 'rparen') {
+        throw new ParseFailure('Empty group "()"', token.position);
+      }
+      const node = this.parseOr();
+      if (this.peek()?.kind !== 'rparen') {
+        throw new ParseFailure('Missing closing parenthesis', token.position);
+      }
+      this.index++;
+      return node;
+    }
+
+    if (token.kind === 'term') {
+      this.index++;
+      return { type: 'term', text: token.text!, phrase: token.phrase!, field: token.field };
+    }
+
+    const label = token.kind === 'rparen' ? ')' : token.kind.toUpperCase();
+    throw new ParseFailure(`Unexpected "${label}"`, token.position);
+  }
+}
+
+/**
+ * Parse a search query. Plain words parse to a single group of terms, so ordinary queries are
+ * searched exactly as before the syntax existed.
+ */
+export function parseQuery(query: string): QueryParseResult {
+  try {
+    return { success: true, query: new Parser(lex(query), query.length).parse() };
+  } catch (error) {
+    if (error instanceof ParseFailure) {
+      return { success: false, error: error.message, position: error.position };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether a code matches a code: pattern (case-insensitive; * any characters, ? one character)
+ */
+export function matchesCodePattern(code: string, pattern: string): boolean {
+  const regex = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${regex}$`, 'i').test(code);
+}
+
+/**
+ * Whether a word is hyphenated ("long-term"); hyphenated words are searched as a phrase
+ */
+export function isHyphenated(word: string): boolean {
+  return /[A-Za-z0-9]-[A-Za-z0-9]/.test(word);
+}
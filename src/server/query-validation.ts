@@ -3,24 +3,37 @@
  * Provides input validation and sanitization for database queries
  */
 
+import { PATTERNS } from '../types/ngss.js';
+import { parseQuery, type QueryNode } from './query-parser.js';
+import { SEARCH_FIELDS } from './search-index.js';
+
 export interface ValidationResult {
   isValid: boolean;
   sanitized?: string;
   error?: string;
 }
 
+export interface SearchQueryValidationResult extends ValidationResult {
+  query?: QueryNode;      // Parsed query when valid
+  position?: number;      // Character offset of a syntax error
+}
+
 export class QueryValidator {
   private static readonly MAX_QUERY_LENGTH = 500;
   private static readonly MIN_QUERY_LENGTH = 1;
   private static readonly MAX_LIMIT = 100;
+  private static readonly MAX_FIELD_WEIGHT = 10;
   private static readonly VALID_DOMAINS = [
     'Physical Science',
     'Life Science',
     'Earth and Space Science',
+    'Engineering, Technology, and Applications of Science',
     'physical-science',
     'life-science',
-    'earth-space-science'
+    'earth-space-science',
+    'engineering-technology'
   ];
+  private static readonly VALID_GRADE_LEVELS = ['ES', 'MS', 'HS'];
 
   /**
    * Validate and sanitize a search query string
@@ -67,6 +80,32 @@ export class QueryValidator {
     };
   }
 
+  /**
+   * Validate a search_standards query: the checks of validateQuery, then the query syntax
+   * (phrases, AND/OR/NOT, field prefixes). Syntax errors report where they occur.
+   */
+  static validateSearchQuery(query: string): SearchQueryValidationResult {
+    const validation = this.validateQuery(query);
+    if (!validation.isValid) {
+      return validation;
+    }
+
+    const parsed = parseQuery(validation.sanitized!);
+    if (!parsed.success) {
+      return {
+        isValid: false,
+        error: `Invalid query syntax at position ${parsed.position}: ${parsed.error}`,
+        position: parsed.position
+      };
+    }
+
+    return {
+      isValid: true,
+      sanitized: validation.sanitized!,
+      query: parsed.query
+    };
+  }
+
   /**
    * Validate limit parameter
    */
@@ -101,6 +140,57 @@ export class QueryValidator {
     return { isValid: true };
   }
 
+  /**
+   * Validate the full-text fields a search is limited to
+   */
+  static validateFields(fields?: readonly string[]): ValidationResult {
+    if (fields === undefined || fields === null) {
+      return { isValid: true }; // Optional parameter
+    }
+
+    if (fields.length === 0) {
+      return {
+        isValid: false,
+        error: 'Fields must list at least one field'
+      };
+    }
+
+    const unknown = fields.filter(field => !(SEARCH_FIELDS as readonly string[]).includes(field));
+    if (unknown.length > 0) {
+      return {
+        isValid: false,
+        error: `Unknown field ${unknown.join(', ')}. Must be one of: ${SEARCH_FIELDS.join(', ')}`
+      };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validate field weight overrides (field name -> weight between 0 and MAX_FIELD_WEIGHT)
+   */
+  static validateWeights(weights?: Readonly<Record<string, number | undefined>>): ValidationResult {
+    if (weights === undefined || weights === null) {
+      return { isValid: true }; // Optional parameter
+    }
+
+    const fieldsResult = Object.keys(weights).length > 0 ? this.validateFields(Object.keys(weights)) : { isValid: true };
+    if (!fieldsResult.isValid) {
+      return fieldsResult;
+    }
+
+    for (const [field, weight] of Object.entries(weights)) {
+      if (weight !== undefined && !(Number.isFinite(weight) && weight >= 0 && weight <= this.MAX_FIELD_WEIGHT)) {
+        return {
+          isValid: false,
+          error: `Weight for ${field} must be between 0 and ${this.MAX_FIELD_WEIGHT}`
+        };
+      }
+    }
+
+    return { isValid: true };
+  }
+
   /**
    * Validate domain parameter
    */
@@ -114,7 +204,30 @@ export class QueryValidator {
     if (!this.VALID_DOMAINS.includes(sanitized)) {
       return {
         isValid: false,
-        error: `Invalid domain. Must be one of: ${this.VALID_DOMAINS.slice(0, 3).join(', ')}`
+        error: `Invalid domain. Must be one of: ${this.VALID_DOMAINS.slice(0, 4).join(', ')}`
+      };
+    }
+
+    return {
+      isValid: true,
+      sanitized
+    };
+  }
+
+  /**
+   * Validate grade level parameter
+   */
+  static validateGradeLevel(gradeLevel?: string): ValidationResult {
+    if (gradeLevel === undefined || gradeLevel === null) {
+      return { isValid: true }; // Optional parameter
+    }
+
+    const sanitized = String(gradeLevel).trim().toUpperCase();
+
+    if (!this.VALID_GRADE_LEVELS.includes(sanitized)) {
+      return {
+        isValid: false,
+        error: `Invalid grade level. Must be one of: ${this.VALID_GRADE_LEVELS.join(', ')}`
       };
     }
 
@@ -137,13 +250,37 @@ export class QueryValidator {
 
     const sanitized = String(code).trim();
 
-    // Check format: MS-{PS|LS|ESS}{number}-{number}
-    const codePattern = /^MS-(PS|LS|ESS)\d+-\d+$/;
+    // Check format: {K|1-5|K-2|3-5|MS|HS}-{PS|LS|ESS|ETS}{number}-{number}
+    if (!PATTERNS.STANDARD_CODE_FORMAT.test(sanitized)) {
+      return {
+        isValid: false,
+        error: 'Invalid standard code format. Expected: {K|1-5|K-2|3-5|MS|HS}-{PS|LS|ESS|ETS}{number}-{number}'
+      };
+    }
 
-    if (!codePattern.test(sanitized)) {
+    return {
+      isValid: true,
+      sanitized
+    };
+  }
+
+  /**
+   * Validate a state code from a loaded overlay (format only; existence is checked by the database)
+   */
+  static validateStateCode(code: string): ValidationResult {
+    if (!code) {
+      return {
+        isValid: false,
+        error: 'State code is required'
+      };
+    }
+
+    const sanitized = String(code).trim();
+
+    if (!PATTERNS.STATE_CODE_FORMAT.test(sanitized)) {
       return {
         isValid: false,
-        error: 'Invalid standard code format. Expected: MS-{PS|LS|ESS}{number}-{number}'
+        error: 'Invalid state code format. Expected 2-40 letters, digits, dots or hyphens'
       };
     }
 
@@ -190,7 +327,10 @@ export class QueryValidator {
    */
   static validateSearchOptions(options: {
     domain?: string;
+    gradeLevel?: string;
     limit?: number;
+    fields?: readonly string[];
+    weights?: Readonly<Record<string, number | undefined>>;
   }): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
@@ -202,6 +342,14 @@ export class QueryValidator {
       }
     }
 
+    // Validate grade level if provided
+    if (options.gradeLevel !== undefined) {
+      const gradeResult = this.validateGradeLevel(options.gradeLevel);
+      if (!gradeResult.isValid) {
+        errors.push(gradeResult.error!);
+      }
+    }
+
     // Validate limit if provided
     if (options.limit !== undefined) {
       const limitResult = this.validateLimit(options.limit);
@@ -210,6 +358,13 @@ export class QueryValidator {
       }
     }
 
+    // Validate field scope if provided
+    for (const result of [this.validateFields(options.fields), this.validateWeights(options.weights)]) {
+      if (!result.isValid) {
+        errors.push(result.error!);
+      }
+    }
+
     return {
       isValid: errors.length === 0,
       errors
@@ -6,7 +6,7 @@ import { describe, test, expect } from 'bun:test';
 import { formatResponse, formatResponseArray, truncateAtWordBoundary, limitKeywords } from './response-formatter.js';
 import type { Standard } from '../types/ngss.js';
 
-// Sample standard for testing
+// Sample standard for testing (3D arrays filled in below from the primary elements)
 const sampleStandard: Standard = {
   code: 'MS-PS1-1',
   grade_level: 'MS',
@@ -24,10 +24,13 @@ const sampleStandard: Standard = {
     description: 'Substances are made from different types of atoms, which combine with one another in various ways. Atoms form molecules that range in size from two to thousands of atoms.'
   },
   ccc: {
-    code: 'CCC-7',
+    code: 'CCC-3',
     name: 'Scale, Proportion, and Quantity',
     description: 'Time, space, and energy phenomena can be observed at various scales using models to study systems that are too large or too small.'
   },
+  seps: [],
+  dcis: [],
+  cccs: [],
   keywords: ['atoms', 'molecules', 'molecular structure', 'chemical composition', 'models', 'atomic composition', 'simple molecules', 'extended structures'],
   lesson_scope: {
     key_concepts: [
@@ -55,6 +58,9 @@ const sampleStandard: Standard = {
     }
   }
 };
+sampleStandard.seps = [sampleStandard.sep];
+sampleStandard.dcis = [sampleStandard.dci];
+sampleStandard.cccs = [sampleStandard.ccc];
 
 describe('truncateAtWordBoundary', () => {
   test('should not truncate text shorter than maxChars', () => {
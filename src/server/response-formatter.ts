@@ -3,7 +3,9 @@
  * Provides configurable response formatting for token optimization
  */
 
+import { createHash } from 'crypto';
 import type { Standard, DetailLevel, MinimalStandard, SummaryStandard, PaginationMetadata } from '../types/ngss.js';
+import { generateCacheKey } from './query-cache.js';
 
 /**
  * Truncate text at word boundary
@@ -87,23 +89,73 @@ export function formatResponseArray(
   return standards.map(standard => formatResponse(standard, detailLevel));
 }
 
+/**
+ * Identify a paginated request: a short hash of the tool name and the parameters that decide
+ * its results (not limit or detail level, which may change from page to page)
+ *
+ * @param tool - Tool name
+ * @param params - Query and filter parameters
+ * @returns Request identifier recorded in its cursors
+ */
+export function paginationRequest(tool: string, params: Record<string, unknown>): string {
+  return createHash('sha256').update(generateCacheKey(tool, params)).digest('hex').slice(0, 12);
+}
+
+/**
+ * Encode an opaque cursor for the page starting at an offset
+ *
+ * @param offset - Offset of the page the cursor points to
+ * @param request - Request identifier from paginationRequest
+ * @returns Base64url cursor
+ */
+export function encodeCursor(offset: number, request: string): string {
+  return Buffer.from(JSON.stringify({ o: offset, r: request })).toString('base64url');
+}
+
+/**
+ * Decode a cursor from encodeCursor. A missing cursor is the first page.
+ *
+ * @param cursor - Cursor from a previous response, or undefined
+ * @param request - Request identifier of the current request
+ * @returns Offset of the page, or null when the cursor is malformed or was issued for another request
+ */
+export function decodeCursor(cursor: string | undefined, request: string): number | null {
+  if (cursor === undefined) {
+    return 0;
+  }
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof decoded !== 'object' || decoded === null) {
+      return null;
+    }
+    const { o, r } = decoded as { o?: unknown; r?: unknown };
+    return Number.isInteger(o) && (o as number) >= 0 && r === request ? o as number : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Build pagination metadata for paginated responses
  *
  * @param total - Total number of results (before pagination)
  * @param offset - Current offset
  * @param limit - Current limit
+ * @param request - Request identifier from paginationRequest; adds nextCursor when more results remain
  * @returns Pagination metadata object
  */
 export function buildPaginationMetadata(
   total: number,
   offset: number,
-  limit: number
+  limit: number,
+  request?: string
 ): PaginationMetadata {
+  const hasMore = (offset + limit) < total;
   return {
     total,
     offset,
     limit,
-    hasMore: (offset + limit) < total
+    hasMore,
+    ...(hasMore && request !== undefined && { nextCursor: encodeCursor(offset + limit, request) })
   };
 }
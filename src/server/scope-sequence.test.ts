@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for Scope and Sequence Generation
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { generateScopeAndSequence, balancedUnitSizes } from './scope-sequence.js';
+import { PrerequisiteGraph } from './prerequisite-graph.js';
+import type { Standard } from '../types/ngss.js';
+
+function makeStandard(code: string, topic: string, dci: string, ccc: string): Standard {
+  const element = (name: string) => ({ code: '', name, description: '' });
+  return {
+    code,
+    grade_level: 'MS',
+    domain: code.includes('-LS') ? 'Life Science' : 'Physical Science',
+    topic,
+    performance_expectation: `${topic} ${dci}`,
+    sep: element('Develop a model'),
+    dci: element(dci),
+    ccc: element(ccc),
+    seps: [element('Develop a model')],
+    dcis: [element(dci)],
+    cccs: [element(ccc)],
+    keywords: [],
+    lesson_scope: {
+      key_concepts: [],
+      prerequisite_knowledge: [],
+      common_misconceptions: [],
+      depth_boundaries: { include: [], exclude: [] }
+    }
+  };
+}
+
+// Two energy standards, two cell standards; each second standard builds on the first
+const standards = [
+  makeStandard('MS-LS1-2', 'Cells', 'Structure and Function', 'Structure'),
+  makeStandard('MS-PS3-5', 'Energy', 'Conservation of Energy', 'Energy and matter'),
+  makeStandard('MS-LS1-1', 'Cells', 'Structure and Function', 'Scale'),
+  makeStandard('MS-PS3-1', 'Energy', 'Definitions of Energy', 'Scale')
+];
+const prerequisites = new PrerequisiteGraph([
+  { prerequisite: 'MS-LS1-1', standard: 'MS-LS1-2', reason: 'All living things are made of cells' },
+  { prerequisite: 'MS-PS3-1', standard: 'MS-PS3-5', reason: 'Kinetic energy depends on speed' }
+]);
+
+describe('balancedUnitSizes', () => {
+  test('should give the first units one more when the split is uneven', () => {
+    expect(balancedUnitSizes(59, 8)).toEqual([8, 8, 8, 7, 7, 7, 7, 7]);
+    expect(balancedUnitSizes(6, 3)).toEqual([2, 2, 2]);
+  });
+});
+
+describe('generateScopeAndSequence', () => {
+  test('should group compatible standards and order prerequisites first', () => {
+    const { units, violations } = generateScopeAndSequence(standards, { unitSizes: [2, 2], prerequisites });
+    const codes = units.map(unit => unit.standards.map(s => s.code).sort());
+
+    expect(codes).toContainEqual(['MS-LS1-1', 'MS-LS1-2']);
+    expect(codes).toContainEqual(['MS-PS3-1', 'MS-PS3-5']);
+    units.forEach(unit => expect(unit.builds_on).toHaveLength(1));
+    expect(units.find(u => u.title === 'Energy')!.standards.map(s => s.code)).toEqual(['MS-PS3-1', 'MS-PS3-5']);
+    expect(violations).toEqual([]);
+  });
+
+  test('should keep a standard in a later unit than its prerequisite', () => {
+    const { units, violations } = generateScopeAndSequence(standards, { unitSizes: [1, 1, 1, 1], prerequisites });
+    const position = (code: string) => units.findIndex(unit => unit.standards.some(s => s.code === code));
+
+    expect(position('MS-LS1-1')).toBeLessThan(position('MS-LS1-2'));
+    expect(position('MS-PS3-1')).toBeLessThan(position('MS-PS3-5'));
+    expect(units[position('MS-PS3-5')]!.rationale).toContain(`Builds on unit ${position('MS-PS3-1') + 1}: MS-PS3-1 before MS-PS3-5`);
+    expect(violations).toEqual([]);
+  });
+
+  test('should follow prerequisites through standards outside the set', () => {
+    const throughOutside = new PrerequisiteGraph([
+      { prerequisite: 'MS-LS1-1', standard: 'MS-PS3-1', reason: 'Cells need energy' },
+      { prerequisite: 'MS-PS3-1', standard: 'MS-LS1-2', reason: 'Kinetic energy' }
+    ]);
+    const subset = standards.filter(s => s.code !== 'MS-PS3-1');
+    const { units } = generateScopeAndSequence(subset, { unitSizes: [1, 1, 1], prerequisites: throughOutside });
+    const position = (code: string) => units.findIndex(unit => unit.standards.some(s => s.code === code));
+
+    expect(position('MS-LS1-1')).toBeLessThan(position('MS-LS1-2'));
+    expect(units[position('MS-LS1-2')]!.builds_on).toEqual([
+      { prerequisite: 'MS-LS1-1', standard: 'MS-LS1-2', unit: position('MS-LS1-1') + 1 }
+    ]);
+  });
+
+  test('should not break prerequisites for any compatibility gain', () => {
+    // Two groups of eight near-identical standards, each needing one standard of the other group,
+    // so grouping them perfectly would teach one prerequisite late
+    const group = (prefix: string, topic: string, dci: string, ccc: string) =>
+      Array.from({ length: 8 }, (_, i) => makeStandard(`${prefix}-${i + 1}`, topic, dci, ccc));
+    const large = [...group('MS-LS1', 'Cells', 'Structure and Function', 'Structure'), ...group('MS-PS3', 'Energy', 'Definitions of Energy', 'Scale')];
+    const crossing = new PrerequisiteGraph([
+      { prerequisite: 'MS-PS3-1', standard: 'MS-LS1-1', reason: 'Cells need energy' },
+      { prerequisite: 'MS-LS1-2', standard: 'MS-PS3-2', reason: 'Energy in living things' }
+    ]);
+    const weights = { domain: 10, sep: 10, ccc: 10, dci: 10, engineering: 10, content: 10 };
+
+    const { violations } = generateScopeAndSequence(large, { unitSizes: [8, 8], weights, prerequisites: crossing });
+
+    expect(violations).toEqual([]);
+  });
+
+  test('should only group by compatibility without a prerequisite graph', () => {
+    const { units } = generateScopeAndSequence(standards, { unitSizes: [2, 2] });
+
+    units.forEach(unit => expect(unit.builds_on).toEqual([]));
+  });
+
+  test('should honor placements and report the prerequisites they put out of order', () => {
+    const placements = new Map([['MS-PS3-5', 0], ['MS-PS3-1', 1]]);
+    const { units, violations } = generateScopeAndSequence(standards, { unitSizes: [2, 2], placements, prerequisites });
+
+    expect(units[0]!.standards.map(s => s.code)).toContain('MS-PS3-5');
+    expect(units[1]!.standards.map(s => s.code)).toContain('MS-PS3-1');
+    expect(violations).toEqual([{ prerequisite: 'MS-PS3-1', standard: 'MS-PS3-5', unit: 2 }]);
+  });
+
+  test('should explain each unit with its shared DCIs and CCCs', () => {
+    const { units } = generateScopeAndSequence(standards, { unitSizes: [2, 2], prerequisites });
+    const cells = units.find(unit => unit.title === 'Cells')!;
+
+    expect(cells.shared_dcis).toEqual([{ name: 'Structure and Function', codes: ['MS-LS1-1', 'MS-LS1-2'] }]);
+    expect(cells.shared_cccs).toEqual([]);
+    expect(cells.rationale[0]).toBe('Shared DCI "Structure and Function": MS-LS1-1, MS-LS1-2');
+    expect(cells.rationale[1]).toBe('MS-LS1-1 before MS-LS1-2 (prerequisite, same unit)');
+    expect(cells.coherence).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Scope and Sequence
+ * Splits a set of standards into units taught in order over a year. Units are filled in sequence
+ * so that a standard is only placed once its prerequisites in the set (from the prerequisite
+ * graph, including those through standards outside the set) are placed, then standards are
+ * swapped between units while that raises the compatibility of the standards within each unit.
+ */
+
+import type { Standard } from '../types/ngss.js';
+import { scoreCompatibility, unitKey, DEFAULT_COMPATIBILITY_WEIGHTS, type CompatibilityWeights } from './unit-planning.js';
+import { PrerequisiteGraph } from './prerequisite-graph.js';
+
+const MAX_SWAP_ROUNDS = 20;
+
+export interface SequenceOptions {
+  unitSizes: number[];                        // Standards per unit, in teaching order
+  placements?: Map<string, number> | undefined;   // Standard code -> unit index (0-based) it must go in
+  weights?: CompatibilityWeights | undefined;
+  prerequisites?: PrerequisiteGraph | undefined;   // No ordering constraints when left out
+}
+
+export interface SharedElement {
+  name: string;
+  codes: string[];                // Unit standards that share it
+}
+
+export interface PrerequisiteLink {
+  prerequisite: string;
+  standard: string;
+  unit: number;                   // 1-based unit of the prerequisite
+}
+
+export interface SequencedUnit {
+  unit: number;                   // 1-based position in the year
+  title: string;                  // Most common topic among the unit's standards
+  standards: Standard[];          // Prerequisites before the standards needing them
+  coherence: number;              // Average pairwise compatibility score
+  shared_dcis: SharedElement[];
+  shared_cccs: SharedElement[];
+  builds_on: PrerequisiteLink[];  // Prerequisites taught in earlier units or earlier in this unit
+  rationale: string[];
+}
+
+export interface ScopeAndSequence {
+  units: SequencedUnit[];
+  violations: PrerequisiteLink[];   // Prerequisites taught after the standard needing them (forced by placements)
+}
+
+/**
+ * Split balanced sizes: 59 standards in 8 units -> three units of 8, then five of 7
+ */
+export function balancedUnitSizes(total: number, unitCount: number): number[] {
+  return Array.from({ length: unitCount }, (_, i) =>
+    Math.floor(total / unitCount) + (i < total % unitCount ? 1 : 0)
+  );
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export function generateScopeAndSequence(standards: Standard[], options: SequenceOptions): ScopeAndSequence {
+  const {
+    unitSizes,
+    placements = new Map<string, number>(),
+    weights = DEFAULT_COMPATIBILITY_WEIGHTS,
+    prerequisites: graph = new PrerequisiteGraph()
+  } = options;
+  const n = standards.length;
+  const index = new Map(standards.map((standard, i) => [unitKey(standard), i]));
+
+  // Pair scores and prerequisite edges within the set
+  const scores = standards.map(() => new Array<number>(n).fill(0));
+  standards.forEach((a, i) => standards.slice(i + 1).forEach((b, offset) => {
+    const score = scoreCompatibility(a, b, weights).score;
+    scores[i]![i + 1 + offset] = score;
+    scores[i + 1 + offset]![i] = score;
+  }));
+  const prerequisites = standards.map((): number[] => []);
+  graph.prerequisitesWithin([...index.keys()]).forEach(link => {
+    prerequisites[index.get(link.standard)!]!.push(index.get(link.prerequisite)!);
+  });
+  const dependents = standards.map((_, i) => prerequisites.flatMap((list, j) => list.includes(i) ? [j] : []));
+
+  const pinned = new Map<number, number>();
+  standards.forEach((standard, i) => {
+    const unit = placements.get(standard.code) ?? placements.get(unitKey(standard));
+    if (unit !== undefined) {
+      pinned.set(i, unit);
+    }
+  });
+
+  // Fill the units in order. A standard is available once its prerequisites are placed in an
+  // earlier unit or this one; when none is (prerequisites pinned later), any standard is.
+  const unitOf = new Array<number>(n).fill(-1);
+  const members: number[][] = unitSizes.map(() => []);
+  const fit = (i: number, unit: number[]) => unit.reduce((sum, j) => sum + (j === i ? 0 : scores[i]![j]!), 0);
+
+  unitSizes.forEach((size, u) => {
+    const unit = members[u]!;
+    pinned.forEach((target, i) => {
+      if (target === u) {
+        unit.push(i);
+        unitOf[i] = u;
+      }
+    });
+    while (unit.length < size) {
+      const open = standards.flatMap((_, i) => unitOf[i] === -1 && !pinned.has(i) ? [i] : []);
+      if (open.length === 0) {
+        break;
+      }
+      const available = open.filter(i => prerequisites[i]!.every(p => unitOf[p] !== -1));
+      const choices = available.length > 0 ? available : open;
+      // An empty unit starts from the standard closest to the rest of what is left
+      const rank = (i: number) => unit.length > 0 ? fit(i, unit) : fit(i, open);
+      const best = choices.reduce((a, b) => rank(b) > rank(a) ? b : a);
+      unit.push(best);
+      unitOf[best] = u;
+    }
+  });
+
+  // Swap standards between units while the total score rises. Prerequisites taught late are
+  // compared first, so a swap never breaks the order for any compatibility gain.
+  const violationsOf = (i: number, unit: number) =>
+    prerequisites[i]!.filter(p => unitOf[p]! > unit).length +
+    dependents[i]!.filter(d => unitOf[d]! < unit).length;
+  for (let pass = 0; pass < MAX_SWAP_ROUNDS; pass++) {
+    let swapped = false;
+    for (let a = 0; a < n; a++) {
+      for (let b = a + 1; b < n; b++) {
+        const ua = unitOf[a]!;
+        const ub = unitOf[b]!;
+        if (ua === ub || ua === -1 || ub === -1 || pinned.has(a) || pinned.has(b)) {
+          continue;
+        }
+        const before = fit(a, members[ua]!) + fit(b, members[ub]!);
+        const after = fit(b, members[ua]!) - scores[a]![b]! + fit(a, members[ub]!) - scores[a]![b]!;
+        const lateBefore = violationsOf(a, ua) + violationsOf(b, ub);
+        unitOf[a] = ub;
+        unitOf[b] = ua;
+        const lateAfter = violationsOf(a, ub) + violationsOf(b, ua);
+        if (lateAfter < lateBefore || (lateAfter === lateBefore && after > before + 1e-9)) {
+          members[ua]![members[ua]!.indexOf(a)] = b;
+          members[ub]![members[ub]!.indexOf(b)] = a;
+          swapped = true;
+        } else {
+          unitOf[a] = ua;
+          unitOf[b] = ub;
+        }
+      }
+    }
+    if (!swapped) {
+      break;
+    }
+  }
+
+  const link = (p: number, i: number): PrerequisiteLink => ({
+    prerequisite: standards[p]!.code,
+    standard: standards[i]!.code,
+    unit: unitOf[p]! + 1
+  });
+  const violations = standards.flatMap((_, i) =>
+    prerequisites[i]!.filter(p => unitOf[p]! > unitOf[i]!).map(p => link(p, i))
+  );
+
+  const units = members.map((unit, u): SequencedUnit => {
+    const ordered = orderWithinUnit(unit, prerequisites);
+    const unitStandards = ordered.map(i => standards[i]!);
+    const pairScores = ordered.flatMap((i, k) => ordered.slice(k + 1).map(j => scores[i]![j]!));
+    const builds_on = ordered.flatMap(i =>
+      prerequisites[i]!.filter(p => unitOf[p]! <= u).map(p => link(p, i))
+    );
+    const shared_dcis = sharedElements(unitStandards, standard => standard.dcis.map(dci => dci.name));
+    const shared_cccs = sharedElements(unitStandards, standard => standard.cccs.map(ccc => ccc.name));
+
+    const rationale = [
+      ...shared_dcis.map(e => `Shared DCI "${e.name}": ${e.codes.join(', ')}`),
+      ...shared_cccs.map(e => `Shared CCC "${e.name}": ${e.codes.join(', ')}`),
+      ...builds_on.map(l => l.unit === u + 1
+        ? `${l.prerequisite} before ${l.standard} (prerequisite, same unit)`
+        : `Builds on unit ${l.unit}: ${l.prerequisite} before ${l.standard}`)
+    ];
+
+    return {
+      unit: u + 1,
+      title: mostCommon(unitStandards.map(standard => standard.topic)) ?? '',
+      standards: unitStandards,
+      coherence: pairScores.length > 0 ? round(pairScores.reduce((sum, s) => sum + s, 0) / pairScores.length) : 0,
+      shared_dcis,
+      shared_cccs,
+      builds_on,
+      rationale
+    };
+  });
+
+  return { units, violations };
+}
+
+/**
+ * Prerequisites within the unit first, otherwise the order the standards were placed in
+ */
+function orderWithinUnit(unit: number[], prerequisites: number[][]): number[] {
+  const ordered: number[] = [];
+  const remaining = [...unit];
+  while (remaining.length > 0) {
+    const next = remaining.findIndex(i => prerequisites[i]!.every(p => !remaining.includes(p)));
+    ordered.push(...remaining.splice(next === -1 ? 0 : next, 1));
+  }
+  return ordered;
+}
+
+/**
+ * Element names used by two or more of the standards, most widely shared first
+ */
+function sharedElements(standards: Standard[], names: (standard: Standard) => string[]): SharedElement[] {
+  const codes = new Map<string, string[]>();
+  standards.forEach(standard => new Set(names(standard)).forEach(name => {
+    codes.set(name, [...(codes.get(name) ?? []), standard.code]);
+  }));
+  return [...codes]
+    .filter(([, list]) => list.length > 1)
+    .map(([name, list]) => ({ name, codes: list }))
+    .sort((a, b) => b.codes.length - a.codes.length || a.name.localeCompare(b.name));
+}
+
+function mostCommon(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
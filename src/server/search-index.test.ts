@@ -0,0 +1,195 @@
+/**
+ * Unit Tests for BM25F Search Index
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { SearchIndex, Vocabulary, stem, tokenize, maxEditDistance, DEFAULT_FIELD_WEIGHTS, EXPANSION_WEIGHT, SEARCH_FIELDS } from './search-index.js';
+
+describe('stem', () => {
+  test('should conflate plural and verb forms', () => {
+    const groups = [
+      ['reaction', 'reactions'],
+      ['energy', 'energies'],
+      ['process', 'processes'],
+      ['change', 'changes', 'changed', 'changing'],
+      ['model', 'models', 'modeled', 'modeling'],
+      ['map', 'mapped', 'mapping'],
+      ['study', 'studies', 'studied', 'studying'],
+      ['feed', 'feeding'],
+      ['gas', 'gases']
+    ];
+
+    for (const forms of groups) {
+      expect(new Set(forms.map(stem)).size).toBe(1);
+    }
+  });
+
+  test('should leave words ending in ss, us and is intact', () => {
+    expect(stem('mass')).toBe('mass');
+    expect(stem('nucleus')).toBe('nucleus');
+    expect(stem('photosynthesis')).toBe('photosynthesis');
+  });
+
+  test('should not strip endings that leave no vowel or a too-short stem', () => {
+    expect(stem('thing')).toBe('thing');
+    expect(stem('string')).toBe('string');
+    expect(stem('seed')).toBe('seed');
+  });
+});
+
+describe('tokenize', () => {
+  test('should lowercase, split on punctuation, drop stop words and short words, and stem', () => {
+    expect(tokenize('Develop a model of the Earth-Sun-Moon systems.')).toEqual(['develop', 'model', 'earth', 'sun', 'moon', 'system']);
+  });
+});
+
+describe('maxEditDistance', () => {
+  test('should allow more edits for longer terms', () => {
+    expect(maxEditDistance('heat')).toBe(0);
+    expect(maxEditDistance('energy')).toBe(1);
+    expect(maxEditDistance('photosynthesis')).toBe(2);
+  });
+});
+
+describe('Vocabulary', () => {
+  const vocabulary = new Vocabulary({
+    'heat': ['thermal energy'],
+    'food web': ['feeding relationships']
+  });
+
+  test('should expand a query phrase to its related wording', () => {
+    expect(vocabulary.expand(tokenize('heat transfer'))).toEqual(tokenize('thermal energy'));
+  });
+
+  test('should match phrases in any inflection, only when consecutive', () => {
+    expect(vocabulary.expand(tokenize('food webs'))).toEqual(tokenize('feeding relationships'));
+    expect(vocabulary.expand(tokenize('web of food'))).toEqual([]);
+  });
+
+  test('should not repeat terms already in the query', () => {
+    expect(vocabulary.expand(tokenize('heat and thermal energy'))).toEqual([]);
+  });
+
+  test('should accept additional entries', () => {
+    const extended = new Vocabulary({ 'heat': ['thermal energy'] });
+    extended.add({ 'quake': ['earthquake'] });
+
+    expect(extended.size).toBe(2);
+    expect(extended.expand(tokenize('quakes'))).toEqual(tokenize('earthquake'));
+  });
+});
+
+describe('SearchIndex', () => {
+  const build = () => {
+    const index = new SearchIndex();
+    index.add('A', 'performance_expectation', tokenize('Develop a model to describe photosynthesis in plants'));
+    index.add('B', 'performance_expectation', tokenize('Develop a model to describe particle motion'));
+    index.add('C', 'performance_expectation', tokenize('Develop a model to describe the water cycle'));
+    index.add('C', 'topic', tokenize('Earth Systems'));
+    return index;
+  };
+
+  test('should only score documents containing a query term', () => {
+    const scores = build().score(['photosynthesis']);
+
+    expect([...scores.keys()]).toEqual(['A']);
+  });
+
+  test('should weight rare terms above terms every document shares', () => {
+    const index = build();
+
+    expect(index.idf('photosynthesis')).toBeGreaterThan(index.idf('model'));
+    const scores = index.score(['model', 'photosynthesis']);
+    expect(scores.get('A')!).toBeGreaterThan(scores.get('B')!);
+  });
+
+  test('should rank a match in a heavier field higher', () => {
+    const index = new SearchIndex();
+    index.add('A', 'performance_expectation', tokenize('ecosystems change over time'));
+    index.add('A', 'topic', tokenize('Interactions'));
+    index.add('B', 'performance_expectation', tokenize('organisms interact over time'));
+    index.add('B', 'topic', tokenize('Ecosystems'));
+    index.add('C', 'performance_expectation', tokenize('weather patterns'));
+
+    expect(DEFAULT_FIELD_WEIGHTS.topic).toBeGreaterThan(DEFAULT_FIELD_WEIGHTS.performance_expectation);
+    const scores = index.score(tokenize('ecosystems'));
+    expect(scores.get('B')!).toBeGreaterThan(scores.get('A')!);
+  });
+
+  test('should favour the shorter field for equal term counts', () => {
+    const index = new SearchIndex();
+    index.add('short', 'performance_expectation', tokenize('energy transfer'));
+    index.add('long', 'performance_expectation', tokenize('energy moves between objects through collisions sound light heat currents'));
+
+    const scores = index.score(['energy']);
+    expect(scores.get('short')!).toBeGreaterThan(scores.get('long')!);
+  });
+
+  test('should score expansion terms at the expansion weight', () => {
+    const index = build();
+    const direct = index.score(['photosynthesis']).get('A')!;
+
+    expect(index.score([], ['photosynthesis']).get('A')).toBeCloseTo(direct * EXPANSION_WEIGHT);
+    expect(index.score(['photosynthesis'], ['photosynthesis']).get('A')).toBe(direct);
+  });
+
+  test('should count repeated query terms once', () => {
+    const index = build();
+
+    expect(index.score(['photosynthesis', 'photosynthesis']).get('A')).toBe(index.score(['photosynthesis']).get('A'));
+  });
+
+  test('should find indexed terms within the edit distance, closest and most common first', () => {
+    const index = new SearchIndex();
+    index.addText('A', 'performance_expectation', 'photosynthesis in plants');
+    index.addText('B', 'performance_expectation', 'ecosystem interactions');
+    index.addText('C', 'performance_expectation', 'ecosystems and economies');
+
+    expect(index.similarTerms(stem('photosinthesis'))).toEqual(['photosynthesis']);
+    expect(index.similarTerms(stem('ecosytem'))).toEqual(['ecosystem']);
+    expect(index.similarTerms('plan')).toEqual([]);   // Short terms must match exactly
+    expect(index.similarTerms('ecosystem')).toEqual([]);
+  });
+
+  test('should report the most common indexed word for a term', () => {
+    const index = new SearchIndex();
+    index.addText('A', 'performance_expectation', 'changes in ecosystems');
+    index.addText('B', 'performance_expectation', 'ecosystems change over time; ecosystem services');
+
+    expect(index.surfaceForm(stem('ecosystem'))).toBe('ecosystems');
+    expect(index.surfaceForm('unindexed')).toBe('unindexed');
+  });
+
+  test('should use the weights given for a query instead of the index weights', () => {
+    const index = build();
+    const topicOnly = { ...DEFAULT_FIELD_WEIGHTS, performance_expectation: 0 };
+
+    expect(index.score(['earth'], [], SEARCH_FIELDS, topicOnly).has('C')).toBe(true);
+    expect(index.score(['water'], [], SEARCH_FIELDS, topicOnly).size).toBe(0);
+    expect(index.score(['water'], [], ['topic']).size).toBe(0);
+  });
+
+  test('should remove a field so it can be indexed again', () => {
+    const index = new SearchIndex();
+    index.addText('A', 'performance_expectation', 'ecosystems change');
+    index.addText('A', 'lesson_scope', 'food webs and ecosystems');
+    index.addText('B', 'lesson_scope', 'food chains');
+
+    index.removeField('A', 'lesson_scope');
+    index.addText('A', 'lesson_scope', 'energy pyramids');
+
+    expect(index.documentsWith('food')).toEqual(['B']);
+    expect(index.has('web')).toBe(false);
+    expect(index.surfaceForm(stem('ecosystem'))).toBe('ecosystems');
+    expect(index.phraseMatches(tokenize('energy pyramids'), ['lesson_scope'])).toEqual(['A']);
+    expect(index.score(['ecosystem']).has('A')).toBe(true);
+  });
+
+  test('should report vocabulary size and postings', () => {
+    const index = build();
+
+    expect(index.documentsWith('develop').sort()).toEqual(['A', 'B', 'C']);
+    expect(index.documentsWith('unknown')).toEqual([]);
+    expect(index.vocabularySize).toBe(new Set(tokenize('develop model describe photosynthesis plants particle motion water cycle earth systems')).size);
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * BM25F Full-Text Search Index
+ * Per-field term statistics with field weights, so rare terms ("photosynthesis") outrank
+ * common wording ("develop", "model", "describe") and title-like fields count for more
+ */
+
+import levenshtein from 'fast-levenshtein';
+import type { LessonScope } from '../types/ngss.js';
+
+/**
+ * Indexed parts of a standard
+ */
+export type SearchField =
+  | 'performance_expectation'
+  | 'notes'            // Clarification statement, assessment boundary, state overlay wording
+  | 'topic'
+  | 'keywords'
+  | 'sep'              // 3D element names
+  | 'dci'
+  | 'ccc'
+  | 'sep_description'  // 3D element descriptions (the framework text behind each element)
+  | 'dci_description'
+  | 'ccc_description'
+  | 'lesson_scope';    // Key concepts, prerequisites, misconceptions and included depth
+
+export const SEARCH_FIELDS: readonly SearchField[] = [
+  'performance_expectation',
+  'notes',
+  'topic',
+  'keywords',
+  'sep',
+  'dci',
+  'ccc',
+  'sep_description',
+  'dci_description',
+  'ccc_description',
+  'lesson_scope'
+];
+
+export type FieldWeights = Record<SearchField, number>;
+
+/**
+ * Text of the lesson_scope field. Depth exclusions and prerequisite knowledge are left out: they
+ * name what a lesson on the standard should not cover or what earlier standards taught
+ * ("Photosynthesis (MS-LS1-6)" in MS-LS2-3), so matching them would find the wrong standards.
+ */
+export function lessonScopeText(scope: LessonScope): string {
+  return [
+    ...scope.key_concepts,
+    ...scope.common_misconceptions,
+    ...scope.depth_boundaries.include
+  ].join(' ');
+}
+
+/**
+ * Relative importance of a term occurrence in each field
+ */
+export const DEFAULT_FIELD_WEIGHTS: FieldWeights = {
+  performance_expectation: 1.0,
+  notes: 0.5,
+  topic: 1.5,
+  keywords: 1.2,
+  sep: 0.6,
+  dci: 1.0,
+  ccc: 0.6,
+  sep_description: 0.3,
+  dci_description: 0.5,
+  ccc_description: 0.3,
+  lesson_scope: 0.4
+};
+
+export interface Bm25Parameters {
+  k1: number;   // Term-frequency saturation
+  b: number;    // Field-length normalization (0 = none, 1 = full)
+}
+
+export const DEFAULT_BM25_PARAMETERS: Bm25Parameters = { k1: 1.2, b: 0.75 };
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
+  'what', 'how', 'why', 'when', 'where', 'who'
+]);
+
+/**
+ * Inflectional stemmer: strips plural, -ed and -ing endings and a final "e" so that
+ * "reactions"/"reaction", "changes"/"changing"/"changed" and "energies"/"energy" share a term.
+ * Derivational forms ("react"/"reaction") are left to the search vocabulary.
+ */
+export function stem(word: string): string {
+  if (word.length < 4 || /\d/.test(word)) {
+    return word;
+  }
+  let result = word;
+
+  if (result.endsWith('sses')) {
+    result = result.slice(0, -2);                              // processes -> process
+  } else if (result.endsWith('ies')) {
+    result = `${result.slice(0, -3)}y`;                        // energies -> energy
+  } else if (result.endsWith('s') && !/(ss|us|is)$/.test(result)) {
+    result = result.slice(0, -1);                              // keep mass, nucleus, photosynthesis
+  } else {
+    const suffix = /(ing|ed)$/.exec(result)?.[1];
+    const base = suffix ? result.slice(0, -suffix.length) : '';
+    if (suffix && base.length >= 3 && /[aeiouy]/.test(base) && !result.endsWith('eed')) {
+      result = /([^aeiouylsz])\1$/.test(base) ? base.slice(0, -1) : base;   // mapping -> map
+      if (base.endsWith('i') && suffix === 'ed') {
+        result = `${base.slice(0, -1)}y`;                      // studied -> study
+      }
+    }
+  }
+
+  return result.length > 3 && result.endsWith('e') ? result.slice(0, -1) : result;
+}
+
+/**
+ * Lowercase, split on non-word characters, and drop stop words and words under 3 letters
+ */
+export function splitWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/\W+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+/**
+ * splitWords, then stem. Used for both the index and queries so the two always agree.
+ */
+export function tokenize(text: string): string[] {
+  return splitWords(text).map(stem);
+}
+
+/**
+ * Typo tolerance: terms under 5 letters must match exactly, longer terms allow 1 edit,
+ * and terms of 9 letters or more allow 2
+ */
+export function maxEditDistance(term: string): number {
+  if (term.length < 5) return 0;
+  return term.length < 9 ? 1 : 2;
+}
+
+/**
+ * Query phrase -> wording the standards use for the same idea
+ */
+export type VocabularyEntries = Record<string, readonly string[]>;
+
+/**
+ * Score multiplier for terms added by vocabulary expansion, so the teacher's own words still lead
+ */
+export const EXPANSION_WEIGHT = 0.5;
+
+/**
+ * Expands queries with related NGSS wording. Phrases and expansions go through tokenize,
+ * so "earthquakes" matches an "earthquake" entry.
+ */
+export class Vocabulary {
+  private entries: Array<{ phrase: string[]; expansions: string[] }>;
+
+  constructor(entries: VocabularyEntries = {}) {
+    this.entries = [];
+    this.add(entries);
+  }
+
+  /**
+   * Add entries (a phrase listed again adds to its existing expansions)
+   */
+  add(entries: VocabularyEntries): void {
+    for (const [phrase, related] of Object.entries(entries)) {
+      const tokens = tokenize(phrase);
+      if (tokens.length > 0) {
+        this.entries.push({ phrase: tokens, expansions: related.flatMap(tokenize) });
+      }
+    }
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Whether a term is part of any entry's phrase (such terms are not typo-corrected)
+   */
+  knows(term: string): boolean {
+    return this.entries.some(({ phrase }) => phrase.includes(term));
+  }
+
+  /**
+   * Terms related to the query that it does not already contain. A phrase matches when its
+   * terms appear consecutively in the query.
+   */
+  expand(terms: string[]): string[] {
+    const present = new Set(terms);
+    const expansions = new Set<string>();
+
+    for (const { phrase, expansions: related } of this.entries) {
+      const matches = terms.some((_, start) => phrase.every((term, i) => terms[start + i] === term));
+      if (matches) {
+        related.filter(term => !present.has(term)).forEach(term => expansions.add(term));
+      }
+    }
+
+    return [...expansions];
+  }
+}
+
+type FieldCounts = Partial<Record<SearchField, number>>;
+
+export class SearchIndex {
+  private postings: Map<string, Map<string, FieldCounts>>;   // term -> code -> term frequency per field
+  private fieldLengths: Map<string, FieldCounts>;            // code -> token count per field
+  private surfaceForms: Map<string, Map<string, number>>;    // term -> indexed words stemming to it, with counts
+  private fieldTerms: Map<string, Partial<Record<SearchField, string[]>>>;   // code -> terms in order, for phrases
+  private fieldWords: Map<string, Partial<Record<SearchField, string[]>>>;   // code -> words added by addText, for removeField
+  private totalLengths: FieldCounts;
+  private weights: FieldWeights;
+  private params: Bm25Parameters;
+
+  constructor(weights: FieldWeights = DEFAULT_FIELD_WEIGHTS, params: Bm25Parameters = DEFAULT_BM25_PARAMETERS) {
+    this.postings = new Map();
+    this.fieldLengths = new Map();
+    this.surfaceForms = new Map();
+    this.fieldTerms = new Map();
+    this.fieldWords = new Map();
+    this.totalLengths = {};
+    this.weights = weights;
+    this.params = params;
+  }
+
+  /**
+   * Add tokens to one field of a document (repeated calls append to the field)
+   */
+  add(code: string, field: SearchField, terms: string[]): void {
+    if (!this.fieldLengths.has(code)) {
+      this.fieldLengths.set(code, {});
+    }
+    const lengths = this.fieldLengths.get(code)!;
+    lengths[field] = (lengths[field] ?? 0) + terms.length;
+    this.totalLengths[field] = (this.totalLengths[field] ?? 0) + terms.length;
+
+    if (!this.fieldTerms.has(code)) {
+      this.fieldTerms.set(code, {});
+    }
+    const sequences = this.fieldTerms.get(code)!;
+    sequences[field] = [...(sequences[field] ?? []), ...terms];
+
+    for (const term of terms) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      const docs = this.postings.get(term)!;
+      if (!docs.has(code)) {
+        docs.set(code, {});
+      }
+      const counts = docs.get(code)!;
+      counts[field] = (counts[field] ?? 0) + 1;
+    }
+  }
+
+  /**
+   * Tokenize text into one field of a document, remembering the unstemmed words for suggestions
+   */
+  addText(code: string, field: SearchField, text: string): void {
+    const words = splitWords(text);
+    const terms = words.map(word => {
+      const term = stem(word);
+      if (!this.surfaceForms.has(term)) {
+        this.surfaceForms.set(term, new Map());
+      }
+      const forms = this.surfaceForms.get(term)!;
+      forms.set(word, (forms.get(word) ?? 0) + 1);
+      return term;
+    });
+    if (!this.fieldWords.has(code)) {
+      this.fieldWords.set(code, {});
+    }
+    const added = this.fieldWords.get(code)!;
+    added[field] = [...(added[field] ?? []), ...words];
+    this.add(code, field, terms);
+  }
+
+  /**
+   * Remove everything indexed in one field of a document, so it can be indexed again
+   */
+  removeField(code: string, field: SearchField): void {
+    const terms = this.fieldTerms.get(code)?.[field] ?? [];
+    for (const term of terms) {
+      const docs = this.postings.get(term)!;
+      const counts = docs.get(code)!;
+      counts[field] = counts[field]! - 1;
+      if (counts[field] === 0) {
+        delete counts[field];
+      }
+      if (Object.keys(counts).length === 0) {
+        docs.delete(code);
+      }
+      if (docs.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    for (const word of this.fieldWords.get(code)?.[field] ?? []) {
+      const forms = this.surfaceForms.get(stem(word))!;
+      forms.set(word, forms.get(word)! - 1);
+      if (forms.get(word) === 0) {
+        forms.delete(word);
+      }
+      if (forms.size === 0) {
+        this.surfaceForms.delete(stem(word));
+      }
+    }
+
+    const lengths = this.fieldLengths.get(code);
+    if (lengths?.[field] !== undefined) {
+      this.totalLengths[field] = (this.totalLengths[field] ?? 0) - lengths[field];
+      delete lengths[field];
+    }
+    delete this.fieldTerms.get(code)?.[field];
+    delete this.fieldWords.get(code)?.[field];
+  }
+
+  /**
+   * Number of distinct indexed terms
+   */
+  get vocabularySize(): number {
+    return this.postings.size;
+  }
+
+  /**
+   * Codes of the documents containing a term in any field
+   */
+  documentsWith(term: string): string[] {
+    return [...(this.postings.get(term)?.keys() ?? [])];
+  }
+
+  /**
+   * Whether any document contains the term
+   */
+  has(term: string): boolean {
+    return this.postings.has(term);
+  }
+
+  /**
+   * Indexed terms within maxEditDistance of a term (excluding the term itself),
+   * closest first, then those found in more documents
+   */
+  similarTerms(term: string): string[] {
+    const maxDistance = maxEditDistance(term);
+    if (maxDistance === 0) {
+      return [];
+    }
+
+    const candidates: Array<{ term: string; distance: number; df: number }> = [];
+    this.postings.forEach((docs, candidate) => {
+      if (candidate === term || Math.abs(candidate.length - term.length) > maxDistance) {
+        return;
+      }
+      const distance = levenshtein.get(term, candidate);
+      if (distance <= maxDistance) {
+        candidates.push({ term: candidate, distance, df: docs.size });
+      }
+    });
+
+    return candidates
+      .sort((a, b) => a.distance - b.distance || b.df - a.df || a.term.localeCompare(b.term))
+      .map(c => c.term);
+  }
+
+  /**
+   * The indexed word most often stemmed to a term ("chang" -> "changes"), for display
+   */
+  surfaceForm(term: string): string {
+    const forms = this.surfaceForms.get(term);
+    if (!forms) {
+      return term;
+    }
+    return [...forms.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]![0];
+  }
+
+  /**
+   * Inverse document frequency (BM25 variant, always positive)
+   */
+  idf(term: string): number {
+    const n = this.fieldLengths.size;
+    const df = this.postings.get(term)?.size ?? 0;
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  }
+
+  /**
+   * Codes of the documents whose text contains the terms consecutively in one of the fields
+   */
+  phraseMatches(terms: string[], fields: readonly SearchField[] = SEARCH_FIELDS): string[] {
+    if (terms.length === 0) {
+      return [];
+    }
+    return this.documentsWith(terms[0]!).filter(code => {
+      const sequences = this.fieldTerms.get(code)!;
+      return fields.some(field => {
+        const sequence = sequences[field] ?? [];
+        return sequence.some((_, start) => terms.every((term, i) => sequence[start + i] === term));
+      });
+    });
+  }
+
+  /**
+   * BM25F score of every document matching at least one term. Repeated query terms count once;
+   * expansion terms (see Vocabulary) contribute at EXPANSION_WEIGHT. `fields` limits matching
+   * to those fields; `weights` replaces the index's field weights for this query.
+   */
+  score(
+    terms: string[],
+    expansions: string[] = [],
+    fields: readonly SearchField[] = SEARCH_FIELDS,
+    weights: FieldWeights = this.weights
+  ): Map<string, number> {
+    const { k1, b } = this.params;
+    const scores = new Map<string, number>();
+    const queryWeights = new Map<string, number>(expansions.map(term => [term, EXPANSION_WEIGHT]));
+    terms.forEach(term => queryWeights.set(term, 1));
+
+    for (const [term, queryWeight] of queryWeights) {
+      const docs = this.postings.get(term);
+      if (!docs) {
+        continue;
+      }
+      const idf = this.idf(term) * queryWeight;
+
+      docs.forEach((counts, code) => {
+        const lengths = this.fieldLengths.get(code)!;
+        let weightedTf = 0;
+        for (const field of (Object.keys(counts) as SearchField[]).filter(f => fields.includes(f))) {
+          const averageLength = (this.totalLengths[field] ?? 0) / this.fieldLengths.size;
+          const norm = averageLength > 0 ? (1 - b) + b * (lengths[field] ?? 0) / averageLength : 1;
+          weightedTf += weights[field] * counts[field]! / norm;
+        }
+        if (weightedTf === 0) {
+          return;
+        }
+        const termScore = idf * weightedTf * (k1 + 1) / (k1 + weightedTf);
+        scores.set(code, (scores.get(code) ?? 0) + termScore);
+      });
+    }
+
+    return scores;
+  }
+}
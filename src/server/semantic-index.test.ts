@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for the Latent Semantic Index
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { SemanticIndex, buildSemanticVectors, semanticChecksum, semanticVectorPath, symmetricEigen } from './semantic-index.js';
+import { tokenize } from './search-index.js';
+import type { Standard } from '../types/ngss.js';
+
+function makeStandard(code: string, performanceExpectation: string, keyConcepts: string[] = []): Standard {
+  const element = { code: 'X', name: '', description: '' };
+  return {
+    code,
+    grade_level: 'MS',
+    domain: 'Physical Science',
+    topic: '',
+    performance_expectation: performanceExpectation,
+    sep: element,
+    dci: element,
+    ccc: element,
+    seps: [],
+    dcis: [],
+    cccs: [],
+    keywords: [],
+    lesson_scope: {
+      key_concepts: keyConcepts,
+      prerequisite_knowledge: [],
+      common_misconceptions: [],
+      depth_boundaries: { include: [], exclude: [] }
+    }
+  };
+}
+
+const standards = [
+  makeStandard('MS-PS1-4', 'Develop a model of particle motion and temperature when thermal energy is added', ['Melting and freezing are changes of state']),
+  makeStandard('MS-PS3-4', 'Plan an investigation of thermal energy transfer and temperature change'),
+  makeStandard('MS-LS1-6', 'Explain the role of photosynthesis in the cycling of matter in plants'),
+  makeStandard('MS-LS2-3', 'Model the cycling of matter among living organisms in an ecosystem')
+];
+
+const weights = (text: string) => new Map(tokenize(text).map(term => [term, 1]));
+
+describe('symmetricEigen', () => {
+  test('should return eigenpairs largest first', () => {
+    const [first, second] = symmetricEigen([[2, 1], [1, 2]]);
+
+    expect(first!.value).toBeCloseTo(3, 10);
+    expect(second!.value).toBeCloseTo(1, 10);
+    expect(first!.vector[0]).toBeCloseTo(Math.SQRT1_2, 10);
+    expect(first!.vector[1]).toBeCloseTo(Math.SQRT1_2, 10);
+  });
+
+  test('should satisfy A v = lambda v', () => {
+    const matrix = [[4, 1, 0.5], [1, 3, 0.2], [0.5, 0.2, 1]];
+    for (const { value, vector } of symmetricEigen(matrix)) {
+      matrix.forEach((row, i) => {
+        expect(row.reduce((sum, x, j) => sum + x * vector[j]!, 0)).toBeCloseTo(value * vector[i]!, 8);
+      });
+    }
+  });
+});
+
+describe('buildSemanticVectors', () => {
+  const file = buildSemanticVectors(standards, 'test-standards.json');
+
+  test('should record the source, checksum and one vector per standard', () => {
+    expect(file.source).toBe('test-standards.json');
+    expect(file.checksum).toBe(semanticChecksum(standards));
+    expect(Object.keys(file.standards)).toEqual(standards.map(s => s.code));
+    expect(file.dimensions).toBeLessThanOrEqual(standards.length);
+    Object.values(file.standards).forEach(vector => expect(vector).toHaveLength(file.dimensions));
+  });
+
+  test('should embed the lesson scope text', () => {
+    expect(file.terms).toHaveProperty(tokenize('melting')[0]!);
+  });
+
+  test('should change the checksum when the text changes', () => {
+    const edited = [{ ...standards[0]!, performance_expectation: 'Something else' }, ...standards.slice(1)];
+    expect(semanticChecksum(edited)).not.toBe(file.checksum);
+  });
+
+  test('should be deterministic apart from the timestamp', () => {
+    const again = buildSemanticVectors(standards, 'test-standards.json');
+    expect({ ...again, generated_at: '' }).toEqual({ ...file, generated_at: '' });
+  });
+});
+
+describe('SemanticIndex', () => {
+  const index = new SemanticIndex(buildSemanticVectors(standards, 'test-standards.json'));
+  const ranked = (text: string) => [...index.similarities(index.embed(weights(text))!)]
+    .sort((a, b) => b[1] - a[1])
+    .map(([code]) => code);
+
+  test('should rank the standard whose text matches first', () => {
+    expect(ranked('photosynthesis in plants')[0]).toBe('MS-LS1-6');
+    expect(ranked('melting ice')[0]).toBe('MS-PS1-4');
+  });
+
+  test('should give a standard similarity 1 with its own text', () => {
+    const similarity = index.similarities(index.embed(weights(standards[2]!.performance_expectation))!).get('MS-LS1-6')!;
+    expect(similarity).toBeCloseTo(1, 3);
+  });
+
+  test('should return null for text with no known term', () => {
+    expect(index.knows('sidewalk')).toBe(false);
+    expect(index.embed(weights('sidewalk'))).toBeNull();
+  });
+});
+
+describe('semanticVectorPath', () => {
+  test('should place the vectors next to the dataset', () => {
+    expect(semanticVectorPath('/app/data/ngss-ms-standards.json')).toBe('/app/data/ngss-ms-vectors.json');
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Latent Semantic Index
+ * Standards as vectors from a truncated SVD of their TF-IDF matrix (latent semantic analysis), so
+ * free text is compared by meaning rather than by shared words: "melting" lands near "thermal energy"
+ * and "particle motion" because the standards use them together. Vectors are built offline by
+ * `build-vectors` and stored next to the dataset; nothing here calls a network service.
+ */
+
+import { createHash } from 'crypto';
+import type { SemanticVectorFile, Standard } from '../types/ngss.js';
+import { tokenize } from './search-index.js';
+
+export const SEMANTIC_METHOD = 'lsa-tfidf';
+
+/**
+ * Latent dimensions kept (fewer when the dataset has fewer standards)
+ */
+export const SEMANTIC_DIMENSIONS = 32;
+
+/**
+ * Vector file of a dataset: data/ngss-ms-standards.json -> data/ngss-ms-vectors.json
+ */
+export function semanticVectorPath(datasetPath: string): string {
+  return datasetPath.replace(/-standards\.json$/, '-vectors.json');
+}
+
+/**
+ * The text a standard is embedded from: its wording, DCI descriptions and curated lesson scope
+ * (key concepts and misconceptions mention everyday phenomena the PE does not)
+ */
+export function semanticText(standard: Standard): string {
+  const scope = standard.lesson_scope;
+  return [
+    standard.topic,
+    standard.performance_expectation,
+    standard.clarification_statement ?? '',
+    standard.assessment_boundary ?? '',
+    ...standard.keywords,
+    ...standard.dcis.flatMap(dci => [dci.name, dci.description]),
+    ...standard.seps.map(sep => sep.name),
+    ...standard.cccs.map(ccc => ccc.name),
+    ...scope.key_concepts,
+    ...scope.common_misconceptions,
+    ...scope.depth_boundaries.include
+  ].join(' ');
+}
+
+/**
+ * SHA-256 of the embedded text, recorded in the vector file to detect a dataset edited since
+ */
+export function semanticChecksum(standards: Standard[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify(standards.map(standard => [standard.code, semanticText(standard)])))
+    .digest('hex');
+}
+
+/**
+ * Eigenvalues and eigenvectors of a symmetric matrix (cyclic Jacobi rotations), largest first
+ */
+export function symmetricEigen(matrix: number[][]): Array<{ value: number; vector: number[] }> {
+  const n = matrix.length;
+  const a = matrix.map(row => [...row]);
+  const v: number[][] = matrix.map((_, i) => matrix.map((_, j) => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        offDiagonal += a[p]![q]! ** 2;
+      }
+    }
+    if (offDiagonal < 1e-22) {
+      break;
+    }
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const apq = a[p]![q]!;
+        if (Math.abs(apq) < 1e-300) {
+          continue;
+        }
+        // Rotation that zeroes a[p][q]
+        const theta = (a[q]![q]! - a[p]![p]!) / (2 * apq);
+        const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k]![p]!;
+          const akq = a[k]![q]!;
+          a[k]![p] = c * akp - s * akq;
+          a[k]![q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p]![k]!;
+          const aqk = a[q]![k]!;
+          a[p]![k] = c * apk - s * aqk;
+          a[q]![k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k]![p]!;
+          const vkq = v[k]![q]!;
+          v[k]![p] = c * vkp - s * vkq;
+          v[k]![q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return a
+    .map((row, i) => {
+      const vector = v.map(r => r[i]!);
+      // Canonical sign (largest component positive) so rebuilding gives the same file
+      const largest = vector.reduce((max, x) => (Math.abs(x) > Math.abs(max) ? x : max), 0);
+      return { value: row[i]!, vector: largest < 0 ? vector.map(x => -x) : vector };
+    })
+    .sort((x, y) => y.value - x.value);
+}
+
+function round(values: number[]): number[] {
+  return values.map(x => Math.round(x * 1e5) / 1e5);
+}
+
+/**
+ * Latent semantic vectors of a dataset. Each standard is a unit-length TF-IDF vector
+ * (log term frequency); the SVD comes from the eigendecomposition of the standards' Gram matrix,
+ * which is small (one row per standard) however large the vocabulary.
+ */
+export function buildSemanticVectors(
+  standards: Standard[],
+  source: string,
+  dimensions: number = SEMANTIC_DIMENSIONS
+): SemanticVectorFile {
+  const counts = standards.map(standard => {
+    const termCounts = new Map<string, number>();
+    tokenize(semanticText(standard)).forEach(term => termCounts.set(term, (termCounts.get(term) ?? 0) + 1));
+    return termCounts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  counts.forEach(termCounts => termCounts.forEach((_, term) => {
+    documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }));
+
+  // Terms in every standard carry no information (idf 0) and are dropped
+  const n = standards.length;
+  const idf = new Map<string, number>();
+  [...documentFrequency.keys()].sort().forEach(term => {
+    const df = documentFrequency.get(term)!;
+    if (df < n) {
+      idf.set(term, Math.log(n / df));
+    }
+  });
+
+  const rows = counts.map(termCounts => {
+    const row = new Map<string, number>();
+    termCounts.forEach((count, term) => {
+      if (idf.has(term)) {
+        row.set(term, Math.log(1 + count) * idf.get(term)!);
+      }
+    });
+    const norm = Math.sqrt([...row.values()].reduce((sum, w) => sum + w * w, 0)) || 1;
+    row.forEach((w, term) => row.set(term, w / norm));
+    return row;
+  });
+
+  const dot = (a: Map<string, number>, b: Map<string, number>): number => {
+    let sum = 0;
+    a.forEach((w, term) => {
+      sum += w * (b.get(term) ?? 0);
+    });
+    return sum;
+  };
+  const gram = rows.map(a => rows.map(b => dot(a, b)));
+  const components = symmetricEigen(gram)
+    .filter(({ value }) => value > 1e-10)
+    .slice(0, dimensions);
+  const singularValues = components.map(({ value }) => Math.sqrt(value));
+
+  // Standard i: U[i] * S.  Term t: sum over standards of A[i][t] * U[i] / S (so A V = U S)
+  const standardVectors: Record<string, number[]> = {};
+  standards.forEach((standard, i) => {
+    standardVectors[standard.code] = round(components.map(({ vector }, j) => vector[i]! * singularValues[j]!));
+  });
+
+  const termVectors = new Map<string, number[]>([...idf.keys()].map(term => [term, components.map(() => 0)]));
+  rows.forEach((row, i) => row.forEach((w, term) => {
+    const vector = termVectors.get(term)!;
+    components.forEach(({ vector: u }, j) => {
+      vector[j]! += w * u[i]! / singularValues[j]!;
+    });
+  }));
+
+  return {
+    generated_at: new Date().toISOString(),
+    source,
+    method: SEMANTIC_METHOD,
+    checksum: semanticChecksum(standards),
+    dimensions: components.length,
+    idf: Object.fromEntries([...idf].map(([term, value]) => [term, Math.round(value * 1e5) / 1e5])),
+    terms: Object.fromEntries([...termVectors].map(([term, vector]) => [term, round(vector)])),
+    standards: standardVectors
+  };
+}
+
+export class SemanticIndex {
+  private idf: Map<string, number>;
+  private termVectors: Map<string, number[]>;
+  private standardVectors: Map<string, number[]>;   // Unit length
+
+  constructor(file: SemanticVectorFile) {
+    this.idf = new Map(Object.entries(file.idf));
+    this.termVectors = new Map(Object.entries(file.terms));
+    this.standardVectors = new Map(Object.entries(file.standards).map(([code, vector]) => [code, normalize(vector)]));
+  }
+
+  /**
+   * Whether the term occurs in the indexed text
+   */
+  knows(term: string): boolean {
+    return this.termVectors.has(term);
+  }
+
+  /**
+   * Fold weighted query terms into the latent space (unit length); null when no term is known
+   */
+  embed(weights: Map<string, number>): number[] | null {
+    let vector: number[] | null = null;
+    for (const [term, weight] of weights) {
+      const termVector = this.termVectors.get(term);
+      if (!termVector) {
+        continue;
+      }
+      const scale = weight * (this.idf.get(term) ?? 0);
+      vector = (vector ?? termVector.map(() => 0)).map((x, j) => x + scale * termVector[j]!);
+    }
+    return vector && normalize(vector);
+  }
+
+  /**
+   * Cosine similarity between a unit vector from embed() and every standard
+   */
+  similarities(vector: number[]): Map<string, number> {
+    const similarities = new Map<string, number>();
+    this.standardVectors.forEach((standardVector, code) => {
+      similarities.set(code, standardVector.reduce((sum, x, j) => sum + x * (vector[j] ?? 0), 0));
+    });
+    return similarities;
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return norm > 0 ? vector.map(x => x / norm) : vector;
+}
@@ -0,0 +1,225 @@
+/**
+ * Unit Tests for Unit Planning Compatibility Scores
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  scoreCompatibility,
+  resolveCompatibilityWeights,
+  contentTerms,
+  jaccardSimilarity,
+  explainCompatibility,
+  buildUnit,
+  DEFAULT_COMPATIBILITY_WEIGHTS
+} from './unit-planning.js';
+import { UNKNOWN_SEP_CODE, UNKNOWN_CCC_CODE } from '../constants/taxonomy.js';
+import type { Standard } from '../types/ngss.js';
+
+function makeStandard(code: string, domain: string, pe: string, keywords: string[], sep: string, ccc: string, dci: string): Standard {
+  const element = (name: string) => ({ code: '', name, description: '' });
+  return {
+    code,
+    grade_level: 'MS',
+    domain,
+    topic: '',
+    performance_expectation: pe,
+    sep: element(sep),
+    dci: element(dci),
+    ccc: element(ccc),
+    seps: [element(sep)],
+    dcis: [element(dci)],
+    cccs: [element(ccc)],
+    keywords,
+    lesson_scope: {
+      key_concepts: [],
+      prerequisite_knowledge: [],
+      common_misconceptions: [],
+      depth_boundaries: { include: [], exclude: [] }
+    }
+  };
+}
+
+const anchor = makeStandard(
+  'MS-PS3-1', 'Physical Science',
+  'Construct and interpret graphical displays of data to describe the relationships of kinetic energy to the mass of an object.',
+  ['kinetic energy'], 'Analyze data', 'Scale', 'Definitions of Energy'
+);
+// Same practice, different content
+const samePractice = makeStandard(
+  'MS-LS2-1', 'Life Science',
+  'Analyze and interpret data to provide evidence for the effects of resource availability on populations.',
+  ['populations'], 'Analyze data', 'Cause and effect', 'Ecosystems'
+);
+// Different practice, same content
+const sameContent = makeStandard(
+  'MS-PS3-5', 'Physical Science',
+  'Construct an argument that when the kinetic energy of an object changes, energy is transferred to or from the object.',
+  ['kinetic energy'], 'Engage in argument', 'Energy and matter', 'Conservation of Energy'
+);
+
+describe('contentTerms', () => {
+  test('should drop practice and classroom wording', () => {
+    const terms = contentTerms(anchor);
+
+    expect(terms.has('kinetic')).toBe(true);
+    expect(terms.has('energy')).toBe(true);
+    expect(terms.has('construct')).toBe(false);
+    expect(terms.has('data')).toBe(false);
+  });
+
+  test('should keep the first word each term came from', () => {
+    expect(contentTerms(anchor).get('relationship')).toBe('relationships');
+  });
+});
+
+describe('jaccardSimilarity', () => {
+  test('should divide shared terms by all terms', () => {
+    expect(jaccardSimilarity(new Set(['a', 'b', 'c']), new Set(['b', 'c', 'd']))).toBe(0.5);
+  });
+
+  test('should be 0 for two empty sets', () => {
+    expect(jaccardSimilarity(new Set(), new Set())).toBe(0);
+  });
+});
+
+describe('resolveCompatibilityWeights', () => {
+  test('should keep defaults for unset keys', () => {
+    expect(resolveCompatibilityWeights({ sep: 5, content: undefined })).toEqual({ ...DEFAULT_COMPATIBILITY_WEIGHTS, sep: 5 });
+    expect(resolveCompatibilityWeights()).toEqual(DEFAULT_COMPATIBILITY_WEIGHTS);
+  });
+});
+
+describe('scoreCompatibility', () => {
+  test('should add content similarity to the binary matches', () => {
+    const result = scoreCompatibility(anchor, sameContent);
+
+    expect(result.breakdown.domain_match).toBe(3);
+    expect(result.breakdown.shared_seps).toBe(0);
+    expect(result.similarity).toBeGreaterThan(0);
+    expect(result.breakdown.content_similarity).toBe(Math.round(result.similarity * DEFAULT_COMPATIBILITY_WEIGHTS.content * 100) / 100);
+    expect(result.shared.terms).toEqual(expect.arrayContaining(['kinetic', 'energy', 'object']));
+  });
+
+  test('should not count a shared practice as shared content', () => {
+    const result = scoreCompatibility(anchor, samePractice);
+
+    expect(result.breakdown.shared_seps).toBe(2);
+    expect(result.similarity).toBe(0);
+    expect(result.shared.terms).toEqual([]);
+  });
+
+  test('should not count two placeholder elements as shared', () => {
+    const unknown = { code: UNKNOWN_SEP_CODE, name: 'Unknown', description: '' };
+    const unknownCcc = { ...unknown, code: UNKNOWN_CCC_CODE };
+    const result = scoreCompatibility(
+      { ...anchor, seps: [unknown], cccs: [unknownCcc] },
+      { ...samePractice, seps: [unknown], cccs: [unknownCcc] }
+    );
+
+    expect(result.shared.seps).toEqual([]);
+    expect(result.shared.cccs).toEqual([]);
+    expect(result.breakdown.shared_seps).toBe(0);
+    expect(result.breakdown.shared_cccs).toBe(0);
+  });
+
+  test('should rank by the weights given', () => {
+    const practiceFocused = resolveCompatibilityWeights({ domain: 0, sep: 5, content: 0 });
+    const contentFocused = resolveCompatibilityWeights({ domain: 0, sep: 0, content: 10 });
+    const rank = (weights: typeof practiceFocused) => [samePractice, sameContent]
+      .map(candidate => scoreCompatibility(anchor, candidate, weights))
+      .sort((a, b) => b.score - a.score)
+      .map(result => result.standard.code);
+
+    expect(rank(practiceFocused)).toEqual(['MS-LS2-1', 'MS-PS3-5']);
+    expect(rank(contentFocused)).toEqual(['MS-PS3-5', 'MS-LS2-1']);
+  });
+
+  test('should score 0 for a signal weighted 0', () => {
+    const result = scoreCompatibility(anchor, sameContent, resolveCompatibilityWeights({ domain: 0, content: 0 }));
+
+    expect(result.breakdown.domain_match).toBe(0);
+    expect(result.breakdown.content_similarity).toBe(0);
+    expect(result.score).toBe(0);
+  });
+});
+
+describe('explainCompatibility', () => {
+  test('should give one reason per signal that scored', () => {
+    const reasons = explainCompatibility(anchor, scoreCompatibility(anchor, sameContent));
+
+    expect(reasons[0]).toBe('Same domain: Physical Science (+3)');
+    expect(reasons[1]).toMatch(/^Similar content: "kinetic", "energy", .* \(similarity 0\.\d+, \+\d\.\d+\)$/);
+    expect(reasons).toHaveLength(2);
+  });
+});
+
+describe('buildUnit', () => {
+  // Close to sameContent in every way but unrelated to the anchor's practice and CCC
+  const contentPeer = makeStandard(
+    'MS-PS3-2', 'Physical Science',
+    'Develop a model to describe that when the arrangement of objects changes, different amounts of kinetic energy are transferred.',
+    ['kinetic energy'], 'Engage in argument', 'Energy and matter', 'Conservation of Energy'
+  );
+  const pool = [anchor, samePractice, sameContent, contentPeer];
+
+  test('should keep the required standards first and fill the unit from the pool', () => {
+    const plan = buildUnit([anchor], pool, 3);
+
+    expect(plan.members[0]).toBe(anchor);
+    expect(plan.members).toHaveLength(3);
+    expect(plan.candidates).toBe(3);
+    expect(new Set(plan.members.map(m => m.code)).size).toBe(3);
+  });
+
+  test('should replace a pick that suits the anchors but not the rest of the unit', () => {
+    // Shares the anchor's practice and CCC but nothing with the two energy transfer standards
+    const practiceTwin = makeStandard(
+      'MS-LS1-1', 'Life Science',
+      'Analyze and interpret data on the cell theory.',
+      ['cells'], 'Analyze data', 'Scale', 'Structure and Function'
+    );
+    const weights = resolveCompatibilityWeights({ domain: 0 });
+    const twinScore = scoreCompatibility(anchor, practiceTwin, weights).score;
+    expect(twinScore).toBeGreaterThan(scoreCompatibility(anchor, sameContent, weights).score);
+    expect(twinScore).toBeGreaterThan(scoreCompatibility(anchor, contentPeer, weights).score);
+
+    const plan = buildUnit([anchor], [practiceTwin, sameContent, contentPeer], 3, weights);
+
+    expect(plan.members.map(m => m.code).sort()).toEqual(['MS-PS3-1', 'MS-PS3-2', 'MS-PS3-5']);
+    expect(plan.coherence).toBe(Math.round(plan.pairs.reduce((sum, p) => sum + p.score, 0) / 3 * 100) / 100);
+  });
+
+  test('should follow the weights', () => {
+    const weights = resolveCompatibilityWeights({ domain: 0, sep: 10, content: 0 });
+    const plan = buildUnit([anchor], pool, 2, weights);
+
+    expect(plan.members.map(m => m.code)).toEqual(['MS-PS3-1', 'MS-LS2-1']);
+  });
+
+  test('should stop at the pool size', () => {
+    expect(buildUnit([anchor], [sameContent], 5).members).toHaveLength(2);
+  });
+
+  test('should treat a state view and its base standard as the same standard', () => {
+    const stateView: Standard = { ...sameContent, code: 'CA-PS3-5', state_alignment: { state: 'CA', ngss_code: 'MS-PS3-5' } as Standard['state_alignment'] };
+    const plan = buildUnit([anchor, stateView], pool, 4);
+
+    expect(plan.members.map(m => m.code)).not.toContain('MS-PS3-5');
+  });
+
+  test('should return a symmetric matrix and every pair with reasons', () => {
+    const plan = buildUnit([anchor], pool, 3);
+
+    expect(plan.matrix.map((row, i) => row[i])).toEqual([null, null, null]);
+    plan.matrix.forEach((row, i) => row.forEach((score, j) => expect(score).toBe(plan.matrix[j]![i]!)));
+    expect(plan.pairs).toHaveLength(3);
+    expect(plan.pairs.map(p => p.score)).toEqual([...plan.pairs.map(p => p.score)].sort((a, b) => b - a));
+    expect(plan.pairs.every(p => p.match_reasons.length > 0)).toBe(true);
+  });
+
+  test('should list the dimensions the unit covers', () => {
+    const plan = buildUnit([anchor], pool, 3);
+
+    expect(plan.coverage.core_ideas).toEqual(['Conservation of Energy', 'Definitions of Energy']);
+  });
+});
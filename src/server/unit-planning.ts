@@ -0,0 +1,295 @@
+/**
+ * Unit Planning
+ * Compatibility of a candidate standard with a unit's anchor: shared domain, practices,
+ * crosscutting concepts and core ideas, engineering design pairings, and how much of the
+ * content the two PEs and keywords have in common. Each signal has a weight callers can tune,
+ * so the same anchor can give a practice-focused or a content-focused unit.
+ *
+ * buildUnit scores every pair in the unit, not just each standard against the anchor, and
+ * picks the set with the highest average pairwise score.
+ */
+
+import { DOMAIN_MAP, ENGINEERING_INTEGRATED_STANDARDS, type Standard } from '../types/ngss.js';
+import { SEP_CATEGORIES, CCC_CATEGORIES, UNKNOWN_SEP_CODE, UNKNOWN_CCC_CODE, findCategory } from '../constants/taxonomy.js';
+import { SEP_CUES, LESSON_STOP_WORDS } from '../constants/dimension-cues.js';
+import { tokenize } from './search-index.js';
+
+export interface CompatibilityWeights {
+  domain: number;                 // Same domain
+  sep: number;                    // Any shared SEP element
+  ccc: number;                    // Any shared CCC element
+  dci: number;                    // Any shared DCI element
+  engineering: number;            // ETS standard paired with an engineering-design PE
+  content: number;                // Multiplied by the content similarity (0-1)
+}
+
+export const DEFAULT_COMPATIBILITY_WEIGHTS: CompatibilityWeights = {
+  domain: 3,
+  sep: 2,
+  ccc: 2,
+  dci: 1,
+  engineering: 4,
+  content: 4
+};
+
+/**
+ * The defaults with a caller's weights applied (unset keys keep their default)
+ */
+export function resolveCompatibilityWeights(
+  overrides: { [K in keyof CompatibilityWeights]?: number | undefined } = {}
+): CompatibilityWeights {
+  const weights = { ...DEFAULT_COMPATIBILITY_WEIGHTS };
+  for (const key of Object.keys(weights) as Array<keyof CompatibilityWeights>) {
+    weights[key] = overrides[key] ?? weights[key];
+  }
+  return weights;
+}
+
+export interface CompatibilityScore {
+  standard: Standard;
+  score: number;                  // Sum of the breakdown, rounded to 2 decimals
+  similarity: number;             // Jaccard similarity of the content terms (0-1)
+  breakdown: {
+    domain_match: number;         // 0 or the domain weight
+    shared_seps: number;          // 0 or the SEP weight (binary match on any shared element)
+    shared_cccs: number;          // 0 or the CCC weight (binary match on any shared element)
+    shared_dcis: number;          // 0 or the DCI weight (binary match on any shared element)
+    engineering_integration: number;   // 0 or the engineering weight
+    content_similarity: number;   // similarity x the content weight
+  };
+  shared: {
+    seps: string[];
+    cccs: string[];
+    dcis: string[];
+    terms: string[];              // The anchor's words for the content terms both standards use
+  };
+}
+
+/**
+ * Practice wording ("construct an explanation", "analyze data") and classroom wording. Every PE
+ * opens with its practice, so these would make any two PEs with the same practice look alike.
+ */
+const NON_CONTENT_TERMS = new Set([
+  ...Object.values(SEP_CUES).flat(),
+  ...SEP_CATEGORIES.map(category => category.name),
+  ...LESSON_STOP_WORDS
+].flatMap(tokenize));
+
+/**
+ * Content terms of a standard's PE and keywords, tokenized like the full-text index, each with
+ * the first word it came from
+ */
+export function contentTerms(standard: Standard): Map<string, string> {
+  const terms = new Map<string, string>();
+  const text = [standard.performance_expectation, ...standard.keywords].join(' ');
+  for (const match of text.matchAll(/\w+/g)) {
+    const [term] = tokenize(match[0]);
+    if (term && !NON_CONTENT_TERMS.has(term) && !terms.has(term)) {
+      terms.set(term, match[0].toLowerCase());
+    }
+  }
+  return terms;
+}
+
+/**
+ * Shared terms over all terms; 0 when neither side has any
+ */
+export function jaccardSimilarity(a: ReadonlySet<string>, b: ReadonlySet<string>): number {
+  const shared = [...a].filter(term => b.has(term)).length;
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+// Names present in both element lists (standards may draw on several elements per dimension);
+// elements filed under the unknown placeholder code share nothing but the placeholder name
+function sharedElementNames(
+  anchorElements: Array<{ code: string; name: string }>,
+  candidateElements: Array<{ code: string; name: string }>,
+  unknownCode?: string
+): string[] {
+  const known = (elements: Array<{ code: string; name: string }>) => elements.filter(e => e.code !== unknownCode);
+  const candidateNames = new Set(known(candidateElements).map(e => e.name));
+  return [...new Set(known(anchorElements).map(e => e.name))].filter(name => candidateNames.has(name));
+}
+
+// True when one standard is an engineering (ETS) standard and the other a science PE it is meant to be taught with
+function isEngineeringPair(a: Standard, b: Standard): boolean {
+  const integrates = (standard: Standard) =>
+    ENGINEERING_INTEGRATED_STANDARDS.includes(standard.state_alignment?.ngss_code ?? standard.code);
+  const isEngineering = (standard: Standard) => standard.domain === DOMAIN_MAP.ETS;
+  return (isEngineering(a) && integrates(b)) || (integrates(a) && isEngineering(b));
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export function scoreCompatibility(
+  anchor: Standard,
+  candidate: Standard,
+  weights: CompatibilityWeights = DEFAULT_COMPATIBILITY_WEIGHTS
+): CompatibilityScore {
+  const anchorTerms = contentTerms(anchor);
+  const candidateTerms = new Set(contentTerms(candidate).keys());
+  const similarity = jaccardSimilarity(new Set(anchorTerms.keys()), candidateTerms);
+
+  const shared = {
+    seps: sharedElementNames(anchor.seps, candidate.seps, UNKNOWN_SEP_CODE),
+    cccs: sharedElementNames(anchor.cccs, candidate.cccs, UNKNOWN_CCC_CODE),
+    dcis: sharedElementNames(anchor.dcis, candidate.dcis),
+    terms: [...anchorTerms].filter(([term]) => candidateTerms.has(term)).map(([, word]) => word)
+  };
+
+  const breakdown = {
+    domain_match: anchor.domain === candidate.domain ? weights.domain : 0,
+    shared_seps: shared.seps.length > 0 ? weights.sep : 0,
+    shared_cccs: shared.cccs.length > 0 ? weights.ccc : 0,
+    shared_dcis: shared.dcis.length > 0 ? weights.dci : 0,
+    // ETS standards are integrated into science units
+    engineering_integration: isEngineeringPair(anchor, candidate) ? weights.engineering : 0,
+    content_similarity: round(similarity * weights.content)
+  };
+
+  const score = round(Object.values(breakdown).reduce((sum, points) => sum + points, 0));
+
+  return { standard: candidate, score, similarity: round(similarity), breakdown, shared };
+}
+
+/**
+ * Why a candidate scored what it did against the anchor, one reason per signal that scored
+ */
+export function explainCompatibility(anchor: Standard, result: CompatibilityScore): string[] {
+  const { breakdown, shared, similarity } = result;
+  const quoted = (names: string[]) => names.map(name => `"${name}"`).join(', ');
+  const reasons: string[] = [];
+  if (breakdown.domain_match > 0) {
+    reasons.push(`Same domain: ${anchor.domain} (+${breakdown.domain_match})`);
+  }
+  if (breakdown.shared_seps > 0) {
+    reasons.push(`Shared SEP: ${quoted(shared.seps)} (+${breakdown.shared_seps})`);
+  }
+  if (breakdown.shared_cccs > 0) {
+    reasons.push(`Shared CCC: ${quoted(shared.cccs)} (+${breakdown.shared_cccs})`);
+  }
+  if (breakdown.shared_dcis > 0) {
+    reasons.push(`Shared DCI: ${quoted(shared.dcis)} (+${breakdown.shared_dcis})`);
+  }
+  if (breakdown.engineering_integration > 0) {
+    reasons.push(`Engineering design pairing with ${anchor.code} (+${breakdown.engineering_integration})`);
+  }
+  if (breakdown.content_similarity > 0) {
+    reasons.push(`Similar content: ${quoted(shared.terms)} (similarity ${similarity}, +${breakdown.content_similarity})`);
+  }
+  return reasons;
+}
+
+/**
+ * NGSS code a standard is the same as: a state view and its base standard count once in a unit
+ */
+export function unitKey(standard: Standard): string {
+  return standard.state_alignment?.ngss_code ?? standard.code;
+}
+
+export interface UnitPair {
+  codes: [string, string];
+  score: number;
+  match_reasons: string[];        // From the first standard's side
+}
+
+export interface UnitPlan {
+  members: Standard[];            // The required standards as given, then the picks in the order chosen
+  candidates: number;             // Pool standards that were not required
+  coherence: number;              // Average pairwise score
+  matrix: Array<Array<number | null>>;   // Pairwise scores in member order; null on the diagonal
+  pairs: UnitPair[];              // Every pair, highest score first
+  coverage: {
+    practices: string[];          // SEP categories of the members
+    crosscutting_concepts: string[];
+    core_ideas: string[];         // DCI names
+  };
+}
+
+const MAX_SWAP_ROUNDS = 20;
+
+/**
+ * Pick standards from the pool to fill a unit of the given size around the required standards
+ * (anchors and must-includes), maximizing the average score over every pair in the unit.
+ * Greedy: each pick is the candidate with the highest total score against the members so far.
+ * Then picks are swapped for unused candidates while that raises the total, so an early pick
+ * that suited the anchors but not the later picks can still be replaced.
+ */
+export function buildUnit(
+  required: Standard[],
+  pool: Standard[],
+  size: number,
+  weights: CompatibilityWeights = DEFAULT_COMPATIBILITY_WEIGHTS
+): UnitPlan {
+  const scores = new Map<string, CompatibilityScore>();
+  const pairScore = (a: Standard, b: Standard): CompatibilityScore => {
+    const key = `${a.code}|${b.code}`;
+    if (!scores.has(key)) {
+      scores.set(key, scoreCompatibility(a, b, weights));
+    }
+    return scores.get(key)!;
+  };
+  const fit = (candidate: Standard, members: Standard[]): number =>
+    members.reduce((sum, member) => sum + pairScore(member, candidate).score, 0);
+  const byFit = (members: Standard[]) => (a: Standard, b: Standard) =>
+    fit(b, members) - fit(a, members) || a.code.localeCompare(b.code);
+
+  const taken = new Set(required.map(unitKey));
+  const candidates = pool.filter(standard => {
+    const key = unitKey(standard);
+    if (taken.has(key)) {
+      return false;
+    }
+    taken.add(key);
+    return true;
+  });
+
+  const members = [...required];
+  let unused = candidates;
+  while (members.length < size && unused.length > 0) {
+    const best = [...unused].sort(byFit(members))[0]!;
+    members.push(best);
+    unused = unused.filter(standard => standard !== best);
+  }
+
+  for (let pass = 0; pass < MAX_SWAP_ROUNDS; pass++) {
+    let swapped = false;
+    for (let i = required.length; i < members.length; i++) {
+      const others = members.filter((_, j) => j !== i);
+      const current = fit(members[i]!, others);
+      const best = [...unused].sort(byFit(others))[0];
+      if (best && fit(best, others) > current + 1e-9) {
+        unused = [...unused.filter(standard => standard !== best), members[i]!];
+        members[i] = best;
+        swapped = true;
+      }
+    }
+    if (!swapped) {
+      break;
+    }
+  }
+
+  const pairs: UnitPair[] = [];
+  const matrix = members.map(() => members.map((): number | null => null));
+  members.forEach((a, i) => members.slice(i + 1).forEach((b, offset) => {
+    const result = pairScore(a, b);
+    const j = i + 1 + offset;
+    matrix[i]![j] = result.score;
+    matrix[j]![i] = result.score;
+    pairs.push({ codes: [a.code, b.code], score: result.score, match_reasons: explainCompatibility(a, result) });
+  }));
+  pairs.sort((a, b) => b.score - a.score);
+
+  const coherence = pairs.length > 0 ? round(pairs.reduce((sum, pair) => sum + pair.score, 0) / pairs.length) : 0;
+
+  const categoryNames = (categories: Parameters<typeof findCategory>[0], codes: string[]) =>
+    [...new Set(codes)].flatMap(code => findCategory(categories, code)?.name ?? []).sort();
+  const coverage = {
+    practices: categoryNames(SEP_CATEGORIES, members.flatMap(m => m.seps.map(sep => sep.code)).filter(code => code !== UNKNOWN_SEP_CODE)),
+    crosscutting_concepts: categoryNames(CCC_CATEGORIES, members.flatMap(m => m.cccs.map(ccc => ccc.code)).filter(code => code !== UNKNOWN_CCC_CODE)),
+    core_ideas: [...new Set(members.flatMap(m => m.dcis.map(dci => dci.name)))].sort()
+  };
+
+  return { members, candidates: candidates.length, coherence, matrix, pairs, coverage };
+}
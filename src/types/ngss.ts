@@ -5,6 +5,28 @@
 
 import { z } from 'zod';
 
+// ===== Regex Patterns =====
+
+export const PATTERNS = {
+  STANDARD_CODE: /\b(K|[1-5]|K-2|3-5|MS|HS)-([A-Z]{2,3})(\d+)-(\d+)\b/g,
+  // Anchored form used to validate a single code: K-PS2-1, 3-LS4-2, 3-5-ETS1-1, MS-PS1-1, HS-PS1-4
+  STANDARD_CODE_FORMAT: /^(K|[1-5]|K-2|3-5|MS|HS)-(PS|LS|ESS|ETS)\d+-\d+$/,
+  // State code from an overlay (letters, digits, dots, hyphens): NJ.MS-PS1-1, 6.PS1.1
+  STATE_CODE_FORMAT: /^[A-Za-z0-9][A-Za-z0-9.\-]{1,39}$/,
+  // DCI component code: PS3.B, LS1.C, ESS2.D, ETS1.A
+  DCI_CODE: /^(PS|LS|ESS|ETS)\d+\.[A-Z]$/,
+  SEP_SECTION: /Science and Engineering Practices/i,
+  DCI_SECTION: /Disciplinary Core Ideas/i,
+  CCC_SECTION: /Crosscutting Concepts/i,
+  // Grade-band DCI reference used in the Connections boxes: MS.PS3.C, 5.PS1.A, HS.LS1.C
+  DCI_REFERENCE: /\b(K|[1-5]|MS|HS)\.([A-Z]{2,3}\d+\.[A-Z])\b/g,
+  // Common Core ELA/Literacy codes: RST.6-8.1, WHST.6-8.7, SL.8.5, RI.3.1
+  CCSS_ELA: /\b(?:RST|WHST|RI|RL|RF|W|SL|L)\.(?:K|\d{1,2})(?:-\d{1,2})?\.\d+[a-z]?\b/g,
+  // Common Core Mathematics codes: MP.2, 6.RP.A.3, 8.EE.7, HSN-Q.A.1
+  CCSS_MATH: /\b(?:MP\.\d|(?:K|\d)\.[A-Z]{1,3}(?:\.[A-Z])?\.\d+[a-z]?|HS[A-Z]-[A-Z]{1,3}\.[A-Z]\.\d+[a-z]?)\b/g,
+  TOPIC_HEADER: /^(?:K|[1-5]|MS|HS)\.([A-Z][a-z\s]+)$/m
+};
+
 // ===== Core NGSS Types =====
 
 export interface SEP {
@@ -35,15 +57,40 @@ export interface LessonScope {
   };
 }
 
+/**
+ * References printed in the "Connections" boxes below a topic's foundation boxes.
+ * Each list holds only the references tagged with the owning standard's code.
+ */
+export interface StandardConnections {
+  // "Connections to other DCIs in this grade-band" (e.g. MS.PS3.C)
+  other_dcis: string[];
+  // "Articulation of DCIs across grade-bands" (e.g. 5.PS1.A, HS.PS1.A)
+  articulation: string[];
+  // "Common Core State Standards Connections" (e.g. RST.6-8.7; MP.2, 6.RP.A.3)
+  ccss_ela: string[];
+  ccss_math: string[];
+}
+
 export interface Standard {
   code: string;
   grade_level: string;
   domain: string;
   topic: string;
   performance_expectation: string;
+  // Bracketed notes printed after the PE (absent when the PE has none)
+  clarification_statement?: string | undefined;
+  assessment_boundary?: string | undefined;
+  // Primary element of each dimension (always the first entry of the matching array)
   sep: SEP;
   dci: DCI;
-  ccc: CCC;
+  ccc?: CCC | undefined;          // Absent when the PE draws on no crosscutting concept (MS-ETS1-1..4)
+  // Every element the performance expectation draws on, primary first
+  seps: SEP[];
+  dcis: DCI[];
+  cccs: CCC[];                    // Empty when the PE draws on no crosscutting concept
+  connections?: StandardConnections | undefined;
+  // Present only on state views created from an overlay (see StateOverlay)
+  state_alignment?: StateAlignment | undefined;
   keywords: string[];
   lesson_scope: LessonScope;
 }
@@ -82,18 +129,37 @@ export const LessonScopeSchema = z.object({
   })
 });
 
+export const StandardConnectionsSchema = z.object({
+  other_dcis: z.array(z.string().regex(/^(K|[1-5]|MS|HS)\.[A-Z]{2,3}\d+\.[A-Z]$/)),
+  articulation: z.array(z.string().regex(/^(K|[1-5]|MS|HS)\.[A-Z]{2,3}\d+\.[A-Z]$/)),
+  ccss_ela: z.array(z.string()),
+  ccss_math: z.array(z.string())
+});
+
 export const StandardSchema = z.object({
-  code: z.string().regex(/^[A-Z]{2}-[A-Z]{2,3}\d+-\d+$/),
-  grade_level: z.string(),
+  code: z.string().regex(PATTERNS.STANDARD_CODE_FORMAT),
+  grade_level: z.enum(['ES', 'MS', 'HS']),
   domain: z.string(),
   topic: z.string(),
   performance_expectation: z.string().min(50),
+  clarification_statement: z.string().min(10).optional(),
+  assessment_boundary: z.string().min(10).optional(),
   sep: SEPSchema,
   dci: DCISchema,
-  ccc: CCCSchema,
+  ccc: CCCSchema.optional(),
+  seps: z.array(SEPSchema).min(1),
+  dcis: z.array(DCISchema).min(1),
+  cccs: z.array(CCCSchema),
+  connections: StandardConnectionsSchema.optional(),
   keywords: z.array(z.string()),
   lesson_scope: LessonScopeSchema
-});
+}).refine(
+  standard =>
+    standard.seps[0]?.code === standard.sep.code &&
+    standard.dcis[0]?.code === standard.dci.code &&
+    standard.cccs[0]?.code === standard.ccc?.code,
+  { message: 'Primary sep/dci/ccc must be the first entry of seps/dcis/cccs' }
+);
 
 export const StandardsDatabaseSchema = z.object({
   standards: z.array(StandardSchema)
@@ -129,16 +195,206 @@ export interface ExtractionResult<T> {
 
 // ===== Domain Filters =====
 
-export type Domain = 'Life Science' | 'Physical Science' | 'Earth and Space Science';
-export type DomainCode = 'LS' | 'PS' | 'ESS';
+export type Domain =
+  | 'Life Science'
+  | 'Physical Science'
+  | 'Earth and Space Science'
+  | 'Engineering, Technology, and Applications of Science';
+export type DomainCode = 'LS' | 'PS' | 'ESS' | 'ETS';
 export type GradeLevel = 'ES' | 'MS' | 'HS';
 
+/**
+ * Dataset file for each grade band, relative to the working directory.
+ * Middle school ships with the package; ES and HS are produced by `build-data`.
+ */
+export const GRADE_LEVEL_DATASETS: Record<GradeLevel, string> = {
+  ES: 'data/ngss-es-standards.json',
+  MS: 'data/ngss-ms-standards.json',
+  HS: 'data/ngss-hs-standards.json'
+};
+
 export const DOMAIN_MAP: Record<DomainCode, Domain> = {
   LS: 'Life Science',
   PS: 'Physical Science',
-  ESS: 'Earth and Space Science'
+  ESS: 'Earth and Space Science',
+  ETS: 'Engineering, Technology, and Applications of Science'
 };
 
+/**
+ * Science PEs that integrate engineering design (NGSS Appendix I). Engineering (ETS) standards
+ * are meant to be taught together with these rather than as a standalone unit.
+ */
+export const ENGINEERING_INTEGRATED_STANDARDS: readonly string[] = [
+  'K-PS2-2', 'K-ESS3-3', '1-PS4-4', '2-LS2-2', '2-ESS2-1',
+  '3-PS2-4', '3-LS4-4', '3-ESS3-1', '4-PS3-4', '4-PS4-3', '4-ESS3-2',
+  'MS-PS1-6', 'MS-PS2-1', 'MS-PS3-3', 'MS-LS2-5', 'MS-ESS3-3',
+  'HS-PS1-6', 'HS-PS2-3', 'HS-PS3-3', 'HS-PS4-5', 'HS-LS2-7', 'HS-LS4-6', 'HS-ESS3-2', 'HS-ESS3-4'
+];
+
+// ===== Learning Progression Types =====
+
+export type GradeBand = 'K-2' | '3-5' | '6-8' | '9-12';
+
+export const GRADE_BANDS: readonly GradeBand[] = ['K-2', '3-5', '6-8', '9-12'];
+
+/**
+ * Curated grade-band endpoints for each DCI component (NGSS Appendix E), relative to the working directory
+ */
+export const DCI_PROGRESSIONS_FILE = 'data/dci-progressions.json';
+
+export interface DciProgression {
+  code: string;
+  name: string;
+  // What students should understand by the end of each band (absent when the band has no endpoint)
+  endpoints: Partial<Record<GradeBand, string>>;
+}
+
+export const DciProgressionSchema = z.object({
+  code: z.string().regex(/^[A-Z]{2,3}\d+\.[A-Z]$/),
+  name: z.string().min(5),
+  endpoints: z.object({
+    'K-2': z.string().min(10).optional(),
+    '3-5': z.string().min(10).optional(),
+    '6-8': z.string().min(10).optional(),
+    '9-12': z.string().min(10).optional()
+  })
+});
+
+// ===== State Overlay Types =====
+
+/**
+ * A state's edit of an NGSS performance expectation. Fields left out keep the NGSS wording.
+ */
+export interface StateOverlayEntry {
+  code: string;                  // State code (may equal the NGSS code)
+  ngss_code: string;             // Base NGSS standard the state code maps onto
+  grade?: string | undefined;    // State grade placement (e.g. "6" in an integrated model)
+  performance_expectation?: string | undefined;
+  clarification_statement?: string | undefined;
+  assessment_boundary?: string | undefined;
+  notes?: string | undefined;
+}
+
+export interface StateOverlay {
+  jurisdiction: string;          // e.g. "NJ", "CA", "MI"
+  framework: string;             // e.g. "NJSLS-S", "CA NGSS Integrated Model", "MSS"
+  source?: string | undefined;
+  standards: StateOverlayEntry[];
+}
+
+export interface StateAlignment {
+  jurisdiction: string;
+  framework: string;
+  ngss_code: string;
+  grade?: string | undefined;
+  notes?: string | undefined;
+}
+
+export const StateOverlayEntrySchema = z.object({
+  code: z.string().regex(PATTERNS.STATE_CODE_FORMAT),
+  ngss_code: z.string().regex(PATTERNS.STANDARD_CODE_FORMAT),
+  grade: z.string().min(1).optional(),
+  performance_expectation: z.string().min(10).optional(),
+  clarification_statement: z.string().min(10).optional(),
+  assessment_boundary: z.string().min(10).optional(),
+  notes: z.string().optional()
+});
+
+export const StateOverlaySchema = z.object({
+  jurisdiction: z.string().min(2),
+  framework: z.string().min(2),
+  source: z.string().optional(),
+  standards: z.array(StateOverlayEntrySchema).min(1)
+});
+
+// ===== Lesson Scope Types =====
+
+/**
+ * Curated lesson-planning data (prerequisites, misconceptions, boundaries), relative to the working directory
+ */
+export const LESSON_SCOPE_FILE = 'data/ngss-lesson-scope.json';
+
+export interface LessonScopeEntry extends LessonScope {
+  code: string;                  // NGSS code the curated scope replaces the generated one for
+}
+
+export interface LessonScopeFile {
+  source: string;
+  lesson_scopes: LessonScopeEntry[];
+}
+
+export const LessonScopeEntrySchema = LessonScopeSchema.extend({
+  code: z.string().regex(PATTERNS.STANDARD_CODE_FORMAT),
+  prerequisite_knowledge: z.array(z.string().min(5)).min(1),
+  common_misconceptions: z.array(z.string().min(5)).min(1),
+  depth_boundaries: z.object({
+    include: z.array(z.string().min(5)).min(1),
+    exclude: z.array(z.string().min(5))
+  })
+});
+
+export const LessonScopeFileSchema = z.object({
+  source: z.string().min(10),
+  lesson_scopes: z.array(LessonScopeEntrySchema).min(1)
+});
+
+// ===== Prerequisite Graph Types =====
+
+/**
+ * Curated prerequisite edges between standards, relative to the working directory
+ */
+export const PREREQUISITE_FILE = 'data/ngss-prerequisites.json';
+
+export interface PrerequisiteEdge {
+  prerequisite: string;          // NGSS code taught first
+  standard: string;              // NGSS code that builds on it
+  reason: string;                // What the standard needs from the prerequisite
+}
+
+export interface PrerequisiteFile {
+  source: string;
+  prerequisites: PrerequisiteEdge[];
+}
+
+export const PrerequisiteEdgeSchema = z.object({
+  prerequisite: z.string().regex(PATTERNS.STANDARD_CODE_FORMAT),
+  standard: z.string().regex(PATTERNS.STANDARD_CODE_FORMAT),
+  reason: z.string().min(5)
+});
+
+export const PrerequisiteFileSchema = z.object({
+  source: z.string().min(10),
+  prerequisites: z.array(PrerequisiteEdgeSchema).min(1)
+});
+
+// ===== Semantic Vector Types =====
+
+/**
+ * Latent semantic vectors of one dataset, written next to it by `build-vectors`
+ * (data/ngss-ms-standards.json -> data/ngss-ms-vectors.json)
+ */
+export interface SemanticVectorFile {
+  generated_at: string;
+  source: string;                      // Dataset file the vectors were built from
+  method: string;
+  checksum: string;                    // SHA-256 of the indexed text, to detect a dataset edited since
+  dimensions: number;
+  idf: Record<string, number>;         // Term -> inverse document frequency
+  terms: Record<string, number[]>;     // Term -> latent vector, for folding in free text
+  standards: Record<string, number[]>;   // Standard code -> latent vector
+}
+
+export const SemanticVectorFileSchema = z.object({
+  generated_at: z.string(),
+  source: z.string(),
+  method: z.string(),
+  checksum: z.string().regex(/^[0-9a-f]{64}$/),
+  dimensions: z.number().int().positive(),
+  idf: z.record(z.number()),
+  terms: z.record(z.array(z.number())),
+  standards: z.record(z.array(z.number()))
+});
+
 // ===== Detail Level Types =====
 
 export type DetailLevel = 'minimal' | 'summary' | 'full';
@@ -156,6 +412,19 @@ export interface SummaryStandard {
   keywords: string[]; // top 3 only
 }
 
+export interface HighlightedElement {
+  dimension: 'sep' | 'dci' | 'ccc';
+  code: string;
+  name: string;       // With matched words marked **like this**
+  description?: string | undefined;   // Excerpt, when the description contains a query term
+}
+
+export interface SearchHighlights {
+  matched_fields: string[];          // Standard fields containing a query term
+  snippet?: string | undefined;      // Excerpt around the best match, matched words marked **like this**
+  elements: HighlightedElement[];    // 3D elements whose names or descriptions contain a query term
+}
+
 // Full standard is the existing Standard interface
 
 // ===== Pagination Types =====
@@ -165,14 +434,5 @@ export interface PaginationMetadata {
   offset: number;     // Current offset (echo from request)
   limit: number;      // Current limit (echo from request)
   hasMore: boolean;   // True if more results available beyond current page
+  nextCursor?: string | undefined;   // Opaque cursor for the next page (pass as `cursor`)
 }
-
-// ===== Regex Patterns =====
-
-export const PATTERNS = {
-  STANDARD_CODE: /\b([A-Z]{2})-([A-Z]{2,3})(\d+)-(\d+)\b/g,
-  SEP_SECTION: /Science and Engineering Practices/i,
-  DCI_SECTION: /Disciplinary Core Ideas/i,
-  CCC_SECTION: /Crosscutting Concepts/i,
-  TOPIC_HEADER: /^MS\.([A-Z][a-z\s]+)$/m
-};